@@ -0,0 +1,349 @@
+// Mock FPL dataset
+// The static side of the mock API: teams, players, the fixture list, managers and
+// leagues. Either loaded from a recording made with record.mjs or generated from a
+// fixed seed, so every run of the server serves the same season.
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const POSITIONS = { 1: 'GKP', 2: 'DEF', 3: 'MID', 4: 'FWD' };
+
+// Squad shape of every synthetic team — the first 1/4/4/2 are the usual starters
+const SQUAD_SHAPE = [[1, 2], [2, 5], [3, 5], [4, 3]];
+
+const TEAMS = [
+  ['Arsenal', 'ARS', 3], ['Aston Villa', 'AVL', 7], ['Bournemouth', 'BOU', 91], ['Brentford', 'BRE', 94],
+  ['Brighton', 'BHA', 36], ['Chelsea', 'CHE', 8], ['Crystal Palace', 'CRY', 31], ['Everton', 'EVE', 11],
+  ['Fulham', 'FUL', 54], ['Ipswich', 'IPS', 40], ['Leicester', 'LEI', 13], ['Liverpool', 'LIV', 14],
+  ['Man City', 'MCI', 43], ['Man Utd', 'MUN', 1], ['Newcastle', 'NEW', 4], ["Nott'm Forest", 'NFO', 17],
+  ['Southampton', 'SOU', 20], ['Spurs', 'TOT', 6], ['West Ham', 'WHU', 21], ['Wolves', 'WOL', 39],
+];
+
+// Season totals the synthetic history doesn't model
+const EMPTY_SEASON_STATS = {
+  goals_scored: 0, assists: 0, clean_sheets: 0, goals_conceded: 0, own_goals: 0,
+  penalties_saved: 0, penalties_missed: 0, yellow_cards: 0, red_cards: 0, saves: 0,
+  bonus: 0, bps: 0, influence: '0.0', creativity: '0.0', threat: '0.0', ict_index: '0.0',
+  expected_goals: '0.00', expected_assists: '0.00', expected_goal_involvements: '0.00',
+  expected_goals_conceded: '0.00',
+};
+
+/**
+ * Small deterministic PRNG (mulberry32) so generated data is stable across runs.
+ */
+export function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pickOne(random, values) {
+  return values[Math.floor(random() * values.length)];
+}
+
+/**
+ * Double round robin (circle method): 38 gameweeks of 10 fixtures.
+ */
+function buildSchedule(teamIds) {
+  const rotation = [...teamIds];
+  const rounds = [];
+  for (let round = 0; round < rotation.length - 1; round++) {
+    const pairs = [];
+    for (let i = 0; i < rotation.length / 2; i++) {
+      const a = rotation[i];
+      const b = rotation[rotation.length - 1 - i];
+      pairs.push(round % 2 === 0 ? [a, b] : [b, a]);
+    }
+    rounds.push(pairs);
+    rotation.splice(1, 0, rotation.pop());
+  }
+  return [...rounds, ...rounds.map(pairs => pairs.map(([h, a]) => [a, h]))];
+}
+
+// Points a player scored in a finished gameweek — only used for the synthetic history
+function pastGameweekPoints(random, starter) {
+  if (!starter) return { minutes: random() < 0.3 ? 15 : 0, points: random() < 0.3 ? 1 : 0 };
+  return { minutes: 90, points: pickOne(random, [1, 2, 2, 2, 2, 3, 3, 5, 6, 8, 10]) };
+}
+
+function generateSeason(currentGameweek) {
+  const random = createRandom(2024);
+  // Anchor the calendar so the current gameweek is this week
+  const week = 7 * 24 * 60 * 60 * 1000;
+  const seasonStart = Math.floor((Date.now() - (currentGameweek - 1) * week) / 3_600_000) * 3_600_000;
+
+  const teams = TEAMS.map(([name, shortName, code], idx) => ({
+    id: idx + 1,
+    code,
+    name,
+    short_name: shortName,
+    strength: 2 + Math.floor(random() * 4),
+  }));
+
+  const elements = [];
+  const starters = new Set();
+  for (const team of teams) {
+    for (const [elementType, count] of SQUAD_SHAPE) {
+      for (let n = 1; n <= count; n++) {
+        const id = elements.length + 1;
+        const starter = n <= (elementType === 1 ? 1 : elementType === 4 ? 2 : 4);
+        const basePrice = { 1: 45, 2: 45, 3: 55, 4: 60 }[elementType];
+        if (starter) starters.add(id);
+        elements.push({
+          id,
+          code: 100000 + id,
+          team: team.id,
+          team_code: team.code,
+          element_type: elementType,
+          first_name: team.name,
+          second_name: `${POSITIONS[elementType]} ${n}`,
+          web_name: `${team.short_name} ${POSITIONS[elementType]}${n}`,
+          now_cost: basePrice + (starter ? Math.floor(random() * 6) * 5 : 0),
+          cost_change_start: 0,
+          cost_change_event: 0,
+          selected_by_percent: (random() * (starter ? 30 : 3)).toFixed(1),
+          status: 'a',
+          news: '',
+          chance_of_playing_next_round: null,
+          transfers_in_event: Math.floor(random() * 50000),
+          transfers_out_event: Math.floor(random() * 50000),
+          photo: '',
+          ...EMPTY_SEASON_STATS,
+        });
+      }
+    }
+  }
+
+  const schedule = buildSchedule(teams.map(t => t.id));
+  const fixtures = [];
+  schedule.forEach((pairs, roundIdx) => {
+    const gameweek = roundIdx + 1;
+    pairs.forEach(([teamH, teamA], i) => {
+      const finished = gameweek < currentGameweek;
+      const kickoff = new Date(seasonStart + roundIdx * week + Math.floor(i / 4) * 3 * 60 * 60 * 1000);
+      fixtures.push({
+        id: roundIdx * 10 + i + 1,
+        code: 2444470 + roundIdx * 10 + i,
+        event: gameweek,
+        team_h: teamH,
+        team_a: teamA,
+        team_h_difficulty: teams[teamA - 1].strength,
+        team_a_difficulty: teams[teamH - 1].strength,
+        team_h_score: finished ? Math.floor(random() * 4) : null,
+        team_a_score: finished ? Math.floor(random() * 3) : null,
+        kickoff_time: kickoff.toISOString(),
+        started: finished,
+        finished,
+        finished_provisional: finished,
+        minutes: finished ? 90 : 0,
+        stats: [],
+      });
+    });
+  });
+
+  // Per-gameweek history for every finished gameweek
+  const history = new Map();
+  for (const element of elements) {
+    const rows = [];
+    for (let gameweek = 1; gameweek < currentGameweek; gameweek++) {
+      const fixture = fixtures.find(f => f.event === gameweek && (f.team_h === element.team || f.team_a === element.team));
+      const { minutes, points } = pastGameweekPoints(random, starters.has(element.id));
+      rows.push({
+        element: element.id,
+        fixture: fixture.id,
+        opponent_team: fixture.team_h === element.team ? fixture.team_a : fixture.team_h,
+        round: gameweek,
+        was_home: fixture.team_h === element.team,
+        kickoff_time: fixture.kickoff_time,
+        total_points: points,
+        minutes,
+        value: element.now_cost,
+        team_h_score: fixture.team_h_score,
+        team_a_score: fixture.team_a_score,
+      });
+    }
+    history.set(element.id, rows);
+
+    const played = rows.filter(r => r.minutes > 0);
+    const recent = rows.slice(-4);
+    element.total_points = rows.reduce((sum, r) => sum + r.total_points, 0);
+    element.minutes = rows.reduce((sum, r) => sum + r.minutes, 0);
+    element.form = recent.length ? (recent.reduce((sum, r) => sum + r.total_points, 0) / recent.length).toFixed(1) : '0.0';
+    element.points_per_game = played.length ? (element.total_points / played.length).toFixed(1) : '0.0';
+  }
+
+  const events = Array.from({ length: 38 }, (_, idx) => {
+    const gameweek = idx + 1;
+    const firstKickoff = fixtures.find(f => f.event === gameweek).kickoff_time;
+    return {
+      id: gameweek,
+      name: `Gameweek ${gameweek}`,
+      deadline_time: new Date(Date.parse(firstKickoff) - 90 * 60 * 1000).toISOString(),
+      finished: gameweek < currentGameweek,
+      data_checked: gameweek < currentGameweek,
+      is_previous: gameweek === currentGameweek - 1,
+      is_current: gameweek === currentGameweek,
+      is_next: gameweek === currentGameweek + 1,
+      average_entry_score: gameweek < currentGameweek ? 40 + Math.floor(random() * 25) : 0,
+      highest_score: gameweek < currentGameweek ? 100 + Math.floor(random() * 40) : null,
+      chip_plays: [],
+    };
+  });
+
+  return {
+    bootstrap: {
+      events,
+      teams,
+      elements,
+      element_types: [
+        { id: 1, singular_name: 'Goalkeeper', singular_name_short: 'GKP', squad_select: 2, squad_min_play: 1, squad_max_play: 1 },
+        { id: 2, singular_name: 'Defender', singular_name_short: 'DEF', squad_select: 5, squad_min_play: 3, squad_max_play: 5 },
+        { id: 3, singular_name: 'Midfielder', singular_name_short: 'MID', squad_select: 5, squad_min_play: 2, squad_max_play: 5 },
+        { id: 4, singular_name: 'Forward', singular_name_short: 'FWD', squad_select: 3, squad_min_play: 1, squad_max_play: 3 },
+      ],
+      total_players: 10_000_000,
+    },
+    fixtures,
+    history,
+    starters,
+  };
+}
+
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Recording file for an API path, e.g. `entry/123/event/10/picks/` → `<dir>/entry/123/event/10/picks.json`.
+ */
+export function recordingFile(dir, apiPath) {
+  return path.join(dir, `${apiPath.replace(/^\/+|\/+$/g, '')}.json`);
+}
+
+/**
+ * Load the static dataset. With a recording directory the recorded bootstrap and
+ * fixtures are used; anything else falls back to the synthetic season.
+ */
+export function loadDataset({ recordingDir = null, gameweek = 10 } = {}) {
+  if (!recordingDir) {
+    return { ...generateSeason(gameweek), gameweek, recordingDir: null };
+  }
+
+  const bootstrap = readJson(recordingFile(recordingDir, 'bootstrap-static'));
+  const fixtures = readJson(recordingFile(recordingDir, 'fixtures'));
+  const current = bootstrap.events.find(e => e.is_current) ?? bootstrap.events[0];
+
+  // Recorded squads have no lineup data — treat the most-played players per position as starters
+  const starters = new Set();
+  for (const team of bootstrap.teams) {
+    for (const [elementType, count] of [[1, 1], [2, 4], [3, 4], [4, 2]]) {
+      bootstrap.elements
+        .filter(e => e.team === team.id && e.element_type === elementType)
+        .sort((a, b) => b.minutes - a.minutes)
+        .slice(0, count)
+        .forEach(e => starters.add(e.id));
+    }
+  }
+
+  return { bootstrap, fixtures, history: new Map(), starters, recordingDir, gameweek: current.id };
+}
+
+/**
+ * Serve a recorded payload for an API path, if the recording has one.
+ */
+export function readRecorded(dataset, apiPath) {
+  if (!dataset.recordingDir) return null;
+  const file = recordingFile(dataset.recordingDir, apiPath);
+  return fs.existsSync(file) ? readJson(file) : null;
+}
+
+// ---- Managers and leagues ----
+
+/**
+ * A valid 15-man squad for any entry id: 2/5/5/3, at most three per club,
+ * starting XI in a 1-4-4-2 with the captain and vice among the outfielders.
+ */
+export function generatePicks(dataset, entryId) {
+  const random = createRandom(entryId * 7919);
+  const perTeam = new Map();
+  const chosen = [];
+
+  for (const [elementType, count] of SQUAD_SHAPE) {
+    const pool = dataset.bootstrap.elements
+      .filter(e => e.element_type === elementType)
+      .map(e => ({ e, starter: dataset.starters.has(e.id), order: random() }))
+      .sort((a, b) => Number(b.starter) - Number(a.starter) || a.order - b.order);
+    const picked = [];
+    for (const { e: element, starter } of pool) {
+      if (picked.length === count) break;
+      if ((perTeam.get(element.team) ?? 0) >= 3) continue;
+      // Mostly starters; the last slot per position is often a cheap bench option
+      if (starter && picked.length === count - 1 && random() < 0.5) continue;
+      picked.push(element);
+      perTeam.set(element.team, (perTeam.get(element.team) ?? 0) + 1);
+    }
+    chosen.push(picked);
+  }
+
+  const [gks, defs, mids, fwds] = chosen;
+  const order = [gks[0], ...defs.slice(0, 4), ...mids.slice(0, 4), ...fwds.slice(0, 2), gks[1], defs[4], mids[4], fwds[2]];
+  const captainIdx = 5 + Math.floor(random() * 6);
+  const viceIdx = captainIdx === 10 ? 9 : captainIdx + 1;
+
+  return order.map((element, idx) => ({
+    element: element.id,
+    position: idx + 1,
+    multiplier: idx === captainIdx ? 2 : idx < 11 ? 1 : 0,
+    is_captain: idx === captainIdx,
+    is_vice_captain: idx === viceIdx,
+  }));
+}
+
+/**
+ * Season-so-far history for an entry, one row per finished gameweek.
+ */
+export function generateEntryHistory(dataset, entryId, currentGameweek) {
+  const random = createRandom(entryId * 104729);
+  const rows = [];
+  let total = 0;
+  let rank = 2_000_000 + Math.floor(random() * 6_000_000);
+
+  for (let gameweek = 1; gameweek < currentGameweek; gameweek++) {
+    const points = 30 + Math.floor(random() * 55);
+    total += points;
+    rank = Math.max(1, Math.round(rank * (0.75 + random() * 0.5)));
+    rows.push({
+      event: gameweek,
+      points,
+      total_points: total,
+      rank: 1 + Math.floor(random() * 9_000_000),
+      overall_rank: rank,
+      rank_sort: rank,
+      bank: Math.floor(random() * 30),
+      value: 1000 + gameweek * 2,
+      event_transfers: gameweek === 1 ? 0 : Math.floor(random() * 2),
+      event_transfers_cost: random() < 0.1 ? 4 : 0,
+      points_on_bench: Math.floor(random() * 12),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Members of a mock classic league: the league id doubles as its owner's entry id,
+ * so a manager always finds themselves in "their" league.
+ */
+export function leagueMembers(leagueId) {
+  const members = [leagueId];
+  for (let i = 1; members.length < 20; i++) {
+    const id = ((leagueId * 31 + i * 7907) % 8_999_999) + 1;
+    if (!members.includes(id)) members.push(id);
+  }
+  return members;
+}
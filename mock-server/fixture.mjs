@@ -0,0 +1,59 @@
+// Trim a real FPL recording into a scoring test fixture
+// Takes a recording made with record.mjs and keeps the chosen fixtures, the
+// players who appear in them and their event/{gw}/live elements, in the shape
+// src/app/utils/fplScoring.test.ts loads. Files are named fpl-<name>.json so
+// the suite checks them against FPL's own explain lines, totals and bonus.
+//
+// Usage:
+//   npm run mock-api:fixture -- --recording mock-server/recordings/gw10 --fixtures 91,95 --name gw10
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import { recordingFile } from './dataset.mjs';
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(HERE, '..', 'src', 'app', 'utils', '__fixtures__');
+
+const { values: args } = parseArgs({
+  options: {
+    recording: { type: 'string' },
+    fixtures: { type: 'string' },
+    name: { type: 'string' },
+  },
+});
+
+if (!args.recording || !args.fixtures || !args.name) {
+  console.error('Usage: npm run mock-api:fixture -- --recording <dir> --fixtures <id,id> --name <name>');
+  process.exit(1);
+}
+
+const dir = path.resolve(args.recording);
+const read = apiPath => JSON.parse(fs.readFileSync(recordingFile(dir, apiPath), 'utf8'));
+
+const fixtureIds = new Set(args.fixtures.split(',').map(Number));
+const fixtures = read('fixtures/').filter(f => fixtureIds.has(f.id));
+if (fixtures.length !== fixtureIds.size) throw new Error(`Fixtures ${args.fixtures} aren't all in ${dir}`);
+
+const gameweeks = new Set(fixtures.map(f => f.event));
+if (gameweeks.size !== 1) throw new Error('Pick fixtures from a single gameweek');
+const [gameweek] = gameweeks;
+
+const livePath = `event/${gameweek}/live/`;
+const elements = read(livePath).elements.filter(e => e.explain.some(x => fixtureIds.has(x.fixture)));
+const elementIds = new Set(elements.map(e => e.id));
+const players = read('bootstrap-static/').elements
+  .filter(p => elementIds.has(p.id))
+  .map(({ id, web_name, element_type, team }) => ({ id, web_name, element_type, team }));
+
+const recordedOn = fs.statSync(recordingFile(dir, livePath)).mtime.toISOString().slice(0, 10);
+const file = path.join(FIXTURES_DIR, `fpl-${args.name}.json`);
+fs.writeFileSync(file, `${JSON.stringify({
+  source: `FPL API ${livePath}, recorded ${recordedOn} (npm run mock-api:record), fixtures ${[...fixtureIds].join(', ')}`,
+  players,
+  fixtures,
+  elements,
+}, null, 2)}\n`);
+
+console.log(`[fixture] ${elements.length} players from ${fixtures.length} fixtures → ${path.relative(process.cwd(), file)}`);
@@ -0,0 +1,59 @@
+// Record real FPL API payloads for the mock server
+// Saves bootstrap, fixtures and (optionally) a manager's entry, history, picks and
+// league standings, plus the gameweek's live data, into a recording directory that
+// `npm run mock-api -- --recording <dir>` serves back.
+//
+// Usage:
+//   npm run mock-api:record -- --name gw10 [--entry 123456] [--league 314] [--gw 10]
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import { recordingFile } from './dataset.mjs';
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const FPL_BASE = 'https://fantasy.premierleague.com/api';
+
+const { values: args } = parseArgs({
+  options: {
+    name: { type: 'string', default: 'latest' },
+    entry: { type: 'string' },
+    league: { type: 'string' },
+    gw: { type: 'string' },
+  },
+});
+
+const dir = path.join(HERE, 'recordings', args.name);
+
+async function record(apiPath) {
+  const response = await fetch(`${FPL_BASE}/${apiPath}`, {
+    headers: { Accept: 'application/json', 'User-Agent': 'FPL-Analytics-Mock-Recorder/1.0' },
+  });
+  if (!response.ok) throw new Error(`${apiPath} → HTTP ${response.status}`);
+
+  const data = await response.json();
+  const file = recordingFile(dir, apiPath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data));
+  console.log(`[record] ${apiPath} → ${path.relative(process.cwd(), file)}`);
+  return data;
+}
+
+const bootstrap = await record('bootstrap-static/');
+await record('fixtures/');
+
+const gameweek = Number(args.gw ?? bootstrap.events.find(e => e.is_current)?.id ?? 1);
+await record(`event/${gameweek}/live/`);
+
+if (args.entry) {
+  await record(`entry/${args.entry}/`);
+  await record(`entry/${args.entry}/history/`);
+  await record(`entry/${args.entry}/event/${gameweek}/picks/`);
+}
+
+if (args.league) {
+  await record(`leagues-classic/${args.league}/standings/`);
+}
+
+console.log(`[record] done — serve it with: npm run mock-api -- --recording ${path.relative(process.cwd(), dir)}`);
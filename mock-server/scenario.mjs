@@ -0,0 +1,383 @@
+// Scripted live gameweek
+// Replays a scenario file against the dataset's current gameweek on a simulated
+// clock. Every request recomputes the fixtures and live payloads from the events
+// that have "happened" so far, so the clock can be moved freely in either direction.
+//
+// Scenario format (see scenarios/*.json):
+//   kickoffs    { default: 0, MCI: 150 } — simulated minutes after the start, keyed by either team
+//   bonusDelay  minutes after full time before bonus is confirmed (default 30)
+//   starting / benched  player overrides for the default XIs
+//   events      [{ minute, type, player, ... }] — minute is the match minute of the player's fixture
+// Event types: goal (+assist), own_goal, yellow, red, saves (+count), penalty_save,
+// penalty_miss, defensive (+cbi, tackles, recoveries), sub (+replacement), bps (+value)
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { calculateBps, explainPoints, awardBonus, defensiveContribution } from './scoring.mjs';
+import { createRandom } from './dataset.mjs';
+
+const HALF_TIME_BREAK = 15;
+const STOPPAGE = 2;
+const FULL_TIME = 90 + HALF_TIME_BREAK + STOPPAGE;
+const MS_PER_MINUTE = 60_000;
+
+const EVENT_TYPES = ['goal', 'own_goal', 'yellow', 'red', 'saves', 'penalty_save', 'penalty_miss', 'defensive', 'sub', 'bps'];
+
+/**
+ * Load and validate a scenario file by name from a directory.
+ */
+export function loadScenario(dir, name) {
+  const file = path.join(dir, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Unknown scenario "${name}" — expected ${file}`);
+  }
+  const scenario = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return { name, kickoffs: {}, bonusDelay: 30, starting: [], benched: [], events: [], ...scenario };
+}
+
+/**
+ * Scenario names available in a directory.
+ */
+export function listScenarios(dir) {
+  return fs.readdirSync(dir).filter(f => f.endsWith('.json')).map(f => f.replace(/\.json$/, '')).sort();
+}
+
+// Match minute for simulated minutes since kickoff, pausing for half time
+function matchMinute(elapsed) {
+  if (elapsed < 0) return null;
+  if (elapsed <= 45) return Math.floor(elapsed);
+  if (elapsed < 45 + HALF_TIME_BREAK) return 45;
+  return Math.min(90, Math.floor(elapsed - HALF_TIME_BREAK));
+}
+
+function emptyStats() {
+  return {
+    minutes: 0, goals_scored: 0, assists: 0, clean_sheets: 0, goals_conceded: 0, own_goals: 0,
+    penalties_saved: 0, penalties_missed: 0, yellow_cards: 0, red_cards: 0, saves: 0, bonus: 0, bps: 0,
+    clearances_blocks_interceptions: 0, recoveries: 0, tackles: 0, defensive_contribution: 0, bps_adjust: 0,
+  };
+}
+
+/**
+ * Create the engine for one scenario. `speed` is simulated minutes per real minute.
+ */
+export function createScenarioEngine(dataset, scenario, { speed = 10, startMinute = -10 } = {}) {
+  const { bootstrap } = dataset;
+  const gameweek = scenario.gameweek ?? dataset.gameweek;
+  const elementsById = new Map(bootstrap.elements.map(e => [e.id, e]));
+  const teamsById = new Map(bootstrap.teams.map(t => [t.id, t]));
+  const byName = new Map(bootstrap.elements.map(e => [e.web_name.toLowerCase(), e]));
+
+  const resolve = (ref) => {
+    const element = typeof ref === 'number' ? elementsById.get(ref) : byName.get(String(ref).toLowerCase());
+    if (!element) throw new Error(`Scenario ${scenario.name}: unknown player "${ref}"`);
+    return element;
+  };
+
+  const gwFixtures = dataset.fixtures.filter(f => f.event === gameweek);
+  const fixtureForTeam = new Map();
+  for (const fixture of gwFixtures) {
+    fixtureForTeam.set(fixture.team_h, fixture);
+    fixtureForTeam.set(fixture.team_a, fixture);
+  }
+
+  const kickoffOffset = (fixture) => {
+    const home = teamsById.get(fixture.team_h).short_name;
+    const away = teamsById.get(fixture.team_a).short_name;
+    return scenario.kickoffs[home] ?? scenario.kickoffs[away] ?? scenario.kickoffs.default ?? 0;
+  };
+
+  // Resolve every event up front so a typo fails at load, not mid-session
+  const events = scenario.events.map((event, idx) => {
+    if (!EVENT_TYPES.includes(event.type)) {
+      throw new Error(`Scenario ${scenario.name}: event ${idx} has unknown type "${event.type}"`);
+    }
+    const element = resolve(event.player);
+    const fixture = fixtureForTeam.get(element.team);
+    if (!fixture) throw new Error(`Scenario ${scenario.name}: ${element.web_name} has no fixture in GW${gameweek}`);
+    return {
+      ...event,
+      element,
+      fixture,
+      assist: event.assist !== undefined ? resolve(event.assist) : null,
+      replacement: event.replacement !== undefined ? resolve(event.replacement) : null,
+    };
+  }).sort((a, b) => a.minute - b.minute);
+
+  // Players the script names get exactly the scripted BPS; everyone else gets a little
+  // seeded background BPS so quiet games still have a clear bonus order
+  const scripted = new Set(events.flatMap(e => [e.element.id, e.assist?.id, e.replacement?.id]).filter(id => id !== undefined));
+  const backgroundBps = (id) => scripted.has(id) ? 0 : Math.floor(createRandom(id * 31 + gameweek)() * 10);
+
+  const starters = new Set(dataset.starters);
+  scenario.benched.forEach(ref => starters.delete(resolve(ref).id));
+  scenario.starting.forEach(ref => starters.add(resolve(ref).id));
+
+  // ---- Clock ----
+  const clock = { anchorWall: Date.now(), anchorMinute: startMinute, speed, paused: false };
+
+  const minuteAt = (now) => clock.paused
+    ? clock.anchorMinute
+    : clock.anchorMinute + ((now - clock.anchorWall) / MS_PER_MINUTE) * clock.speed;
+
+  const reanchor = (now, minute) => {
+    clock.anchorWall = now;
+    clock.anchorMinute = minute;
+  };
+
+  // Wall-clock time at which the simulation reaches a minute, at the current speed
+  const wallTimeFor = (now, minute) => new Date(now + ((minute - minuteAt(now)) / clock.speed) * MS_PER_MINUTE);
+
+  // ---- Simulation ----
+  function simulate(now) {
+    const simMinute = minuteAt(now);
+    const fixtureState = new Map();
+
+    for (const fixture of gwFixtures) {
+      const elapsed = simMinute - kickoffOffset(fixture);
+      fixtureState.set(fixture.id, {
+        elapsed,
+        minute: matchMinute(elapsed),
+        finishedProvisional: elapsed >= FULL_TIME,
+        finished: elapsed >= FULL_TIME + scenario.bonusDelay,
+        score: { [fixture.team_h]: 0, [fixture.team_a]: 0 },
+      });
+    }
+
+    const happened = events.filter(e => {
+      const state = fixtureState.get(e.fixture.id);
+      return state.minute !== null && e.minute <= state.minute;
+    });
+
+    // On-pitch intervals: starters from 0, subs from their minute, off at sub/red card
+    const onPitch = new Map();
+    for (const fixture of gwFixtures) {
+      for (const element of bootstrap.elements) {
+        if ((element.team === fixture.team_h || element.team === fixture.team_a) && starters.has(element.id)) {
+          onPitch.set(element.id, { on: 0, off: 90 });
+        }
+      }
+    }
+    for (const event of happened) {
+      if (event.type === 'sub') {
+        const leaving = onPitch.get(event.element.id);
+        if (leaving) leaving.off = Math.min(leaving.off, event.minute);
+        onPitch.set(event.replacement.id, { on: event.minute, off: 90 });
+      } else if (event.type === 'red') {
+        const sentOff = onPitch.get(event.element.id);
+        if (sentOff) sentOff.off = Math.min(sentOff.off, event.minute);
+      }
+    }
+
+    // Goals against each team, with the minute, for goals conceded/clean sheets
+    const goalsAgainst = new Map();
+    const addGoalAgainst = (teamId, minute) => {
+      goalsAgainst.set(teamId, [...(goalsAgainst.get(teamId) ?? []), minute]);
+    };
+
+    const stats = new Map();
+    const statsFor = (id) => {
+      if (!stats.has(id)) stats.set(id, emptyStats());
+      return stats.get(id);
+    };
+
+    for (const event of happened) {
+      const s = statsFor(event.element.id);
+      const fixture = event.fixture;
+      const opponent = fixture.team_h === event.element.team ? fixture.team_a : fixture.team_h;
+      const score = fixtureState.get(fixture.id).score;
+
+      switch (event.type) {
+        case 'goal':
+          s.goals_scored++;
+          score[event.element.team]++;
+          addGoalAgainst(opponent, event.minute);
+          if (event.assist) statsFor(event.assist.id).assists++;
+          break;
+        case 'own_goal':
+          s.own_goals++;
+          score[opponent]++;
+          addGoalAgainst(event.element.team, event.minute);
+          break;
+        case 'yellow':
+          s.yellow_cards++;
+          break;
+        case 'red':
+          s.red_cards++;
+          break;
+        case 'saves':
+          s.saves += event.count ?? 1;
+          break;
+        case 'penalty_save':
+          s.penalties_saved++;
+          s.saves++;
+          break;
+        case 'penalty_miss':
+          s.penalties_missed++;
+          break;
+        case 'defensive':
+          s.clearances_blocks_interceptions += event.cbi ?? 0;
+          s.tackles += event.tackles ?? 0;
+          s.recoveries += event.recoveries ?? 0;
+          break;
+        case 'bps':
+          s.bps_adjust += event.value ?? 0;
+          break;
+        case 'sub':
+          break;
+      }
+    }
+
+    // Minutes, goals conceded, clean sheets, BPS and points for everyone who played
+    const perFixture = new Map(gwFixtures.map(f => [f.id, []]));
+    for (const [id, interval] of onPitch) {
+      const element = elementsById.get(id);
+      const fixture = fixtureForTeam.get(element.team);
+      const state = fixtureState.get(fixture.id);
+      if (state.minute === null || state.minute < interval.on) continue;
+
+      const s = statsFor(id);
+      const until = Math.min(state.minute, interval.off);
+      s.minutes = Math.max(1, until - interval.on);
+      s.goals_conceded = (goalsAgainst.get(element.team) ?? []).filter(m => m > interval.on && m <= until).length;
+      s.clean_sheets = s.minutes >= 60 && s.goals_conceded === 0 ? 1 : 0;
+      s.defensive_contribution = defensiveContribution(element.element_type, s);
+      s.bps = calculateBps(element.element_type, s) + backgroundBps(id);
+      perFixture.get(fixture.id).push(id);
+    }
+
+    // Bonus only shows once the fixture is confirmed, like the real API
+    for (const fixture of gwFixtures) {
+      if (!fixtureState.get(fixture.id).finished) continue;
+      const ids = perFixture.get(fixture.id);
+      const bonus = awardBonus(new Map(ids.map(id => [id, stats.get(id).bps])));
+      for (const [id, points] of bonus) stats.get(id).bonus = points;
+    }
+
+    return { simMinute, fixtureState, stats, perFixture };
+  }
+
+  function liveElement(element, s, fixtureId) {
+    const explain = explainPoints(element.element_type, s);
+    const { bps_adjust: _bpsAdjust, ...liveStats } = s;
+    return {
+      id: element.id,
+      stats: {
+        ...liveStats,
+        starts: s.minutes > 0 ? 1 : 0,
+        total_points: explain.reduce((sum, line) => sum + line.points, 0),
+        influence: '0.0',
+        creativity: '0.0',
+        threat: '0.0',
+        ict_index: '0.0',
+        in_dreamteam: false,
+      },
+      explain: fixtureId !== null && explain.length > 0 ? [{ fixture: fixtureId, stats: explain }] : [],
+    };
+  }
+
+  return {
+    name: scenario.name,
+    description: scenario.description ?? '',
+    gameweek,
+
+    minute: (now = Date.now()) => minuteAt(now),
+
+    setMinute(minute, now = Date.now()) {
+      reanchor(now, minute);
+    },
+
+    setSpeed(value, now = Date.now()) {
+      reanchor(now, minuteAt(now));
+      clock.speed = Math.max(0.1, value);
+    },
+
+    setPaused(paused, now = Date.now()) {
+      reanchor(now, minuteAt(now));
+      clock.paused = paused;
+    },
+
+    /**
+     * The full fixture list with the scenario gameweek replaced by its simulated state.
+     */
+    fixtures(now = Date.now()) {
+      const { fixtureState, stats, perFixture } = simulate(now);
+      return dataset.fixtures.map(fixture => {
+        const state = fixtureState.get(fixture.id);
+        if (!state) return fixture;
+
+        const started = state.minute !== null;
+        const ids = perFixture.get(fixture.id);
+        const side = (id) => elementsById.get(id).team === fixture.team_h ? 'h' : 'a';
+        const statArrays = ['goals_scored', 'assists', 'own_goals', 'penalties_saved', 'penalties_missed',
+          'yellow_cards', 'red_cards', 'saves', 'bonus', 'bps', 'defensive_contribution']
+          .map(identifier => {
+            const entries = ids
+              .map(id => ({ element: id, value: stats.get(id)[identifier] }))
+              .filter(entry => entry.value !== 0 || identifier === 'bps')
+              .sort((a, b) => b.value - a.value);
+            return {
+              identifier,
+              h: entries.filter(e => side(e.element) === 'h'),
+              a: entries.filter(e => side(e.element) === 'a'),
+            };
+          });
+
+        return {
+          ...fixture,
+          kickoff_time: wallTimeFor(now, kickoffOffset(fixture)).toISOString(),
+          started,
+          finished_provisional: state.finishedProvisional,
+          finished: state.finished,
+          minutes: state.minute ?? 0,
+          team_h_score: started ? state.score[fixture.team_h] : null,
+          team_a_score: started ? state.score[fixture.team_a] : null,
+          stats: started ? statArrays : [],
+        };
+      });
+    },
+
+    /**
+     * event/{gw}/live/ payload for the scenario gameweek.
+     */
+    live(now = Date.now()) {
+      const { stats } = simulate(now);
+      return {
+        elements: bootstrap.elements.map(element => {
+          const fixture = fixtureForTeam.get(element.team);
+          return liveElement(element, stats.get(element.id) ?? emptyStats(), fixture?.id ?? null);
+        }),
+      };
+    },
+
+    /**
+     * Deadline for the scenario gameweek: 90 simulated minutes before the first kickoff.
+     */
+    deadline(now = Date.now()) {
+      const first = Math.min(...gwFixtures.map(kickoffOffset));
+      return wallTimeFor(now, first - 90).toISOString();
+    },
+
+    status(now = Date.now()) {
+      const { simMinute, fixtureState } = simulate(now);
+      return {
+        scenario: scenario.name,
+        description: scenario.description ?? '',
+        gameweek,
+        minute: Math.round(simMinute * 10) / 10,
+        speed: clock.speed,
+        paused: clock.paused,
+        fixtures: gwFixtures.map(fixture => {
+          const state = fixtureState.get(fixture.id);
+          return {
+            id: fixture.id,
+            match: `${teamsById.get(fixture.team_h).short_name} ${state.score[fixture.team_h]}-${state.score[fixture.team_a]} ${teamsById.get(fixture.team_a).short_name}`,
+            minute: state.minute,
+            finished_provisional: state.finishedProvisional,
+            finished: state.finished,
+          };
+        }),
+      };
+    },
+  };
+}
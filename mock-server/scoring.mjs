@@ -0,0 +1,83 @@
+// Mock FPL scoring
+// Points, BPS and bonus for the simulated live data. Kept deliberately small —
+// it only needs to produce believable payloads, the app does its own maths.
+
+const GOAL_POINTS = { 1: 10, 2: 6, 3: 5, 4: 4 };
+const CLEAN_SHEET_POINTS = { 1: 4, 2: 4, 3: 1, 4: 0 };
+const GOAL_BPS = { 1: 12, 2: 12, 3: 18, 4: 24 };
+
+// Defensive contribution: defenders count CBIT, everyone else CBIRT
+const DEFCON_THRESHOLD = { 1: null, 2: 10, 3: 12, 4: 12 };
+const DEFCON_POINTS = 2;
+
+/**
+ * Defensive contribution total for a position.
+ */
+export function defensiveContribution(elementType, stats) {
+  const cbit = stats.clearances_blocks_interceptions + stats.tackles;
+  return elementType === 2 ? cbit : cbit + stats.recoveries;
+}
+
+/**
+ * Points per scoring line for one player in one fixture, as FPL's `explain` lists them.
+ */
+export function explainPoints(elementType, stats) {
+  const isGkOrDef = elementType === 1 || elementType === 2;
+  const threshold = DEFCON_THRESHOLD[elementType];
+  const lines = [
+    ['minutes', stats.minutes, stats.minutes >= 60 ? 2 : stats.minutes > 0 ? 1 : 0],
+    ['goals_scored', stats.goals_scored, stats.goals_scored * GOAL_POINTS[elementType]],
+    ['assists', stats.assists, stats.assists * 3],
+    ['clean_sheets', stats.clean_sheets, stats.clean_sheets * CLEAN_SHEET_POINTS[elementType]],
+    ['goals_conceded', stats.goals_conceded, isGkOrDef ? -Math.floor(stats.goals_conceded / 2) : 0],
+    ['saves', stats.saves, Math.floor(stats.saves / 3)],
+    ['penalties_saved', stats.penalties_saved, stats.penalties_saved * 5],
+    ['penalties_missed', stats.penalties_missed, stats.penalties_missed * -2],
+    ['yellow_cards', stats.yellow_cards, -stats.yellow_cards],
+    ['red_cards', stats.red_cards, stats.red_cards * -3],
+    ['own_goals', stats.own_goals, stats.own_goals * -2],
+    ['defensive_contribution', stats.defensive_contribution,
+      threshold !== null && stats.defensive_contribution >= threshold ? DEFCON_POINTS : 0],
+    ['bonus', stats.bonus, stats.bonus],
+  ];
+
+  return lines
+    .filter(([, value]) => value !== 0)
+    .map(([identifier, value, points]) => ({ identifier, value, points }));
+}
+
+/**
+ * Bonus points system score, including any scripted adjustments in `stats.bps_adjust`.
+ */
+export function calculateBps(elementType, stats) {
+  const isGkOrDef = elementType === 1 || elementType === 2;
+  let bps = stats.minutes >= 60 ? 6 : stats.minutes > 0 ? 3 : 0;
+  bps += stats.goals_scored * GOAL_BPS[elementType];
+  bps += stats.assists * 9;
+  if (isGkOrDef) bps += stats.clean_sheets * 12 - stats.goals_conceded * 4;
+  bps += stats.saves * 2;
+  bps += stats.penalties_saved * 15;
+  bps -= stats.penalties_missed * 6;
+  bps -= stats.yellow_cards * 3;
+  bps -= stats.red_cards * 9;
+  bps -= stats.own_goals * 6;
+  bps += Math.floor(stats.clearances_blocks_interceptions / 2);
+  bps += stats.tackles * 2;
+  bps += Math.floor(stats.recoveries / 3);
+  return bps + stats.bps_adjust;
+}
+
+/**
+ * 3/2/1 bonus for one fixture. Ties share the higher award and push the next
+ * player down, e.g. two players tied top get 3 each and the next gets 1.
+ */
+export function awardBonus(bpsByElement) {
+  const ranked = [...bpsByElement.entries()].sort((a, b) => b[1] - a[1]);
+  const bonus = new Map();
+  for (const [element, bps] of ranked) {
+    const position = 1 + ranked.filter(([, other]) => other > bps).length;
+    if (position > 3) break;
+    bonus.set(element, 4 - position);
+  }
+  return bonus;
+}
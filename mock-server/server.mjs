@@ -0,0 +1,351 @@
+// Mock FPL API server
+// Stands in for fantasy.premierleague.com/api during development, so the live
+// pages can be built and checked on any day of the week. Serves the same paths as
+// the real API under /api/*, with the current gameweek driven by a scripted scenario.
+//
+// Usage:
+//   npm run mock-api -- [--port 3100] [--scenario super-sunday] [--speed 10] [--gw 10]
+//                       [--start -10] [--recording mock-server/recordings/<name>]
+//
+// Point the app at it:
+//   Vite:   FPL_API_TARGET=http://localhost:3100 npm run dev
+//   Worker: cd worker && npx wrangler dev --var FPL_API_BASE:http://localhost:3100/api
+//
+// Control the simulation (GET, so it works from a browser or curl):
+//   /__mock/                      status: scenario, simulated minute, scores
+//   /__mock/clock?minute=60       jump to a simulated minute (also speed=, paused=true|false)
+//   /__mock/scenario?name=...     switch scenario (restarts the clock)
+//   /__mock/scenarios             list available scenarios
+
+import http from 'node:http';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import {
+  loadDataset,
+  readRecorded,
+  generatePicks,
+  generateEntryHistory,
+  leagueMembers,
+} from './dataset.mjs';
+import { loadScenario, listScenarios, createScenarioEngine } from './scenario.mjs';
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const SCENARIO_DIR = path.join(HERE, 'scenarios');
+const STANDINGS_PAGE_SIZE = 50;
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '3100' },
+    scenario: { type: 'string', default: 'super-sunday' },
+    speed: { type: 'string', default: '10' },
+    gw: { type: 'string', default: '10' },
+    start: { type: 'string', default: '-10' },
+    recording: { type: 'string' },
+  },
+});
+
+const dataset = loadDataset({
+  recordingDir: args.recording ? path.resolve(args.recording) : null,
+  gameweek: Number(args.gw),
+});
+
+let engine = startScenario(args.scenario);
+
+function startScenario(name) {
+  const scenario = loadScenario(SCENARIO_DIR, name);
+  return createScenarioEngine(dataset, scenario, { speed: Number(args.speed), startMinute: Number(args.start) });
+}
+
+// ---- Payload builders ----
+
+function livePointsById(gameweek) {
+  const live = liveGameweek(gameweek);
+  return new Map(live.elements.map(e => [e.id, e.stats.total_points]));
+}
+
+function liveGameweek(gameweek) {
+  if (gameweek === engine.gameweek) return engine.live();
+
+  const recorded = readRecorded(dataset, `event/${gameweek}/live`);
+  if (recorded) return recorded;
+
+  // Finished synthetic gameweeks only know minutes and points
+  return {
+    elements: dataset.bootstrap.elements.map(element => {
+      const row = dataset.history.get(element.id)?.find(r => r.round === gameweek);
+      const minutes = row?.minutes ?? 0;
+      const minutePoints = minutes >= 60 ? 2 : minutes > 0 ? 1 : 0;
+      return {
+        id: element.id,
+        stats: {
+          minutes, goals_scored: 0, assists: 0, clean_sheets: 0, goals_conceded: 0, own_goals: 0,
+          penalties_saved: 0, penalties_missed: 0, yellow_cards: 0, red_cards: 0, saves: 0, bonus: 0,
+          bps: 0, influence: '0.0', creativity: '0.0', threat: '0.0', ict_index: '0.0',
+          total_points: row?.total_points ?? 0,
+        },
+        explain: row && minutes > 0
+          ? [{ fixture: row.fixture, stats: [{ identifier: 'minutes', value: minutes, points: minutePoints }] }]
+          : [],
+      };
+    }),
+  };
+}
+
+function picksFor(entryId, gameweek) {
+  return readRecorded(dataset, `entry/${entryId}/event/${gameweek}/picks`)?.picks ?? generatePicks(dataset, entryId);
+}
+
+function eventPoints(entryId, gameweek, pointsById) {
+  return picksFor(entryId, gameweek)
+    .reduce((sum, pick) => sum + (pointsById.get(pick.element) ?? 0) * pick.multiplier, 0);
+}
+
+function entryHistory(entryId, pointsById) {
+  const gameweek = engine.gameweek;
+  const rows = generateEntryHistory(dataset, entryId, gameweek);
+  const previous = rows[rows.length - 1];
+  const points = eventPoints(entryId, gameweek, pointsById);
+  const current = {
+    event: gameweek,
+    points,
+    total_points: (previous?.total_points ?? 0) + points,
+    rank: null,
+    overall_rank: previous?.overall_rank ?? null,
+    rank_sort: previous?.rank_sort ?? null,
+    bank: previous?.bank ?? 0,
+    value: previous?.value ?? 1000,
+    event_transfers: 0,
+    event_transfers_cost: 0,
+    points_on_bench: 0,
+  };
+  return { current: [...rows, current], past: [{ season_name: '2023/24', total_points: 2150, rank: 812345 }], chips: [] };
+}
+
+function leagueStandings(leagueId, page) {
+  const pointsById = livePointsById(engine.gameweek);
+  const rows = leagueMembers(leagueId).map(entryId => {
+    const history = entryHistory(entryId, pointsById).current;
+    const current = history[history.length - 1];
+    return {
+      entry: entryId,
+      entry_name: `Mock XI ${entryId}`,
+      player_name: `Manager ${entryId}`,
+      event_total: current.points,
+      total: current.total_points,
+      previousTotal: current.total_points - current.points,
+    };
+  });
+
+  const lastRanks = new Map([...rows].sort((a, b) => b.previousTotal - a.previousTotal).map((r, idx) => [r.entry, idx + 1]));
+  const ranked = rows
+    .sort((a, b) => b.total - a.total || a.entry - b.entry)
+    .map(({ previousTotal: _previousTotal, ...row }, idx) => ({
+      id: row.entry,
+      ...row,
+      rank: idx + 1,
+      last_rank: lastRanks.get(row.entry),
+      rank_sort: idx + 1,
+    }));
+
+  const start = (page - 1) * STANDINGS_PAGE_SIZE;
+  return {
+    league: { id: leagueId, name: `Mock League ${leagueId}`, created: '2024-07-01T00:00:00Z', league_type: 'x', start_event: 1 },
+    standings: {
+      has_next: start + STANDINGS_PAGE_SIZE < ranked.length,
+      page,
+      results: ranked.slice(start, start + STANDINGS_PAGE_SIZE),
+    },
+  };
+}
+
+function managerEntry(entryId) {
+  const pointsById = livePointsById(engine.gameweek);
+  const history = entryHistory(entryId, pointsById).current;
+  const current = history[history.length - 1];
+  const standings = leagueStandings(entryId, 1).standings.results;
+  const own = standings.find(r => r.entry === entryId);
+
+  return {
+    id: entryId,
+    joined_time: '2024-07-20T12:00:00Z',
+    started_event: 1,
+    favourite_team: 1,
+    player_first_name: 'Manager',
+    player_last_name: String(entryId),
+    player_region_name: 'England',
+    name: `Mock XI ${entryId}`,
+    summary_overall_points: current.total_points,
+    summary_overall_rank: current.overall_rank,
+    summary_event_points: current.points,
+    summary_event_rank: null,
+    current_event: engine.gameweek,
+    last_deadline_bank: current.bank,
+    last_deadline_value: current.value,
+    leagues: {
+      classic: [{
+        id: entryId,
+        name: `Mock League ${entryId}`,
+        short_name: null,
+        entry_rank: own?.rank ?? 1,
+        entry_last_rank: own?.last_rank ?? 1,
+        league_type: 'x',
+      }],
+    },
+  };
+}
+
+function elementSummary(elementId) {
+  const element = dataset.bootstrap.elements.find(e => e.id === elementId);
+  if (!element) return null;
+
+  const zeroStats = {
+    goals_scored: 0, assists: 0, clean_sheets: 0, goals_conceded: 0, bonus: 0, bps: 0, selected: 0,
+    expected_goals: '0.00', expected_assists: '0.00', expected_goal_involvements: '0.00', expected_goals_conceded: '0.00',
+  };
+
+  return {
+    fixtures: engine.fixtures()
+      .filter(f => !f.finished && (f.team_h === element.team || f.team_a === element.team))
+      .map(f => ({
+        id: f.id,
+        code: f.code,
+        event: f.event,
+        team_h: f.team_h,
+        team_a: f.team_a,
+        team_h_score: f.team_h_score,
+        team_a_score: f.team_a_score,
+        kickoff_time: f.kickoff_time,
+        finished: f.finished,
+        is_home: f.team_h === element.team,
+        difficulty: f.team_h === element.team ? f.team_h_difficulty : f.team_a_difficulty,
+      })),
+    history: (dataset.history.get(element.id) ?? []).map(row => ({ ...zeroStats, ...row })),
+    history_past: [],
+  };
+}
+
+function bootstrapStatic() {
+  const deadline = engine.deadline();
+  return {
+    ...dataset.bootstrap,
+    events: dataset.bootstrap.events.map(e => e.id === engine.gameweek ? { ...e, deadline_time: deadline } : e),
+  };
+}
+
+// ---- Routing ----
+
+const ROUTES = [
+  [/^bootstrap-static$/, () => bootstrapStatic()],
+  [/^event-status$/, () => ({
+    status: [{ bonus_added: false, date: new Date().toISOString().slice(0, 10), event: engine.gameweek, points: 'l' }],
+    leagues: 'Updated',
+  })],
+  [/^fixtures$/, (_m, query) => {
+    const fixtures = engine.fixtures();
+    const event = query.get('event');
+    return event ? fixtures.filter(f => f.event === Number(event)) : fixtures;
+  }],
+  [/^event\/(\d+)\/live$/, ([, gw]) => liveGameweek(Number(gw))],
+  [/^entry\/(\d+)$/, ([, id]) => readRecorded(dataset, `entry/${id}`) ?? managerEntry(Number(id))],
+  [/^entry\/(\d+)\/history$/, ([, id]) =>
+    readRecorded(dataset, `entry/${id}/history`) ?? entryHistory(Number(id), livePointsById(engine.gameweek))],
+  [/^entry\/(\d+)\/event\/(\d+)\/picks$/, ([, id, gw]) => {
+    const entryId = Number(id);
+    const gameweek = Number(gw);
+    const recorded = readRecorded(dataset, `entry/${id}/event/${gw}/picks`);
+    if (recorded) return recorded;
+    const history = entryHistory(entryId, livePointsById(engine.gameweek)).current;
+    return {
+      active_chip: null,
+      automatic_subs: [],
+      entry_history: history.find(r => r.event === gameweek) ?? history[history.length - 1],
+      picks: generatePicks(dataset, entryId),
+    };
+  }],
+  [/^element-summary\/(\d+)$/, ([, id]) => readRecorded(dataset, `element-summary/${id}`) ?? elementSummary(Number(id))],
+  [/^leagues-classic\/(\d+)\/standings$/, ([, id], query) =>
+    readRecorded(dataset, `leagues-classic/${id}/standings`)
+      ?? leagueStandings(Number(id), Math.max(1, Number(query.get('page_standings') ?? 1)))],
+];
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function handleControl(res, route, query) {
+  if (route === 'scenarios') {
+    send(res, 200, { scenarios: listScenarios(SCENARIO_DIR), active: engine.name });
+    return;
+  }
+
+  if (route === 'scenario') {
+    const name = query.get('name');
+    if (!name) {
+      send(res, 400, { error: 'name is required' });
+      return;
+    }
+    engine = startScenario(name);
+  }
+
+  if (route === 'clock') {
+    if (query.has('speed')) engine.setSpeed(Number(query.get('speed')));
+    if (query.has('minute')) engine.setMinute(Number(query.get('minute')));
+    if (query.has('paused')) engine.setPaused(query.get('paused') === 'true');
+  }
+
+  send(res, 200, engine.status());
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET, OPTIONS' });
+    res.end();
+    return;
+  }
+
+  try {
+    if (url.pathname.startsWith('/__mock')) {
+      handleControl(res, url.pathname.replace(/^\/__mock\/?/, '').replace(/\/$/, ''), url.searchParams);
+      return;
+    }
+
+    if (!url.pathname.startsWith('/api/')) {
+      send(res, 404, { error: 'Not found. Use /api/* for FPL endpoints or /__mock/ for the simulation.' });
+      return;
+    }
+
+    const apiPath = url.pathname.replace(/^\/api\//, '').replace(/\/$/, '');
+    for (const [pattern, handler] of ROUTES) {
+      const match = pattern.exec(apiPath);
+      if (!match) continue;
+      const body = handler(match, url.searchParams);
+      if (body === null) break;
+      send(res, 200, body);
+      return;
+    }
+
+    const recorded = readRecorded(dataset, apiPath);
+    if (recorded) {
+      send(res, 200, recorded);
+      return;
+    }
+    send(res, 404, { error: `No mock for ${apiPath}` });
+  } catch (err) {
+    console.error(`[mock-api] ${req.url}:`, err);
+    send(res, 500, { error: err instanceof Error ? err.message : 'Mock server error' });
+  }
+});
+
+server.listen(Number(args.port), () => {
+  const source = dataset.recordingDir ? `recording ${dataset.recordingDir}` : 'synthetic season';
+  console.log(`[mock-api] http://localhost:${args.port}/api/ — ${source}, GW${engine.gameweek}`);
+  console.log(`[mock-api] scenario "${engine.name}" at ${args.speed}x — control it at http://localhost:${args.port}/__mock/`);
+});
@@ -0,0 +1,136 @@
+// FPL Analytics service worker
+// - App shell: index.html + hashed Vite assets, so the app opens offline
+// - FPL data: last-known-good bootstrap-static and fixtures snapshot (network-first)
+// - Images: team badges, player photos and kits (cache-first, trimmed)
+
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `fpl-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `fpl-data-${CACHE_VERSION}`;
+const IMAGE_CACHE = `fpl-images-${CACHE_VERSION}`;
+const MAX_IMAGE_ENTRIES = 600;
+
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.json',
+  '/favicon-32x32.png',
+  '/android-icon-192x192.png',
+];
+
+// /fpl-api/... (Vite dev proxy) or <worker>/api/... (Cloudflare Worker)
+const SNAPSHOT_PATH = /\/(?:fpl-)?api\/(bootstrap-static|fixtures)\/$/;
+const IMAGE_PATH = /\/premierleague\/(badges|photos\/players)\//;
+// <worker>/img/... — the Worker's image proxy, which the app uses when one is configured
+const WORKER_IMAGE_PATH = /^\/img\/(photos|badges|shirts)\//;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, DATA_CACHE, IMAGE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('fpl-') && !current.includes(key)).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends the asset URLs it loaded before the worker took control
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CACHE_URLS' && Array.isArray(event.data.urls)) {
+    event.waitUntil(
+      caches.open(SHELL_CACHE).then((cache) => cache.addAll(event.data.urls)).catch(() => undefined)
+    );
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (SNAPSHOT_PATH.test(url.pathname)) {
+    event.respondWith(snapshot(request, url));
+    return;
+  }
+
+  if (url.hostname === 'resources.premierleague.com' && IMAGE_PATH.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+    return;
+  }
+
+  // The Worker sends CORS headers and export fetches these with CORS, so an
+  // opaque copy would be served back to that fetch and fail it
+  if (WORKER_IMAGE_PATH.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGE_ENTRIES, { keepOpaque: false }));
+  }
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request, cacheName, maxEntries, { keepOpaque = true } = {}) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Opaque (status 0) responses are fine for <img> display
+  if (response.ok || (keepOpaque && response.type === 'opaque')) {
+    await cache.put(request, response.clone());
+    if (maxEntries) trimCache(cache, maxEntries);
+  }
+  return response;
+}
+
+// Network-first for FPL data, keyed without the minute cache-buster so the
+// latest good response is always the one served when offline
+async function snapshot(request, url) {
+  const cache = await caches.open(DATA_CACHE);
+  const key = `${url.origin}${url.pathname}`;
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(key, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  for (let i = 0; i < keys.length - maxEntries; i++) {
+    await cache.delete(keys[i]);
+  }
+}
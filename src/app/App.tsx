@@ -5,7 +5,10 @@ import { FDRHeatmap } from './components/FDRHeatmap';
 import { TeamPitch } from './components/TeamPitch';
 import { FixturesComparisonNew } from './components/FixturesComparisonNew';
 import { FormVsFixtureScatter } from './components/FormVsFixtureScatter';
+import { TwitterShareButton } from './components/TwitterShareButton';
 import { useFPLStore } from './store/fpl-store';
+import { selectPlayersByPosition } from './store/selectors';
+import { shareCardUrl } from './utils/corsProxy';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { Card } from './components/ui/card';
@@ -26,12 +29,12 @@ const LiveGameweekData = React.lazy(() => import('./components/LiveGameweekData'
 const LiveBPSTracker = React.lazy(() => import('./components/LiveBPSTracker').then(m => ({ default: m.LiveBPSTracker })));
 const LiveDefConTracker = React.lazy(() => import('./components/LiveDefConTracker').then(m => ({ default: m.LiveDefConTracker })));
 const LiveRankTracker = React.lazy(() => import('./components/LiveRankTracker').then(m => ({ default: m.LiveRankTracker })));
+const ManagerHistoryPage = React.lazy(() => import('./components/ManagerHistoryPage').then(m => ({ default: m.ManagerHistoryPage })));
 
 export default function App() {
   const { 
     players, 
     teams,
-    fixtures,
     isLoading, 
     fetchBootstrapData,
     fetchFixtures,
@@ -44,6 +47,7 @@ export default function App() {
     currentGameweek,
     bootstrap
   } = useFPLStore();
+  const playersByPosition = useFPLStore(selectPlayersByPosition);
 
   const [currentPage, setCurrentPage] = useState('dashboard');
   
@@ -82,36 +86,32 @@ export default function App() {
   
   // Helper to filter players by position
   const getPlayersByPosition = (position: number, limit: number = 10) => {
-    return [...players]
-      .filter(p => p.element_type === position)
-      .sort((a, b) => b.total_points - a.total_points)
-      .slice(0, limit);
+    return (playersByPosition.get(position) ?? []).slice(0, limit);
   };
   
   const getTopFormByPosition = (position: number, limit: number = 10) => {
-    return [...players]
-      .filter(p => p.element_type === position && parseFloat(p.form) > 0)
+    return (playersByPosition.get(position) ?? [])
+      .filter(p => parseFloat(p.form) > 0)
       .sort((a, b) => parseFloat(b.form) - parseFloat(a.form))
       .slice(0, limit);
   };
 
+  // Players for a dashboard position filter ('all' | 'gk' | 'def' | 'mid' | 'fwd')
+  const getPlayersForFilter = (filter: string): Player[] => {
+    const position = { gk: 1, def: 2, mid: 3, fwd: 4 }[filter];
+    return position ? playersByPosition.get(position) ?? [] : players;
+  };
+
   // Get filtered top performers
   const getFilteredTopPoints = () => {
-    let filtered = [...players];
-    if (topPointsFilter === 'gk') filtered = filtered.filter(p => p.element_type === 1);
-    if (topPointsFilter === 'def') filtered = filtered.filter(p => p.element_type === 2);
-    if (topPointsFilter === 'mid') filtered = filtered.filter(p => p.element_type === 3);
-    if (topPointsFilter === 'fwd') filtered = filtered.filter(p => p.element_type === 4);
-    return filtered.sort((a, b) => b.total_points - a.total_points).slice(0, 10);
+    return [...getPlayersForFilter(topPointsFilter)].sort((a, b) => b.total_points - a.total_points).slice(0, 10);
   };
 
   const getFilteredTopForm = () => {
-    let filtered = [...players].filter(p => parseFloat(p.form) > 0);
-    if (inFormFilter === 'gk') filtered = filtered.filter(p => p.element_type === 1);
-    if (inFormFilter === 'def') filtered = filtered.filter(p => p.element_type === 2);
-    if (inFormFilter === 'mid') filtered = filtered.filter(p => p.element_type === 3);
-    if (inFormFilter === 'fwd') filtered = filtered.filter(p => p.element_type === 4);
-    return filtered.sort((a, b) => parseFloat(b.form) - parseFloat(a.form)).slice(0, 10);
+    return getPlayersForFilter(inFormFilter)
+      .filter(p => parseFloat(p.form) > 0)
+      .sort((a, b) => parseFloat(b.form) - parseFloat(a.form))
+      .slice(0, 10);
   };
 
   const topPoints = getFilteredTopPoints();
@@ -352,9 +352,17 @@ export default function App() {
             <div className="space-y-4 sm:space-y-6">
               {/* Player Selection */}
               <Card className="p-4 sm:p-6">
-                <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4">
-                  Select Players to Compare
-                </h3>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3 sm:mb-4">
+                  <h3 className="text-base sm:text-lg font-bold text-gray-900">
+                    Select Players to Compare
+                  </h3>
+                  <TwitterShareButton
+                    text={`${selectedPlayer1.web_name} vs ${selectedPlayer2.web_name}`}
+                    url={shareCardUrl('compare', { a: selectedPlayer1.id, b: selectedPlayer2.id })}
+                    label="Share comparison"
+                    className="text-xs sm:text-sm"
+                  />
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="text-sm font-medium text-gray-700 mb-2 block">Player 1</label>
@@ -442,7 +450,6 @@ export default function App() {
           <FixturesComparisonNew 
             players={players}
             teams={teams}
-            fixtures={fixtures}
             getPlayerFixtures={getPlayerFixtures}
           />
         );
@@ -568,6 +575,17 @@ export default function App() {
           </React.Suspense>
         );
 
+      case 'manager-history':
+        return (
+          <React.Suspense fallback={
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+            </div>
+          }>
+            <ManagerHistoryPage />
+          </React.Suspense>
+        );
+
       default:
         return null;
     }
@@ -589,6 +607,7 @@ export default function App() {
     'live-bps': 'Live BPS Tracker',
     'live-defcon': 'Live DefCon Tracker',
     'live-rank': 'Live Rank Tracker',
+    'manager-history': 'Manager History',
   };
 
   return (
@@ -15,9 +15,12 @@ import {
   Zap,
   Award,
   Shield,
-  Trophy
+  Trophy,
+  History
 } from 'lucide-react';
 import { Button } from './ui/button';
+import { OfflineBanner } from './OfflineBanner';
+import { DataSourceIndicator, DataSourceBanner } from './DataSourceStatus';
 import xLogo from '../../assets/logo.jpg';
 
 interface LayoutProps {
@@ -36,6 +39,7 @@ const navigationItems = [
   { id: 'live-bps', name: 'Live BPS Tracker', icon: Award },
   { id: 'live-defcon', name: 'Live DefCon Tracker', icon: Shield },
   { id: 'live-rank', name: 'Live Rank Tracker', icon: Trophy },
+  { id: 'manager-history', name: 'Manager History', icon: History },
   { id: 'price-changes', name: 'Price Changes', icon: DollarSign },
   { id: 'export-cards', name: 'Export Cards', icon: Download },
   { id: 'analytics', name: 'Analytics', icon: BarChart3 },
@@ -151,9 +155,13 @@ export function DashboardLayout({ children, currentPage = 'Dashboard', onNavigat
                 2025/26 Season
               </p>
             </div>
+            <DataSourceIndicator />
           </div>
         </div>
 
+        <OfflineBanner />
+        <DataSourceBanner />
+
         {/* Page Content */}
         <div className="p-3 sm:p-4 md:p-6">
           {children}
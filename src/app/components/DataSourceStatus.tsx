@@ -0,0 +1,98 @@
+import React from 'react';
+import { AlertCircle, Database, FlaskConical, RefreshCw, Wifi, History } from 'lucide-react';
+import { Button } from './ui/button';
+import { useFPLStore, type DataSourceKind } from '../store/fpl-store';
+import { formatDataAge } from '../utils/dataAge';
+
+const SOURCE_STYLES: Record<DataSourceKind, { label: string; className: string; icon: typeof Wifi }> = {
+  live: { label: 'Live', className: 'bg-green-50 text-green-700 border-green-200', icon: Wifi },
+  cached: { label: 'Cached', className: 'bg-blue-50 text-blue-700 border-blue-200', icon: Database },
+  stale: { label: 'Stale', className: 'bg-amber-50 text-amber-700 border-amber-200', icon: History },
+  demo: { label: 'Demo data', className: 'bg-purple-50 text-purple-700 border-purple-200', icon: FlaskConical },
+};
+
+/**
+ * Compact badge for the top bar: where the data came from and how old it is.
+ */
+export function DataSourceIndicator() {
+  const { dataSource, isLoading, retryFetch } = useFPLStore();
+
+  if (!dataSource) return null;
+
+  const style = SOURCE_STYLES[dataSource.kind];
+  const Icon = style.icon;
+  const title = [
+    dataSource.updatedAt ? `Fetched ${new Date(dataSource.updatedAt).toLocaleString()}` : null,
+    dataSource.reason,
+  ].filter(Boolean).join(' — ');
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-full border text-xs font-semibold ${style.className}`}
+        title={title}
+      >
+        <Icon className="w-3.5 h-3.5" />
+        {style.label}
+        {dataSource.updatedAt && (
+          <span className="font-normal hidden sm:inline">· {formatDataAge(dataSource.updatedAt)}</span>
+        )}
+      </span>
+      {dataSource.kind !== 'demo' && dataSource.kind !== 'live' && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => retryFetch()}
+          disabled={isLoading}
+          title="Refresh FPL data"
+          className="h-7 w-7"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Full-width banner for a failed load (retry / opt into demo data)
+ * or for demo mode (switch back to live data).
+ */
+export function DataSourceBanner() {
+  const { dataSource, error, fixturesError, isLoading, demoMode, retryFetch, setDemoMode } = useFPLStore();
+
+  if (demoMode && dataSource?.kind === 'demo') {
+    return (
+      <div className="bg-purple-50 border-b border-purple-200 px-3 sm:px-4 md:px-6 py-2 flex flex-col sm:flex-row sm:items-center gap-2 text-xs sm:text-sm text-purple-800">
+        <FlaskConical className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1">
+          <span className="font-semibold">Demo mode:</span> players, prices and fixtures are 2023/24 sample data. Don't use them for transfer decisions.
+        </span>
+        <Button size="sm" variant="outline" onClick={() => setDemoMode(false)} disabled={isLoading}>
+          Use live data
+        </Button>
+      </div>
+    );
+  }
+
+  const message = error ?? fixturesError;
+  if (!message) return null;
+
+  return (
+    <div className="bg-red-50 border-b border-red-200 px-3 sm:px-4 md:px-6 py-2 flex flex-col sm:flex-row sm:items-center gap-2 text-xs sm:text-sm text-red-800">
+      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1">{message}</span>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => retryFetch()} disabled={isLoading}>
+          <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+          Retry
+        </Button>
+        {!dataSource && (
+          <Button size="sm" variant="outline" onClick={() => setDemoMode(true)} disabled={isLoading}>
+            Use demo data
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { Card } from './ui/card';
 import { useFPLStore } from '../store/fpl-store';
+import { selectUpcomingFixturesByTeam } from '../store/selectors';
 import { Loader2, ArrowUpDown, ArrowUp, ArrowDown, Star } from 'lucide-react';
 import { TeamBadge } from './ui/team-badge';
 
@@ -28,7 +29,8 @@ const getFDRTextColor = (difficulty: number) => {
 };
 
 export function FDRFixturesPage() {
-  const { bootstrap, fixtures, fetchBootstrapData, fetchFixtures } = useFPLStore();
+  const { bootstrap, fixtures, teamsById, fetchBootstrapData, fetchFixtures } = useFPLStore();
+  const upcomingByTeam = useFPLStore(selectUpcomingFixturesByTeam);
   const [sortColumn, setSortColumn] = React.useState<string>('avgFDR');
   const [sortDirection, setSortDirection] = React.useState<'asc' | 'desc'>('asc');
 
@@ -47,22 +49,12 @@ export function FDRFixturesPage() {
 
   // Get next 5 fixtures for each team
   const teamFixturesData = bootstrap.teams?.map(team => {
-    const teamFixtures = fixtures
-      .filter(f => 
-        (f.team_h === team.id || f.team_a === team.id) && 
-        !f.finished
-      )
-      .sort((a, b) => {
-        // Sort by event number, handling null events
-        const aEvent = a.event ?? 999;
-        const bEvent = b.event ?? 999;
-        return aEvent - bEvent;
-      })
+    const teamFixtures = (upcomingByTeam.get(team.id) ?? [])
       .slice(0, 5) // Take up to 5 remaining fixtures
       .map(f => {
         const isHome = f.team_h === team.id;
         const opponentId = isHome ? f.team_a : f.team_h;
-        const opponent = bootstrap.teams?.find(t => t.id === opponentId);
+        const opponent = teamsById.get(opponentId);
         const difficulty = isHome ? f.team_h_difficulty : f.team_a_difficulty;
         
         return {
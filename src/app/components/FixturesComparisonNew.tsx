@@ -4,14 +4,15 @@ import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Input } from './ui/input';
 import { toPng } from 'html-to-image';
-import type { Player, PlayerFixture, Team, Fixture } from '../types/fpl';
+import type { Player, PlayerFixture, Team } from '../types/fpl';
+import { useFPLStore } from '../store/fpl-store';
+import { selectPlayersByPosition, selectUpcomingFixturesByTeam } from '../store/selectors';
 import { PlayerImage } from './ui/player-image';
 import { TeamBadge } from './ui/team-badge';
 
 interface FixturesComparisonNewProps {
   players: Player[];
   teams: Team[];
-  fixtures: Fixture[];
   getPlayerFixtures: (playerId: number, count?: number) => PlayerFixture[];
 }
 
@@ -33,6 +34,8 @@ const getDifficultyColor = (difficulty: number): string => {
 };
 
 type PositionFilter = 'all' | 'gk' | 'def' | 'mid' | 'fwd';
+
+const POSITION_FILTER_TYPES: Record<Exclude<PositionFilter, 'all'>, number> = { gk: 1, def: 2, mid: 3, fwd: 4 };
 type TabType = 'players' | 'teams';
 
 interface TeamFixture {
@@ -43,7 +46,10 @@ interface TeamFixture {
   difficulty: number;
 }
 
-export function FixturesComparisonNew({ players, teams, fixtures, getPlayerFixtures }: FixturesComparisonNewProps) {
+export function FixturesComparisonNew({ players, teams, getPlayerFixtures }: FixturesComparisonNewProps) {
+  const teamsById = useFPLStore(state => state.teamsById);
+  const playersByPosition = useFPLStore(selectPlayersByPosition);
+  const upcomingByTeam = useFPLStore(selectUpcomingFixturesByTeam);
   const [activeTab, setActiveTab] = useState<TabType>('players');
   const [selectedPlayers, setSelectedPlayers] = useState<Player[]>([]);
   const [selectedTeams, setSelectedTeams] = useState<Team[]>([]);
@@ -57,19 +63,12 @@ export function FixturesComparisonNew({ players, teams, fixtures, getPlayerFixtu
 
   // Get team fixtures with FDR
   const getTeamFixtures = (teamId: number, count: number = 8): TeamFixture[] => {
-    const upcomingFixtures = fixtures
-      .filter(f => !f.finished && (f.team_h === teamId || f.team_a === teamId))
-      .sort((a, b) => {
-        const aEvent = a.event ?? 999;
-        const bEvent = b.event ?? 999;
-        return aEvent - bEvent;
-      })
-      .slice(0, count);
+    const upcomingFixtures = (upcomingByTeam.get(teamId) ?? []).slice(0, count);
 
     return upcomingFixtures.map(f => {
       const isHome = f.team_h === teamId;
       const opponentId = isHome ? f.team_a : f.team_h;
-      const opponent = teams.find(t => t.id === opponentId);
+      const opponent = teamsById.get(opponentId);
       const difficulty = isHome ? (f.team_h_difficulty || 3) : (f.team_a_difficulty || 3);
 
       return {
@@ -84,12 +83,9 @@ export function FixturesComparisonNew({ players, teams, fixtures, getPlayerFixtu
 
   // Filter players by position and search
   const getFilteredPlayers = () => {
-    let filtered = [...players].sort((a, b) => b.total_points - a.total_points);
-    
-    if (positionFilter === 'gk') filtered = filtered.filter(p => p.element_type === 1);
-    if (positionFilter === 'def') filtered = filtered.filter(p => p.element_type === 2);
-    if (positionFilter === 'mid') filtered = filtered.filter(p => p.element_type === 3);
-    if (positionFilter === 'fwd') filtered = filtered.filter(p => p.element_type === 4);
+    let filtered = positionFilter === 'all'
+      ? [...players].sort((a, b) => b.total_points - a.total_points)
+      : playersByPosition.get(POSITION_FILTER_TYPES[positionFilter]) ?? [];
     
     if (searchQuery) {
       filtered = filtered.filter(p => 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -7,7 +7,6 @@ import {
   Award,
   Clock,
   AlertCircle,
-  Zap,
   TrendingUp,
   Shield,
   Flame,
@@ -15,151 +14,26 @@ import {
   ChevronDown,
   ChevronUp
 } from 'lucide-react';
-import { FPLService } from '../utils/corsProxy';
+import { getEffectiveBps, allocateBonus, fixtureBpsStandings } from '../utils/fplScoring';
+import { getSeasonRules } from '../utils/fplRules';
 import { useFPLStore } from '../store/fpl-store';
+import { useLiveGameweek, useLiveGameweekStore, useSelectedLiveGameweek } from '../store/live-gameweek';
 import { PlayerImage } from './ui/player-image';
 import { TeamBadge } from './ui/team-badge';
-
-interface LivePlayerData {
-  id: number;
-  stats: {
-    minutes: number;
-    goals_scored: number;
-    assists: number;
-    clean_sheets: number;
-    goals_conceded: number;
-    own_goals: number;
-    penalties_saved: number;
-    penalties_missed: number;
-    yellow_cards: number;
-    red_cards: number;
-    saves: number;
-    saves_inside_box: number;
-    saves_outside_box: number;
-    tackles: number;
-    goalline_clearances: number;
-    penalties_conceded: number;
-    bonus: number;
-    bps: number;
-    influence: string;
-    creativity: string;
-    threat: string;
-    ict_index: string;
-    total_points: number;
-  };
-  explain: Array<{
-    fixture: number;
-    stats: Array<{
-      identifier: string;
-      points: number;
-      value: number;
-    }>;
-  }>;
-}
-
-interface FixtureData {
-  id: number;
-  team_h: number;
-  team_a: number;
-  team_h_score: number | null;
-  team_a_score: number | null;
-  started: boolean;
-  finished: boolean;
-  minutes: number;
-}
+import { LiveUpdateStatus } from './LiveUpdateStatus';
+import type { Fixture } from '../types/fpl';
 
 export function LiveBPSTracker() {
-  const { bootstrap, updateLivePlayerStats } = useFPLStore();
-  const [gameweek, setGameweek] = useState('28');
-  const [liveData, setLiveData] = useState<LivePlayerData[]>([]);
-  const [fixtures, setFixtures] = useState<FixtureData[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const { bootstrap, currentSeason } = useFPLStore();
+  const rules = getSeasonRules(currentSeason);
+  const [gameweek, selectGameweek] = useSelectedLiveGameweek();
+  const live = useLiveGameweek(gameweek);
+  const refreshGameweek = useLiveGameweekStore(state => state.refreshGameweek);
+  const { elements: liveData, fixtures, loading, error } = live;
+  const lastUpdate = live.lastUpdate ? new Date(live.lastUpdate) : null;
   const [selectedFixture, setSelectedFixture] = useState<number | 'all'>('all');
-  const [autoRefresh, setAutoRefresh] = useState(false);
   const [minBPS, setMinBPS] = useState('20');
   const [expandedFixtures, setExpandedFixtures] = useState<Set<number>>(new Set());
-  const [hasLiveFixtures, setHasLiveFixtures] = useState(true);
-  const autoRefreshRef = useRef(autoRefresh);
-  autoRefreshRef.current = autoRefresh;
-  const fetchLiveDataRef = useRef<() => void>(() => {});
-  const retryCountRef = useRef(0);
-  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  // Cleanup retry timer on unmount
-  useEffect(() => {
-    return () => { if (retryTimerRef.current) clearTimeout(retryTimerRef.current); };
-  }, []);
-
-  const fetchLiveData = useCallback(async () => {
-    setLoading(true);
-
-    try {
-      // Fetch live data and fixtures in parallel, always bypassing cache
-      const [data, allFixtures] = await Promise.all([
-        FPLService.loadLiveGameweek(Number(gameweek)),
-        FPLService.loadFixtures(true),
-      ]);
-
-      const elements: LivePlayerData[] = data.elements || [];
-      setLiveData(elements);
-
-      // Partial store update — only push changed stats
-      updateLivePlayerStats(
-        elements
-          .filter((el: LivePlayerData) => el.stats.minutes > 0)
-          .map((el: LivePlayerData) => ({ id: el.id, stats: el.stats as unknown as Record<string, unknown> }))
-      );
-
-      const gwFixtures = allFixtures.filter((f: { event: number }) => f.event === Number(gameweek));
-      setFixtures(gwFixtures);
-
-      const anyLive = gwFixtures.some((f: { started: boolean; finished: boolean }) => f.started && !f.finished);
-      setHasLiveFixtures(anyLive);
-
-      if (!anyLive && autoRefreshRef.current) {
-        setAutoRefresh(false);
-      }
-
-      setLastUpdate(new Date());
-      setError('');
-      retryCountRef.current = 0;
-      if (retryTimerRef.current) { clearTimeout(retryTimerRef.current); retryTimerRef.current = null; }
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : 'Failed to load live data';
-      setError(message);
-      // Schedule retry with exponential backoff (10s, 20s, 40s, 80s, 120s cap)
-      const delay = Math.min(10000 * Math.pow(2, retryCountRef.current), 120000);
-      retryCountRef.current++;
-      retryTimerRef.current = setTimeout(() => { fetchLiveDataRef.current(); }, delay);
-    } finally {
-      setLoading(false);
-    }
-  }, [gameweek, updateLivePlayerStats]);
-
-  // Keep ref in sync so the interval always calls the latest version
-  fetchLiveDataRef.current = fetchLiveData;
-
-  // Auto-refresh every 90 seconds if enabled
-  // Only depends on autoRefresh — checks document.hidden at fire-time to skip
-  // hidden-tab fetches without resetting the 90-second countdown.
-  useEffect(() => {
-    if (!autoRefresh) return;
-
-    const interval = setInterval(() => {
-      if (!document.hidden) {
-        fetchLiveDataRef.current();
-      }
-    }, 90000);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh]);
-
-  // Auto-load when gameweek changes
-  useEffect(() => {
-    fetchLiveData();
-  }, [fetchLiveData]);
 
   // Get player info from bootstrap
   const getPlayerInfo = (playerId: number) => {
@@ -171,125 +45,11 @@ export function LiveBPSTracker() {
     return bootstrap?.teams?.find(t => t.id === teamId);
   };
 
-  // Count penalty goals from explain stats (identifier: "penalties_scored")
-  const countPenaltyGoals = (explain: LivePlayerData['explain']): number => {
-    if (!explain) return 0;
-    return explain.reduce((total, fixture) => {
-      const penStat = fixture.stats.find(s => s.identifier === 'penalties_scored');
-      return total + (penStat?.value || 0);
-    }, 0);
-  };
-
-  // 2025/26 Predictive BPS calculation
-  const calculatePredictedBPS = (
-    stats: LivePlayerData['stats'],
-    elementType: number,
-    explain: LivePlayerData['explain']
-  ): number => {
-    let bps = 0;
-
-    // Playing minutes — official: 3 BPS for 1-59 mins, 6 BPS for 60+ mins
-    if (stats.minutes > 0) bps += 3;
-    if (stats.minutes >= 60) bps += 3;
-
-    // Goals — 2025/26: penalty goals get flat 12 BPS regardless of position
-    const penGoals = countPenaltyGoals(explain);
-    const openPlayGoals = Math.max(0, stats.goals_scored - penGoals);
-
-    // Penalty goals: flat 12 BPS each
-    bps += penGoals * 12;
-
-    // Open play goals: position-based BPS
-    if (elementType === 1 || elementType === 2) {
-      bps += openPlayGoals * 12;
-    } else if (elementType === 3) {
-      bps += openPlayGoals * 18;
-    } else {
-      bps += openPlayGoals * 24;
-    }
-
-    // Assists
-    bps += stats.assists * 9;
-
-    // GK Saves — 2025/26: 3 BPS inside box, 2 BPS outside box
-    if (elementType === 1) {
-      const insideBoxSaves = stats.saves_inside_box || 0;
-      const outsideBoxSaves = stats.saves_outside_box || 0;
-      if (insideBoxSaves > 0 || outsideBoxSaves > 0) {
-        bps += (insideBoxSaves * 3) + (outsideBoxSaves * 2);
-      } else {
-        // Fallback: use total saves * 2 if breakdown unavailable
-        bps += (stats.saves || 0) * 2;
-      }
-    }
-
-    // Tackles Won — 2025/26: +2 BPS per tackle (no tackles lost penalty)
-    bps += (stats.tackles || 0) * 2;
-
-    // Goalline Clearances — 2025/26: +9 BPS each
-    bps += (stats.goalline_clearances || 0) * 9;
-
-    // Clean sheet
-    if (stats.clean_sheets > 0) {
-      if (elementType === 1) bps += 12;
-      else if (elementType === 2) bps += 12;
-      else if (elementType === 3) bps += 6;
-    }
-
-    // Penalties saved — 2025/26: 8 BPS (changed from 15)
-    bps += stats.penalties_saved * 8;
-
-    // Penalty missed
-    bps -= stats.penalties_missed * 6;
-
-    // Yellow card
-    bps -= stats.yellow_cards * 3;
-
-    // Red card
-    bps -= stats.red_cards * 9;
-
-    // Own goal
-    bps -= stats.own_goals * 6;
-
-    // Goals conceded (GK/DEF only) — official: -4 BPS per goal
-    if (elementType === 1 || elementType === 2) {
-      bps -= stats.goals_conceded * 4;
-    }
-
-    return Math.max(0, bps);
-  };
-
-  // Get effective BPS: use API value if available, fall back to prediction
-  const getEffectiveBPS = (
-    stats: LivePlayerData['stats'],
-    elementType: number,
-    explain: LivePlayerData['explain']
-  ): number => {
-    if (stats.bps > 0) return stats.bps;
-    return calculatePredictedBPS(stats, elementType, explain);
-  };
-
   // Group players by fixture and calculate BPS standings
-  const getFixtureBPS = (fixtureId: number) => {
-    const players = liveData
-      .map(livePlayer => {
-        const player = getPlayerInfo(livePlayer.id);
-        const effectiveBPS = player
-          ? getEffectiveBPS(livePlayer.stats, player.element_type, livePlayer.explain)
-          : livePlayer.stats.bps;
-        return { ...livePlayer, player, effectiveBPS };
-      })
-      .filter(({ player, stats, explain }) => {
-        if (!player || stats.minutes === 0) return false;
-
-        // Check if player was in this fixture
-        const fixtureStats = explain?.find(e => e.fixture === fixtureId);
-        return !!fixtureStats;
-      })
-      .sort((a, b) => b.effectiveBPS - a.effectiveBPS);
-
-    return players;
-  };
+  const liveById = new Map(liveData.map(el => [el.id, el] as const));
+  const getFixtureBPS = (fixture: Fixture) =>
+    fixtureBpsStandings(fixture, liveData, id => getPlayerInfo(id)?.element_type, rules)
+      .map(({ id, bps }) => ({ ...liveById.get(id)!, player: getPlayerInfo(id), effectiveBPS: bps }));
 
   // Get all active fixtures with BPS data
   const activeFixtures = fixtures
@@ -297,7 +57,7 @@ export function LiveBPSTracker() {
     .map(fixture => {
       const homeTeam = getTeam(fixture.team_h);
       const awayTeam = getTeam(fixture.team_a);
-      const bpsPlayers = getFixtureBPS(fixture.id);
+      const bpsPlayers = getFixtureBPS(fixture);
       
       return {
         fixture,
@@ -313,7 +73,7 @@ export function LiveBPSTracker() {
     .map(livePlayer => {
       const player = getPlayerInfo(livePlayer.id);
       const effectiveBPS = player
-        ? getEffectiveBPS(livePlayer.stats, player.element_type, livePlayer.explain)
+        ? getEffectiveBps(livePlayer, player.element_type, rules)
         : livePlayer.stats.bps;
       return { ...livePlayer, player, effectiveBPS };
     })
@@ -328,7 +88,7 @@ export function LiveBPSTracker() {
     .map(p => {
       const player = getPlayerInfo(p.id);
       const effectiveBPS = player
-        ? getEffectiveBPS(p.stats, player.element_type, p.explain)
+        ? getEffectiveBps(p, player.element_type, rules)
         : p.stats.bps;
       return { ...p, effectiveBPS };
     });
@@ -343,39 +103,10 @@ export function LiveBPSTracker() {
     ? Math.max(...allActivePlayers.map(p => p.effectiveBPS))
     : 0;
   
-  // Determine bonus points based on BPS rank with tie handling
-  // Official rules: tied players get the same bonus; ties consume positions
-  const getBonusForFixture = (sortedPlayers: Array<{ effectiveBPS: number }>): Map<number, number> => {
-    const bonusMap = new Map<number, number>(); // index → bonus
-    if (sortedPlayers.length === 0) return bonusMap;
-
-    let bonusPool = [3, 2, 1];
-    let poolIndex = 0;
-    let i = 0;
-
-    while (i < sortedPlayers.length && poolIndex < bonusPool.length) {
-      const currentBPS = sortedPlayers[i].effectiveBPS;
-      // Count how many players share this BPS value
-      let tiedCount = 0;
-      for (let j = i; j < sortedPlayers.length; j++) {
-        if (sortedPlayers[j].effectiveBPS === currentBPS) tiedCount++;
-        else break;
-      }
-
-      const bonus = bonusPool[poolIndex];
-      // All tied players get the same bonus
-      for (let j = i; j < i + tiedCount; j++) {
-        bonusMap.set(j, bonus);
-      }
-
-      // Ties consume that many positions from the pool
-      poolIndex += tiedCount;
-      i += tiedCount;
-    }
+  // Bonus by player id for a fixture's BPS standings (ties share the award)
+  const getBonusForFixture = (players: Array<{ id: number; effectiveBPS: number }>): Map<number, number> =>
+    allocateBonus(players.map(p => ({ id: p.id, bps: p.effectiveBPS })), rules);
 
-    return bonusMap;
-  };
-  
   // 4. Total bonus points actually given (with tie handling)
   const totalBonusGiven = activeFixtures.reduce((sum, { bpsPlayers }) => {
     const bonusMap = getBonusForFixture(bpsPlayers);
@@ -431,7 +162,7 @@ export function LiveBPSTracker() {
               <label className="text-xs sm:text-sm font-medium text-gray-700 mb-2 block">Gameweek</label>
               <select
                 value={gameweek}
-                onChange={(e) => setGameweek(e.target.value)}
+                onChange={(e) => selectGameweek(Number(e.target.value))}
                 className="w-full h-10 px-3 border border-gray-300 rounded-md bg-white text-sm"
               >
                 {Array.from({ length: 38 }, (_, i) => i + 1).map(gw => (
@@ -459,7 +190,7 @@ export function LiveBPSTracker() {
             </div>
             <div className="flex gap-2 items-end">
               <Button
-                onClick={fetchLiveData}
+                onClick={() => refreshGameweek(gameweek)}
                 disabled={loading}
                 className="flex-1 sm:flex-none bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-700 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -477,26 +208,10 @@ export function LiveBPSTracker() {
                   </>
                 )}
               </Button>
-              <Button
-                variant={autoRefresh ? 'default' : 'outline'}
-                onClick={() => setAutoRefresh(!autoRefresh)}
-                disabled={!hasLiveFixtures}
-                className="flex-1 sm:flex-none disabled:opacity-50 disabled:cursor-not-allowed"
-                title={!hasLiveFixtures ? "Auto-refresh only available for live fixtures" : ""}
-              >
-                <Zap className="w-4 h-4 mr-2" />
-                <span className="hidden sm:inline">Auto</span>
-              </Button>
             </div>
           </div>
 
-          {lastUpdate && (
-            <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600">
-              <Clock className="w-3 h-3 sm:w-4 sm:h-4" />
-              Last updated: {lastUpdate.toLocaleTimeString()}
-              {autoRefresh && <span className="text-green-600 font-semibold">(Auto-refresh ON)</span>}
-            </div>
-          )}
+          <LiveUpdateStatus entry={live} />
 
           {error && (
             <div className={`flex items-center gap-2 text-xs sm:text-sm rounded-lg p-3 ${
@@ -518,7 +233,13 @@ export function LiveBPSTracker() {
             <div className="flex items-start gap-2">
               <AlertCircle className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5" />
               <div className="text-xs sm:text-sm text-blue-800">
-                <strong>2025/26 BPS:</strong> Top 3 BPS per match get bonus (3/2/1). GK Saves: 3 BPS (inside box), 2 BPS (outside). Tackles Won: +2 BPS. Penalty Goals: 12 BPS flat. Penalty Saves: 8 BPS. Goalline Clearances: 9 BPS.
+                <strong>{rules.season} BPS:</strong> Top {rules.bps.bonusAwards.length} BPS per match get bonus ({rules.bps.bonusAwards.join('/')}).{' '}
+                {rules.bps.saveInsideBox !== rules.bps.saveOutsideBox
+                  ? `GK Saves: ${rules.bps.saveInsideBox} BPS (inside box), ${rules.bps.saveOutsideBox} BPS (outside).`
+                  : `GK Saves: ${rules.bps.saveInsideBox} BPS.`}{' '}
+                Tackles Won: +{rules.bps.tackle} BPS.{' '}
+                {rules.bps.penaltyGoal !== null && `Penalty Goals: ${rules.bps.penaltyGoal} BPS flat. `}
+                Penalty Saves: {rules.bps.penaltySave} BPS. Goalline Clearances: {rules.bps.goallineClearance} BPS.
               </div>
             </div>
           </div>
@@ -759,7 +480,7 @@ export function LiveBPSTracker() {
                       if (!player) return null;
                       const posMap = { 1: 'GKP', 2: 'DEF', 3: 'MID', 4: 'FWD' };
                       const position = posMap[player.element_type as keyof typeof posMap];
-                      const bonusPoints = fixtureBonusMap.get(index) || 0;
+                      const bonusPoints = fixtureBonusMap.get(id) || 0;
                       const rankLabels = ['🥇 1st', '🥈 2nd', '🥉 3rd'];
 
                       return (
@@ -1,10 +1,9 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { 
   RefreshCw, 
   Shield,
-  Clock,
   AlertCircle,
   AlertTriangle,
   CheckCircle,
@@ -16,57 +15,14 @@ import {
   ChevronDown,
   ChevronUp
 } from 'lucide-react';
-import { FPLService } from '../utils/corsProxy';
+import { getDefensiveContributions, getMilestoneProgress } from '../utils/fplScoring';
+import { getSeasonRules } from '../utils/fplRules';
 import { useFPLStore } from '../store/fpl-store';
+import { useLiveGameweek, useLiveGameweekStore, useSelectedLiveGameweek } from '../store/live-gameweek';
 import { PlayerImage } from './ui/player-image';
 import { TeamBadge } from './ui/team-badge';
-
-interface LivePlayerData {
-  id: number;
-  stats: {
-    minutes: number;
-    goals_scored: number;
-    assists: number;
-    clean_sheets: number;
-    goals_conceded: number;
-    own_goals: number;
-    penalties_saved: number;
-    penalties_missed: number;
-    yellow_cards: number;
-    red_cards: number;
-    saves: number;
-    bonus: number;
-    bps: number;
-    influence: string;
-    creativity: string;
-    threat: string;
-    ict_index: string;
-    total_points: number;
-    clearances_blocks_interceptions: number;
-    tackles: number;
-    recoveries: number;
-  };
-  explain: Array<{
-    fixture: number;
-    stats: Array<{
-      identifier: string;
-      points: number;
-      value: number;
-    }>;
-  }>;
-}
-
-interface FixtureData {
-  id: number;
-  team_h: number;
-  team_a: number;
-  team_h_score: number | null;
-  team_a_score: number | null;
-  started: boolean;
-  finished: boolean;
-  minutes: number;
-  event: number;
-}
+import { LiveUpdateStatus } from './LiveUpdateStatus';
+import type { LiveElement, Fixture } from '../types/fpl';
 
 interface PlayerDefensiveData {
   id: number;
@@ -81,7 +37,7 @@ interface PlayerDefensiveData {
 }
 
 interface FixtureDefensiveData {
-  fixture: FixtureData;
+  fixture: Fixture;
   homeTeam: any;
   awayTeam: any;
   homePlayers: PlayerDefensiveData[];
@@ -89,94 +45,15 @@ interface FixtureDefensiveData {
 }
 
 export function LiveDefConTracker() {
-  const { bootstrap, updateLivePlayerStats } = useFPLStore();
-  const [gameweek, setGameweek] = useState('28');
-  const [liveData, setLiveData] = useState<LivePlayerData[]>([]);
-  const [fixtures, setFixtures] = useState<FixtureData[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
-  const [autoRefresh, setAutoRefresh] = useState(false);
+  const { bootstrap, currentSeason } = useFPLStore();
+  const rules = getSeasonRules(currentSeason);
+  const [gameweek, selectGameweek] = useSelectedLiveGameweek();
+  const live = useLiveGameweek(gameweek);
+  const refreshGameweek = useLiveGameweekStore(state => state.refreshGameweek);
+  const { elements: liveData, fixtures, loading, error } = live;
+  const lastUpdate = live.lastUpdate ? new Date(live.lastUpdate) : null;
   const [selectedTeam, setSelectedTeam] = useState<number | 'all'>('all');
   const [expandedTeams, setExpandedTeams] = useState<Set<number>>(new Set());
-  const [hasLiveFixtures, setHasLiveFixtures] = useState(true);
-  const autoRefreshRef = useRef(autoRefresh);
-  autoRefreshRef.current = autoRefresh;
-  const fetchLiveDataRef = useRef<() => void>(() => {});
-  const retryCountRef = useRef(0);
-  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  useEffect(() => {
-    return () => { if (retryTimerRef.current) clearTimeout(retryTimerRef.current); };
-  }, []);
-
-  const fetchLiveData = useCallback(async () => {
-    setLoading(true);
-
-    try {
-      // Fetch live data and fixtures in parallel, always bypassing cache
-      const [data, allFixtures] = await Promise.all([
-        FPLService.loadLiveGameweek(Number(gameweek)),
-        FPLService.loadFixtures(true),
-      ]);
-
-      const elements: LivePlayerData[] = data.elements || [];
-      setLiveData(elements);
-
-      // Partial store update — only push changed stats
-      updateLivePlayerStats(
-        elements
-          .filter((el: LivePlayerData) => el.stats.minutes > 0)
-          .map((el: LivePlayerData) => ({ id: el.id, stats: el.stats as unknown as Record<string, unknown> }))
-      );
-
-      const gwFixtures = allFixtures.filter((f: FixtureData) => f.event === Number(gameweek));
-      setFixtures(gwFixtures);
-
-      const anyLive = gwFixtures.some((f: FixtureData) => f.started && !f.finished);
-      setHasLiveFixtures(anyLive);
-
-      if (!anyLive && autoRefreshRef.current) {
-        setAutoRefresh(false);
-      }
-
-      setLastUpdate(new Date());
-      setError('');
-      retryCountRef.current = 0;
-      if (retryTimerRef.current) { clearTimeout(retryTimerRef.current); retryTimerRef.current = null; }
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : 'Failed to load live data';
-      setError(message);
-      const delay = Math.min(10000 * Math.pow(2, retryCountRef.current), 120000);
-      retryCountRef.current++;
-      retryTimerRef.current = setTimeout(() => { fetchLiveDataRef.current(); }, delay);
-    } finally {
-      setLoading(false);
-    }
-  }, [gameweek, updateLivePlayerStats]);
-
-  // Keep ref in sync so the interval always calls the latest version
-  fetchLiveDataRef.current = fetchLiveData;
-
-  // Auto-refresh every 90 seconds if enabled
-  // Only depends on autoRefresh — checks document.hidden at fire-time to skip
-  // hidden-tab fetches without resetting the 90-second countdown.
-  useEffect(() => {
-    if (!autoRefresh) return;
-
-    const interval = setInterval(() => {
-      if (!document.hidden) {
-        fetchLiveDataRef.current();
-      }
-    }, 90000);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh]);
-
-  // Auto-load when gameweek changes
-  useEffect(() => {
-    fetchLiveData();
-  }, [fetchLiveData]);
 
   // Get player info
   const getPlayerInfo = (playerId: number) => {
@@ -216,75 +93,19 @@ export function LiveDefConTracker() {
     return info[level as keyof typeof info] || info[3];
   };
 
-  // Calculate defensive contributions from stats directly (2025/26 rules)
-  // CBIT = Clearances + Blocks + Interceptions + Tackles
-  const calculateDefensiveContributions = (livePlayer: LivePlayerData, position: number): number => {
-    const stats = livePlayer.stats;
-    const cbit = (stats.clearances_blocks_interceptions || 0) + (stats.tackles || 0);
-
-    // Defenders: CBIT >= 10 for +2pts
-    if (position === 2) {
-      return cbit;
-    }
-
-    // Midfielders and Forwards: CBIT + Recoveries >= 12 for +2pts
-    if (position === 3 || position === 4) {
-      return cbit + (stats.recoveries || 0);
-    }
-
-    return 0;
-  };
-
-  // Calculate milestone progress for a player
-  const calculateMilestoneData = (player: any, stats: any, defensiveContributions: number): PlayerDefensiveData => {
-    const position = player.element_type;
-    let milestone = 0;
-    let bonusPoints = 0;
-    let milestoneMet = false;
-    let progressPercent = 0;
-
-    // Goalkeeper - Saves milestones: +1pt per every 3 saves (uncapped)
-    if (position === 1) {
-      milestone = 3; // First milestone at 3 saves
-      bonusPoints = Math.floor(stats.saves / 3);
-      milestoneMet = bonusPoints > 0;
-      // Progress toward next milestone
-      const nextMilestone = (bonusPoints + 1) * 3;
-      progressPercent = milestoneMet ? Math.min(100, (stats.saves / nextMilestone) * 100) : (stats.saves / 3) * 100;
-    }
-    // Defender - 10 defensive contributions
-    else if (position === 2) {
-      milestone = 10;
-      if (defensiveContributions >= 10) {
-        bonusPoints = 2;
-        milestoneMet = true;
-        progressPercent = 100;
-      } else {
-        progressPercent = (defensiveContributions / 10) * 100;
-      }
-    }
-    // Midfielder/Forward - 12 defensive contributions
-    else if (position === 3 || position === 4) {
-      milestone = 12;
-      if (defensiveContributions >= 12) {
-        bonusPoints = 2;
-        milestoneMet = true;
-        progressPercent = 100;
-      } else {
-        progressPercent = (defensiveContributions / 12) * 100;
-      }
-    }
-
+  // Milestone progress for a player: DefCon for outfielders, saves for goalkeepers
+  const calculateMilestoneData = (player: any, stats: LiveElement['stats']): PlayerDefensiveData => {
+    const progress = getMilestoneProgress(stats, player.element_type, rules);
     return {
       id: player.id,
       player,
       stats,
-      defensiveContributions,
+      defensiveContributions: getDefensiveContributions(stats, player.element_type, rules),
       saves: stats.saves,
-      milestoneMet,
-      bonusPoints,
-      progressPercent,
-      milestone
+      milestoneMet: progress.milestoneMet,
+      bonusPoints: progress.points,
+      progressPercent: progress.progressPercent,
+      milestone: progress.milestone,
     };
   };
 
@@ -307,8 +128,7 @@ export function LiveDefConTracker() {
           const playedInFixture = livePlayer.explain?.some(e => e.fixture === fixture.id);
           if (!playedInFixture) return;
 
-          const defensiveContributions = calculateDefensiveContributions(livePlayer, player.element_type);
-          const milestoneData = calculateMilestoneData(player, livePlayer.stats, defensiveContributions);
+          const milestoneData = calculateMilestoneData(player, livePlayer.stats);
 
           if (player.team === fixture.team_h) {
             homePlayers.push(milestoneData);
@@ -334,7 +154,7 @@ export function LiveDefConTracker() {
   const fixtureDefensiveData = getFixtureDefensiveData();
 
   // Filter by selected team
-  const filteredFixtureData = selectedTeam === 'all'
+  const filteredFixture = selectedTeam === 'all'
     ? fixtureDefensiveData
     : fixtureDefensiveData.filter(fd => 
         fd.fixture.team_h === selectedTeam || fd.fixture.team_a === selectedTeam
@@ -376,7 +196,7 @@ export function LiveDefConTracker() {
     // Home team DefCon
     const homeDefCon = calculateDefCon(
       fd.fixture.team_a_score ?? 0,
-      (fd.fixture.team_a_score === 0 && fd.fixture.started),
+      (fd.fixture.team_a_score === 0 && !!fd.fixture.started),
       fd.fixture.finished
     );
     allTeamDefCons.push(homeDefCon);
@@ -384,7 +204,7 @@ export function LiveDefConTracker() {
     // Away team DefCon
     const awayDefCon = calculateDefCon(
       fd.fixture.team_h_score ?? 0,
-      (fd.fixture.team_h_score === 0 && fd.fixture.started),
+      (fd.fixture.team_h_score === 0 && !!fd.fixture.started),
       fd.fixture.finished
     );
     allTeamDefCons.push(awayDefCon);
@@ -418,7 +238,7 @@ export function LiveDefConTracker() {
               <label className="text-xs sm:text-sm font-medium text-gray-700 mb-2 block">Gameweek</label>
               <select
                 value={gameweek}
-                onChange={(e) => setGameweek(e.target.value)}
+                onChange={(e) => selectGameweek(Number(e.target.value))}
                 className="w-full h-10 px-3 border border-gray-300 rounded-md bg-white text-sm"
               >
                 {Array.from({ length: 38 }, (_, i) => i + 1).map(gw => (
@@ -446,7 +266,7 @@ export function LiveDefConTracker() {
             </div>
             <div className="flex gap-2 items-end">
               <Button
-                onClick={fetchLiveData}
+                onClick={() => refreshGameweek(gameweek)}
                 disabled={loading}
                 className="flex-1 sm:flex-none bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -464,26 +284,10 @@ export function LiveDefConTracker() {
                   </>
                 )}
               </Button>
-              <Button
-                variant={autoRefresh ? 'default' : 'outline'}
-                onClick={() => setAutoRefresh(!autoRefresh)}
-                disabled={!hasLiveFixtures}
-                className="flex-1 sm:flex-none disabled:opacity-50 disabled:cursor-not-allowed"
-                title={!hasLiveFixtures ? "Auto-refresh only available for live fixtures" : ""}
-              >
-                <RefreshCw className="w-4 h-4 mr-2" />
-                <span className="hidden sm:inline">Auto</span>
-              </Button>
             </div>
           </div>
 
-          {lastUpdate && (
-            <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600">
-              <Clock className="w-3 h-3 sm:w-4 sm:h-4" />
-              Last updated: {lastUpdate.toLocaleTimeString()}
-              {autoRefresh && <span className="text-green-600 font-semibold">(Auto-refresh ON)</span>}
-            </div>
-          )}
+          <LiveUpdateStatus entry={live} />
 
           {error && (
             <div className={`flex items-center gap-2 text-xs sm:text-sm rounded-lg p-3 ${
@@ -505,7 +309,10 @@ export function LiveDefConTracker() {
             <div className="flex items-start gap-2">
               <AlertCircle className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5" />
               <div className="text-xs sm:text-sm text-blue-800">
-                <strong>Defensive Milestones:</strong> GK: 3 saves = +1pt, 6 saves = +2pts, 9 saves = +3pts | DEF: 10 contributions = +2pts | MID/FWD: 12 contributions = +2pts
+                <strong>Defensive Milestones:</strong> GK: {rules.scoring.savesPerPoint} saves = +1pt, {rules.scoring.savesPerPoint * 2} saves = +2pts, {rules.scoring.savesPerPoint * 3} saves = +3pts
+                {rules.defcon
+                  ? ` | DEF: ${rules.defcon.threshold[2]} contributions = +${rules.defcon.points}pts | MID/FWD: ${rules.defcon.threshold[3]} contributions = +${rules.defcon.points}pts`
+                  : ` | No defensive contribution points in ${rules.season}`}
               </div>
             </div>
           </div>
@@ -533,9 +340,9 @@ export function LiveDefConTracker() {
       </div>
 
       {/* Fixture Defensive Contributions */}
-      {filteredFixtureData.length > 0 && (
+      {filteredFixture.length > 0 && (
         <div className="space-y-4">
-          {filteredFixtureData.map((fd) => {
+          {filteredFixture.map((fd) => {
             const isExpanded = expandedTeams.has(fd.fixture.id);
             
             return (
@@ -766,7 +573,7 @@ export function LiveDefConTracker() {
         </div>
       )}
 
-      {filteredFixtureData.length === 0 && !loading && (
+      {filteredFixture.length === 0 && !loading && (
         <Card className="p-12">
           <div className="text-center">
             <Shield className="w-16 h-16 text-gray-400 mx-auto mb-4" />
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -8,129 +8,27 @@ import {
   Target,
   Activity,
   Award,
-  Clock,
   AlertCircle,
-  Zap,
   User,
   Shield,
   Trophy
 } from 'lucide-react';
-import { FPLService } from '../utils/corsProxy';
 import { useFPLStore } from '../store/fpl-store';
+import { useLiveGameweek, useLiveGameweekStore, useProvisionalBonus, useSelectedLiveGameweek } from '../store/live-gameweek';
 import { PlayerImage } from './ui/player-image';
-
-interface LivePlayerData {
-  id: number;
-  stats: {
-    minutes: number;
-    goals_scored: number;
-    assists: number;
-    clean_sheets: number;
-    goals_conceded: number;
-    own_goals: number;
-    penalties_saved: number;
-    penalties_missed: number;
-    yellow_cards: number;
-    red_cards: number;
-    saves: number;
-    bonus: number;
-    bps: number;
-    influence: string;
-    creativity: string;
-    threat: string;
-    ict_index: string;
-    total_points: number;
-  };
-  explain: Array<{
-    fixture: number;
-    stats: Array<{
-      identifier: string;
-      points: number;
-      value: number;
-    }>;
-  }>;
-}
+import { LiveUpdateStatus } from './LiveUpdateStatus';
 
 export function LiveGameweekData() {
   const { bootstrap } = useFPLStore();
-  const [gameweek, setGameweek] = useState('28');
-  const [liveData, setLiveData] = useState<LivePlayerData[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [gameweek, selectGameweek] = useSelectedLiveGameweek();
+  const live = useLiveGameweek(gameweek);
+  const refreshGameweek = useLiveGameweekStore(state => state.refreshGameweek);
+  const { elements: liveData, loading, error } = live;
+  const lastUpdate = live.lastUpdate ? new Date(live.lastUpdate) : null;
+  const provisionalBonus = useProvisionalBonus(live);
   const [searchQuery, setSearchQuery] = useState('');
   const [positionFilter, setPositionFilter] = useState<'ALL' | 'GKP' | 'DEF' | 'MID' | 'FWD'>('ALL');
   const [sortBy, setSortBy] = useState<'points' | 'bps' | 'goals' | 'assists'>('points');
-  const [autoRefresh, setAutoRefresh] = useState(false);
-  const [hasLiveFixtures, setHasLiveFixtures] = useState(true);
-  const autoRefreshRef = useRef(autoRefresh);
-  autoRefreshRef.current = autoRefresh;
-  const fetchLiveDataRef = useRef<() => void>(() => {});
-  const retryCountRef = useRef(0);
-  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  useEffect(() => {
-    return () => { if (retryTimerRef.current) clearTimeout(retryTimerRef.current); };
-  }, []);
-
-  const fetchLiveData = useCallback(async () => {
-    setLoading(true);
-
-    try {
-      // Fetch live data and fixtures in parallel, always bypassing cache
-      const [data, allFixtures] = await Promise.all([
-        FPLService.loadLiveGameweek(Number(gameweek)),
-        FPLService.loadFixtures(true),
-      ]);
-
-      setLiveData(data.elements || []);
-
-      const gwFixtures = allFixtures.filter((f: { event: number }) => f.event === Number(gameweek));
-      const anyLive = gwFixtures.some((f: { started: boolean; finished: boolean }) => f.started && !f.finished);
-      setHasLiveFixtures(anyLive);
-
-      // Auto-turn off auto-refresh if no live fixtures
-      if (!anyLive && autoRefreshRef.current) {
-        setAutoRefresh(false);
-      }
-
-      setLastUpdate(new Date());
-      setError('');
-      retryCountRef.current = 0;
-      if (retryTimerRef.current) { clearTimeout(retryTimerRef.current); retryTimerRef.current = null; }
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : 'Failed to load live data';
-      setError(message);
-      const delay = Math.min(10000 * Math.pow(2, retryCountRef.current), 120000);
-      retryCountRef.current++;
-      retryTimerRef.current = setTimeout(() => { fetchLiveDataRef.current(); }, delay);
-    } finally {
-      setLoading(false);
-    }
-  }, [gameweek]);
-
-  // Keep ref in sync so the interval always calls the latest version
-  fetchLiveDataRef.current = fetchLiveData;
-
-  // Auto-refresh every 90 seconds if enabled
-  // Only depends on autoRefresh — checks document.hidden at fire-time to skip
-  // hidden-tab fetches without resetting the 90-second countdown.
-  useEffect(() => {
-    if (!autoRefresh) return;
-
-    const interval = setInterval(() => {
-      if (!document.hidden) {
-        fetchLiveDataRef.current();
-      }
-    }, 90000);
-
-    return () => clearInterval(interval);
-  }, [autoRefresh]);
-
-  // Auto-load when gameweek changes
-  useEffect(() => {
-    fetchLiveData();
-  }, [fetchLiveData]);
 
   // Get player info from bootstrap
   const getPlayerInfo = (playerId: number) => {
@@ -141,7 +39,15 @@ export function LiveGameweekData() {
   const filteredPlayers = liveData
     .map(livePlayer => {
       const player = getPlayerInfo(livePlayer.id);
-      return { ...livePlayer, player };
+      // Bonus FPL hasn't confirmed yet is counted in points but marked provisional
+      const provisional = provisionalBonus.get(livePlayer.id) ?? 0;
+      return {
+        ...livePlayer,
+        player,
+        provisional,
+        bonus: livePlayer.stats.bonus + provisional,
+        points: livePlayer.stats.total_points + provisional,
+      };
     })
     .filter(({ player, stats }) => {
       if (!player) return false;
@@ -172,7 +78,7 @@ export function LiveGameweekData() {
     .sort((a, b) => {
       switch (sortBy) {
         case 'points':
-          return b.stats.total_points - a.stats.total_points;
+          return b.points - a.points;
         case 'bps':
           return b.stats.bps - a.stats.bps;
         case 'goals':
@@ -185,6 +91,8 @@ export function LiveGameweekData() {
     });
 
   const topScorers = filteredPlayers.slice(0, 10);
+  const totalProvisional = filteredPlayers.reduce((sum, p) => sum + p.provisional, 0);
+  const provisionalTitle = 'Provisional bonus from current BPS — confirmed after the match';
 
   return (
     <div className="space-y-4 md:space-y-6">
@@ -207,7 +115,7 @@ export function LiveGameweekData() {
               <label className="text-xs sm:text-sm font-medium text-gray-700 mb-2 block">Gameweek</label>
               <select
                 value={gameweek}
-                onChange={(e) => setGameweek(e.target.value)}
+                onChange={(e) => selectGameweek(Number(e.target.value))}
                 className="w-full h-10 px-3 border border-gray-300 rounded-md bg-white text-sm"
               >
                 {Array.from({ length: 38 }, (_, i) => i + 1).map(gw => (
@@ -219,7 +127,7 @@ export function LiveGameweekData() {
             </div>
             <div className="flex gap-2 items-end">
               <Button
-                onClick={fetchLiveData}
+                onClick={() => refreshGameweek(gameweek)}
                 disabled={loading}
                 className="flex-1 sm:flex-none bg-gradient-to-r from-cyan-600 to-purple-600 hover:from-cyan-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -237,26 +145,10 @@ export function LiveGameweekData() {
                   </>
                 )}
               </Button>
-              <Button
-                variant={autoRefresh ? 'default' : 'outline'}
-                onClick={() => setAutoRefresh(!autoRefresh)}
-                disabled={!hasLiveFixtures}
-                className="flex-1 sm:flex-none disabled:opacity-50 disabled:cursor-not-allowed"
-                title={!hasLiveFixtures ? "Auto-refresh only available for live fixtures" : ""}
-              >
-                <Zap className="w-4 h-4 mr-2" />
-                <span className="hidden sm:inline">Auto</span>
-              </Button>
             </div>
           </div>
 
-          {lastUpdate && (
-            <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600">
-              <Clock className="w-3 h-3 sm:w-4 sm:h-4" />
-              Last updated: {lastUpdate.toLocaleTimeString()}
-              {autoRefresh && <span className="text-green-600 font-semibold">(Auto-refresh ON)</span>}
-            </div>
-          )}
+          <LiveUpdateStatus entry={live} />
 
           {error && (
             <div className={`flex items-center gap-2 text-xs sm:text-sm rounded-lg p-3 border ${
@@ -346,7 +238,7 @@ export function LiveGameweekData() {
           <div className="text-xs sm:text-sm opacity-90">Avg Points</div>
           <div className="text-2xl sm:text-3xl font-bold mt-1">
             {filteredPlayers.length > 0 
-              ? Math.round(filteredPlayers.reduce((sum, p) => sum + p.stats.total_points, 0) / filteredPlayers.length)
+              ? Math.round(filteredPlayers.reduce((sum, p) => sum + p.points, 0) / filteredPlayers.length)
               : 0
             }
           </div>
@@ -360,7 +252,8 @@ export function LiveGameweekData() {
         <Card className="p-3 md:p-4 bg-gradient-to-br from-yellow-500 to-yellow-600 text-white">
           <div className="text-xs sm:text-sm opacity-90">Total Bonus</div>
           <div className="text-2xl sm:text-3xl font-bold mt-1">
-            {filteredPlayers.reduce((sum, p) => sum + p.stats.bonus, 0)}
+            {filteredPlayers.reduce((sum, p) => sum + p.bonus, 0)}
+            {totalProvisional > 0 && <span className="text-sm font-normal opacity-80 ml-1">({totalProvisional} provisional)</span>}
           </div>
         </Card>
       </div>
@@ -387,7 +280,7 @@ export function LiveGameweekData() {
               </tr>
             </thead>
             <tbody>
-              {topScorers.map(({ id, stats, player }) => {
+              {topScorers.map(({ id, stats, player, provisional, bonus, points }) => {
                 if (!player) return null;
                 const team = bootstrap?.teams?.find(t => t.id === player.team);
                 const posMap = { 1: 'GKP', 2: 'DEF', 3: 'MID', 4: 'FWD' };
@@ -433,15 +326,16 @@ export function LiveGameweekData() {
                     </td>
                     <td className="text-center">
                       <span className={`inline-flex items-center justify-center w-8 h-8 rounded-full font-bold ${
-                        stats.bonus > 0 ? 'bg-yellow-100 text-yellow-700' : 'text-gray-400'
-                      }`}>
-                        {stats.bonus}
+                        provisional > 0 ? 'bg-amber-50 text-amber-700 border border-dashed border-amber-400'
+                          : bonus > 0 ? 'bg-yellow-100 text-yellow-700' : 'text-gray-400'
+                      }`} title={provisional > 0 ? provisionalTitle : undefined}>
+                        {bonus}{provisional > 0 && '*'}
                       </span>
                     </td>
                     <td className="text-center text-sm font-semibold text-gray-700">{stats.bps}</td>
                     <td className="text-center">
                       <span className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-gradient-to-br from-cyan-500 to-purple-500 text-white font-bold text-lg">
-                        {stats.total_points}
+                        {points}{provisional > 0 && '*'}
                       </span>
                     </td>
                   </tr>
@@ -453,7 +347,7 @@ export function LiveGameweekData() {
 
         {/* Mobile View */}
         <div className="md:hidden space-y-3">
-          {topScorers.map(({ id, stats, player }) => {
+          {topScorers.map(({ id, stats, player, provisional, bonus, points }) => {
             if (!player) return null;
             const team = bootstrap?.teams?.find(t => t.id === player.team);
             const posMap = { 1: 'GKP', 2: 'DEF', 3: 'MID', 4: 'FWD' };
@@ -474,7 +368,7 @@ export function LiveGameweekData() {
                   </div>
                   <div className="text-right">
                     <div className="text-2xl font-bold bg-gradient-to-br from-cyan-500 to-purple-500 bg-clip-text text-transparent">
-                      {stats.total_points}
+                      {points}{provisional > 0 && '*'}
                     </div>
                     <div className="text-xs text-gray-500">points</div>
                   </div>
@@ -494,8 +388,11 @@ export function LiveGameweekData() {
                     <div className="text-xs text-gray-500">Assists</div>
                   </div>
                   <div className="text-center">
-                    <div className={`text-lg font-bold ${stats.bonus > 0 ? 'text-yellow-600' : 'text-gray-400'}`}>
-                      {stats.bonus}
+                    <div
+                      className={`text-lg font-bold ${provisional > 0 ? 'text-amber-600' : bonus > 0 ? 'text-yellow-600' : 'text-gray-400'}`}
+                      title={provisional > 0 ? provisionalTitle : undefined}
+                    >
+                      {bonus}{provisional > 0 && '*'}
                     </div>
                     <div className="text-xs text-gray-500">Bonus</div>
                   </div>
@@ -509,6 +406,12 @@ export function LiveGameweekData() {
           })}
         </div>
 
+        {totalProvisional > 0 && (
+          <p className="mt-3 text-xs text-amber-700">
+            * Includes provisional bonus from current BPS standings. FPL confirms bonus after each match.
+          </p>
+        )}
+
         {filteredPlayers.length === 0 && !loading && (
           <div className="text-center py-12">
             <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-3" />
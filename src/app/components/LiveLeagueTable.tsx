@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronUp, Loader2, Trophy, TrendingDown, TrendingUp } from 'lucide-react';
+import { useFPLStore } from '../store/fpl-store';
+import { useLiveGameweekStore } from '../store/live-gameweek';
+import { useLiveLeagueTable } from '../store/live-league';
+import { chipLabel } from '../utils/fplRules';
+import type { LeagueLiveManager } from '../utils/liveLeague';
+import type { LiveElement, Player } from '../types/fpl';
+import { SquadPlayerRow, type SquadPlayer } from './SquadPlayerRow';
+
+const formatNumber = (num: number) => new Intl.NumberFormat('en-US').format(num);
+
+function RankMovement({ rank, lastRank }: { rank: number; lastRank: number }) {
+  if (lastRank === 0) return null;
+  const change = lastRank - rank;
+  if (change === 0) return <span className="text-gray-400 text-sm">—</span>;
+  return change > 0 ? (
+    <span className="flex items-center gap-0.5 text-green-600 text-sm font-semibold" title={`Up from #${lastRank}`}>
+      <TrendingUp className="w-4 h-4" />{change}
+    </span>
+  ) : (
+    <span className="flex items-center gap-0.5 text-red-600 text-sm font-semibold" title={`Down from #${lastRank}`}>
+      <TrendingDown className="w-4 h-4" />{-change}
+    </span>
+  );
+}
+
+function rivalSquad(manager: LeagueLiveManager, playersById: Map<number, Player>, liveElements: LiveElement[]): SquadPlayer[] {
+  const minutesById = new Map(liveElements.map(el => [el.id, el.stats.minutes] as const));
+  return manager.picks.map(pick => {
+    const player = playersById.get(pick.element);
+    return {
+      element: pick.element,
+      position: pick.position,
+      multiplier: pick.multiplier,
+      is_captain: pick.is_captain,
+      is_vice_captain: pick.is_vice_captain,
+      web_name: player?.web_name ?? `Player ${pick.element}`,
+      element_type: player?.element_type ?? 0,
+      code: player?.code ?? 0,
+      team_code: player?.team_code ?? 0,
+      livePoints: pick.points,
+      provisionalBonus: pick.provisional_bonus,
+      effectivePoints: pick.points * pick.multiplier,
+      minutes: minutesById.get(pick.element) ?? 0,
+      isAutoSubbed: pick.auto_sub === 'in',
+      isSubbedOut: pick.auto_sub === 'out',
+    };
+  });
+}
+
+function RivalTeam({ manager, gameweek }: { manager: LeagueLiveManager; gameweek: number }) {
+  const playersById = useFPLStore(state => state.playersById);
+  const liveElements = useLiveGameweekStore(state => state.entries[gameweek]?.elements);
+  const squad = rivalSquad(manager, playersById, liveElements ?? []);
+
+  return (
+    <div className="grid md:grid-cols-2 gap-3 p-3 bg-gray-50 rounded-lg">
+      <div>
+        <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Starting XI</div>
+        <div className="space-y-1">
+          {squad
+            .filter(p => p.position <= 11)
+            .sort((a, b) => a.element_type - b.element_type || a.position - b.position)
+            .map(player => <SquadPlayerRow key={player.element} player={player} />)}
+        </div>
+      </div>
+      <div>
+        <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Bench</div>
+        <div className="space-y-1">
+          {squad
+            .filter(p => p.position >= 12)
+            .sort((a, b) => a.position - b.position)
+            .map(player => <SquadPlayerRow key={player.element} player={player} />)}
+        </div>
+        {manager.transfer_cost > 0 && (
+          <div className="mt-2 text-xs text-red-600">Transfer cost: -{manager.transfer_cost} pts</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A classic league re-ranked on live gameweek points, with each rival's live
+ * team one click away. Ranks move as the shared live poller updates; large
+ * leagues are scored down to a cut-off, which the table states.
+ */
+export function LiveLeagueTable({ leagueId, gameweek, userEntry }: { leagueId: number; gameweek: number; userEntry: number }) {
+  const entry = useLiveLeagueTable(leagueId, gameweek);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const table = entry?.table ?? null;
+  const cutOffRank = entry?.cutOffRank ?? null;
+
+  if (!table) {
+    if (entry?.status === 'error') {
+      return (
+        <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          Couldn't build the live table: {entry.error}
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-600">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading every member's team...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        <span>
+          Live GW{table.gameweek} points with auto-subs, captaincy, chips, hits and provisional bonus ·
+          updated {new Date(table.computed_at).toLocaleTimeString()}
+        </span>
+        {entry?.status === 'loading' && <Loader2 className="w-3 h-3 animate-spin" />}
+        {entry?.status === 'error' && (
+          <span className="text-amber-700">Update failed — showing the last table</span>
+        )}
+      </div>
+      {cutOffRank !== null && (
+        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+          Large league: live ranks cover the top {formatNumber(table.managers.length)} managers, down to
+          #{formatNumber(cutOffRank)} in the official table. Managers below the cut-off aren't scored
+          {!table.managers.some(manager => manager.entry === userEntry) && ", and that includes you"}.
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        <div className="hidden sm:grid grid-cols-[4rem_3.5rem_1fr_5rem_6rem_1.5rem] gap-2 px-3 py-2 text-xs font-semibold text-gray-600">
+          <span>Rank</span>
+          <span>Move</span>
+          <span>Manager</span>
+          <span className="text-center">GW{table.gameweek}</span>
+          <span className="text-right">Total</span>
+          <span />
+        </div>
+        {table.managers.map(manager => {
+          const isCurrentUser = manager.entry === userEntry;
+          const isExpanded = expanded === manager.entry;
+          return (
+            <div key={manager.entry} className={isCurrentUser ? 'bg-gradient-to-r from-purple-50 to-pink-50' : ''}>
+              <button
+                onClick={() => setExpanded(isExpanded ? null : manager.entry)}
+                className="w-full grid grid-cols-[3rem_3rem_1fr_auto] sm:grid-cols-[4rem_3.5rem_1fr_5rem_6rem_1.5rem] gap-2 items-center px-3 py-3 text-left hover:bg-gray-50"
+                aria-expanded={isExpanded}
+              >
+                <span className={`flex items-center gap-1 font-bold ${isCurrentUser ? 'text-purple-600' : 'text-gray-900'}`}>
+                  #{manager.rank}
+                  {manager.rank <= 3 && (
+                    <Trophy className={`w-4 h-4 ${manager.rank === 1 ? 'text-yellow-500' : manager.rank === 2 ? 'text-gray-400' : 'text-orange-400'}`} />
+                  )}
+                </span>
+                <RankMovement rank={manager.rank} lastRank={manager.last_rank} />
+                <span className="min-w-0">
+                  <span className={`block truncate text-sm font-semibold ${isCurrentUser ? 'text-purple-600' : 'text-gray-900'}`}>
+                    {manager.entry_name}
+                    {isCurrentUser && <span className="ml-2 text-xs">(You)</span>}
+                  </span>
+                  <span className="block truncate text-xs text-gray-600">
+                    {manager.player_name}
+                    {manager.active_chip && (
+                      <span className="ml-2 bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded font-bold">{chipLabel(manager.active_chip)}</span>
+                    )}
+                    {manager.transfer_cost > 0 && <span className="ml-2 text-red-600">-{manager.transfer_cost}</span>}
+                  </span>
+                </span>
+                <span className="hidden sm:block text-center">
+                  <span className="inline-block bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-sm font-bold">
+                    {manager.live_points}
+                  </span>
+                </span>
+                <span className="text-right text-sm font-bold text-gray-700">
+                  <span className="sm:hidden text-blue-700 mr-2">{manager.live_points}</span>
+                  {formatNumber(manager.live_total)}
+                </span>
+                <span className="hidden sm:block text-gray-400">
+                  {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </span>
+              </button>
+              {isExpanded && (
+                <div className="px-3 pb-3">
+                  <RivalTeam manager={manager} gameweek={table.gameweek} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
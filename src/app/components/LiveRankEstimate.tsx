@@ -0,0 +1,112 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { AlertCircle, Loader2, TrendingDown, TrendingUp } from 'lucide-react';
+import { useLiveRankEstimate } from '../store/live-rank';
+
+const formatNumber = (num: number) => new Intl.NumberFormat('en-US').format(num);
+
+const formatCompact = (num: number) =>
+  new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(num);
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDayTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+interface LiveRankEstimateProps {
+  entry: number;
+  gameweek: number;
+  liveTotal: number; // season total including live gameweek points
+  officialRank: number | null; // null before the manager's first gameweek
+}
+
+/**
+ * Estimated live overall rank with its 90% band and how it has moved over the
+ * gameweek, for the live rank tracker's overall view.
+ */
+export function LiveRankEstimate({ entry, gameweek, liveTotal, officialRank }: LiveRankEstimateProps) {
+  const { estimate, sample, trajectory } = useLiveRankEstimate(entry, gameweek, liveTotal);
+
+  if (!estimate) {
+    if (sample?.status === 'error' || (sample?.status === 'ready' && !sample.sample?.strata.some(s => s.totals.length))) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-xl p-4">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          Couldn't estimate a live rank{sample.error ? `: ${sample.error}` : ' — no managers could be sampled'}
+        </div>
+      );
+    }
+    return (
+      <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-600 bg-white border-2 border-gray-200 rounded-xl">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Sampling the overall league...
+      </div>
+    );
+  }
+
+  const change = officialRank ? officialRank - estimate.rank : 0;
+  const strata = sample?.sample?.strata.filter(stratum => stratum.totals.length > 0) ?? [];
+  const sampled = strata.reduce((sum, stratum) => sum + stratum.totals.length, 0);
+  const smallestStratum = Math.min(...strata.map(stratum => stratum.totals.length));
+  const chartData = trajectory.map(point => ({ ...point, label: formatTime(point.at) }));
+
+  return (
+    <div className="bg-white border-2 border-gray-200 rounded-xl p-4 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <div className="text-xs sm:text-sm text-gray-600 mb-1">Estimated Live Rank</div>
+          <div className="flex items-center gap-3">
+            <span className="text-2xl sm:text-3xl font-black text-gray-900">{formatNumber(estimate.rank)}</span>
+            {change !== 0 && (
+              <span className={`flex items-center gap-1 text-sm font-semibold ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {change > 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                {formatCompact(Math.abs(change))}
+              </span>
+            )}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            90% range {formatNumber(estimate.best)} – {formatNumber(estimate.worst)} · {formatNumber(sampled)} managers
+            sampled across {strata.length} rank bands (at least {smallestStratum} per band)
+          </div>
+        </div>
+        <div className="text-xs text-gray-500 sm:text-right">
+          {officialRank !== null && <div>Last official: {formatNumber(officialRank)}</div>}
+          <div>Live total: {formatNumber(liveTotal)} pts</div>
+          <div className="flex items-center gap-1 sm:justify-end">
+            {sample?.status === 'loading' && <Loader2 className="w-3 h-3 animate-spin" />}
+            {sample?.sample && `Sampled at ${formatTime(new Date(sample.sample.computed_at).getTime())}`}
+          </div>
+        </div>
+      </div>
+
+      {chartData.length >= 2 ? (
+        <div>
+          <div className="text-xs font-semibold text-gray-600 mb-2">GW{gameweek} rank trajectory</div>
+          <ResponsiveContainer width="100%" height={180}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="label" tick={{ fill: '#6b7280', fontSize: 10 }} />
+              <YAxis reversed domain={['auto', 'auto']} tickFormatter={formatCompact} tick={{ fill: '#6b7280', fontSize: 10 }} width={48} />
+              <Tooltip
+                labelFormatter={(_label, payload) => (payload?.[0] ? formatDayTime(payload[0].payload.at) : '')}
+                formatter={(value: number, name: string) => [formatNumber(value), name]}
+              />
+              <Line type="monotone" dataKey="worst" name="Worst (90%)" stroke="#c4b5fd" strokeDasharray="4 4" dot={false} />
+              <Line type="monotone" dataKey="best" name="Best (90%)" stroke="#c4b5fd" strokeDasharray="4 4" dot={false} />
+              <Line type="monotone" dataKey="rank" name="Estimated rank" stroke="#7c3aed" strokeWidth={2} dot={chartData.length <= 20} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">The rank trajectory fills in as the gameweek's live updates come through.</p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Estimated by scoring managers sampled across the overall league on live points. The range allows for the
+        sample's size, so it is wider where a rank band had fewer managers scored. FPL publishes the real rank once
+        the gameweek's points are processed.
+      </p>
+    </div>
+  );
+}
@@ -1,142 +1,49 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { useFPLStore } from '../store/fpl-store';
-import { FPLService } from '../utils/corsProxy';
+import { useLiveGameweek, useLiveGameweekStore } from '../store/live-gameweek';
+import { FPLService, shareCardUrl } from '../utils/corsProxy';
+import { calculateSquadPoints } from '../utils/fplScoring';
+import { getSeasonRules, type SeasonRules } from '../utils/fplRules';
+import { buildLivePlayerInputs, type LivePlayerInputs } from '../utils/liveLeague';
+import {
+  emptyStandingsPages,
+  findEntry,
+  loadEntryPage,
+  loadStandingsPage,
+  nextPageToLoad,
+  standingsRows,
+  STANDINGS_PAGE_SIZE,
+  type StandingsPages,
+  type StandingsRow,
+} from '../utils/leagueStandings';
 import { TrendingUp, TrendingDown, Trophy, Users, Target, AlertCircle, Loader2, ArrowUpDown, ArrowUp, ArrowDown, RefreshCw, Lock, Zap, Activity } from 'lucide-react';
-import { PlayerImage } from './ui/player-image';
+import { SquadPlayerRow, type SquadPlayer } from './SquadPlayerRow';
+import { LiveLeagueTable } from './LiveLeagueTable';
+import { LiveRankEstimate } from './LiveRankEstimate';
+import { RankThreatPanel } from './RankThreatPanel';
+import { TwitterShareButton } from './TwitterShareButton';
 import xLogo from '../../assets/logo.jpg';
+import type { ManagerEntry, EntryPicks, Player } from '../types/fpl';
 
-interface TeamInfo {
-  id: number;
-  player_first_name: string;
-  player_last_name: string;
-  name: string;
-  summary_overall_points: number;
-  summary_overall_rank: number;
-  current_event: number;
-  leagues: {
-    classic: Array<{
-      id: number;
-      name: string;
-      short_name: string;
-      entry_rank: number;
-      entry_last_rank: number;
-      league_type: string; // 'x' for private, 's' for public
-    }>;
-  };
-}
-
-interface LiveTeamData {
-  active_chip: string | null;
-  entry_history: {
-    event: number;
-    points: number;
-    total_points: number;
-    rank: number;
-    overall_rank: number;
-    bank: number;
-    value: number;
-    event_transfers: number;
-    event_transfers_cost: number;
-  };
-  picks: Array<{
-    element: number;
-    position: number;
-    multiplier: number;
-    is_captain: boolean;
-    is_vice_captain: boolean;
-  }>;
-}
-
-interface LeagueStanding {
-  id: number;
-  event_total: number;
-  player_name: string;
-  rank: number;
-  last_rank: number;
-  rank_sort: number;
-  total: number;
-  entry: number;
-  entry_name: string;
-}
-
-interface LeagueData {
-  league: {
-    id: number;
-    name: string;
-  };
-  standings: {
-    has_next: boolean;
-    page: number;
-    results: LeagueStanding[];
-  };
-}
-
-interface LivePlayerStats {
-  total_points: number;
-  minutes: number;
-  bonus: number;
-  bps: number;
-  goals_scored: number;
-  assists: number;
-  clean_sheets: number;
-  yellow_cards: number;
-  red_cards: number;
-  saves: number;
-}
-
-interface LiveGWElement {
-  id: number;
-  stats: LivePlayerStats;
-}
-
-interface LiveGWData {
-  elements: LiveGWElement[];
-}
-
-interface SquadPlayer {
-  element: number;
-  position: number;
-  multiplier: number;
-  is_captain: boolean;
-  is_vice_captain: boolean;
-  web_name: string;
-  element_type: number;
-  code: number;
-  team_code: number;
-  livePoints: number;
-  effectivePoints: number;
-  minutes: number;
-  isAutoSubbed: boolean;
-  isSubbedOut: boolean;
-}
-
-type PositionKey = 'DEF' | 'MID' | 'FWD';
-const MIN_FORMATION: Record<PositionKey, number> = { DEF: 3, MID: 2, FWD: 1 };
-
-function getPositionKey(elementType: number): PositionKey {
-  if (elementType === 2) return 'DEF';
-  if (elementType === 3) return 'MID';
-  return 'FWD';
-}
-
+// Scored from the same inputs as the live league table (utils/liveLeague), so
+// the manager's own row there always matches this squad
 function calculateLiveSquad(
-  picks: LiveTeamData['picks'],
-  liveElements: LiveGWElement[],
-  bootstrapElements: Array<{ id: number; web_name: string; element_type: number; code: number; team_code: number }>,
+  picks: EntryPicks['picks'],
+  inputs: LivePlayerInputs,
+  bootstrapElements: Player[],
   transferCost: number,
-  activeChip: string | null
-): { squad: SquadPlayer[]; totalPoints: number } {
-  const liveMap = new Map<number, LiveGWElement>();
-  for (const el of liveElements) liveMap.set(el.id, el);
-
-  const playerMap = new Map<number, (typeof bootstrapElements)[0]>();
+  activeChip: string | null,
+  rules: SeasonRules
+): { squad: SquadPlayer[]; totalPoints: number; provisionalPoints: number } {
+  const playerMap = new Map<number, Player>();
   for (const p of bootstrapElements) playerMap.set(p.id, p);
 
-  const enriched: SquadPlayer[] = picks.map(pick => {
-    const live = liveMap.get(pick.element);
+  const { provisionalBonus } = inputs;
+  const { picks: scored, totalPoints } = calculateSquadPoints(picks, inputs.players, { activeChip, transferCost, rules });
+  const squad: SquadPlayer[] = scored.map(({ points, ...pick }) => {
     const player = playerMap.get(pick.element);
     return {
       ...pick,
@@ -144,189 +51,34 @@ function calculateLiveSquad(
       element_type: player?.element_type ?? 0,
       code: player?.code ?? 0,
       team_code: player?.team_code ?? 0,
-      livePoints: live?.stats.total_points ?? 0,
-      effectivePoints: 0,
-      minutes: live?.stats.minutes ?? 0,
-      isAutoSubbed: false,
-      isSubbedOut: false,
+      livePoints: points,
+      provisionalBonus: provisionalBonus.get(pick.element) ?? 0,
     };
   });
 
-  const isBenchBoost = activeChip === 'bboost';
-
-  if (!isBenchBoost) {
-    // GKP auto-sub
-    const startingGKP = enriched.find(p => p.position <= 11 && p.element_type === 1);
-    const benchGKP = enriched.find(p => p.position >= 12 && p.element_type === 1);
-    if (startingGKP && startingGKP.minutes === 0 && benchGKP && benchGKP.minutes > 0) {
-      startingGKP.isSubbedOut = true;
-      benchGKP.isAutoSubbed = true;
-      benchGKP.multiplier = 1;
-    }
-
-    // Outfield auto-subs
-    const outfieldBench = enriched
-      .filter(p => p.position >= 12 && p.element_type !== 1)
-      .sort((a, b) => a.position - b.position);
-
-    const outfieldStartersZeroMin = enriched
-      .filter(p => p.position <= 11 && p.element_type !== 1 && p.minutes === 0)
-      .sort((a, b) => a.position - b.position);
-
-    // Count formation of starters who ARE playing
-    const formationCount: Record<PositionKey, number> = { DEF: 0, MID: 0, FWD: 0 };
-    for (const p of enriched) {
-      if (p.position <= 11 && p.element_type !== 1 && p.minutes > 0) {
-        formationCount[getPositionKey(p.element_type)]++;
-      }
-    }
-
-    let benchIdx = 0;
-    for (const starter of outfieldStartersZeroMin) {
-      while (benchIdx < outfieldBench.length) {
-        const sub = outfieldBench[benchIdx];
-        if (sub.minutes === 0 || sub.isAutoSubbed) {
-          benchIdx++;
-          continue;
-        }
-
-        const subPos = getPositionKey(sub.element_type);
-        const testFormation = { ...formationCount };
-        testFormation[subPos]++;
-
-        if (testFormation.DEF >= MIN_FORMATION.DEF &&
-          testFormation.MID >= MIN_FORMATION.MID &&
-          testFormation.FWD >= MIN_FORMATION.FWD) {
-          starter.isSubbedOut = true;
-          sub.isAutoSubbed = true;
-          sub.multiplier = 1;
-          formationCount[subPos]++;
-          benchIdx++;
-          break;
-        }
-        benchIdx++;
-      }
-    }
-  }
-
-  // Captain failover
-  const captain = enriched.find(p => p.is_captain);
-  const viceCaptain = enriched.find(p => p.is_vice_captain);
-  if (captain && captain.minutes === 0 && captain.isSubbedOut) {
-    captain.multiplier = 0;
-    if (viceCaptain && (viceCaptain.minutes > 0 || viceCaptain.isAutoSubbed)) {
-      viceCaptain.multiplier = 2;
-    }
-  }
-
-  // Bench boost: all 15 players count
-  if (isBenchBoost) {
-    for (const p of enriched) {
-      if (p.multiplier === 0) p.multiplier = 1;
-    }
-  }
-
-  // Calculate effective points
-  for (const p of enriched) {
-    if (p.isSubbedOut) {
-      p.effectivePoints = 0;
-      p.multiplier = 0;
-    } else {
-      p.effectivePoints = p.livePoints * p.multiplier;
-    }
-  }
-
-  const activeSquad = enriched.filter(p => !p.isSubbedOut);
-  const totalPoints = activeSquad.reduce((sum, p) => sum + p.effectivePoints, 0) - transferCost;
-
-  return { squad: enriched, totalPoints };
-}
-
-const POSITION_LABELS: Record<number, string> = { 1: 'GKP', 2: 'DEF', 3: 'MID', 4: 'FWD' };
-const POSITION_COLORS: Record<number, string> = {
-  1: 'bg-yellow-100 text-yellow-700',
-  2: 'bg-green-100 text-green-700',
-  3: 'bg-blue-100 text-blue-700',
-  4: 'bg-red-100 text-red-700',
-};
-
-function SquadPlayerRow({ player }: { player: SquadPlayer }) {
-  const isBench = player.position >= 12;
-  const isDimmed = (isBench && !player.isAutoSubbed) || player.isSubbedOut;
-
-  return (
-    <div className={`flex items-center gap-2 sm:gap-3 p-2 rounded-lg ${player.isAutoSubbed ? 'bg-green-50 border border-green-200' :
-      player.isSubbedOut ? 'bg-gray-50' :
-        'bg-white border border-gray-100'
-      } ${isDimmed ? 'opacity-50' : ''}`}>
-      <div className="w-7 h-7 rounded-full overflow-hidden flex-shrink-0">
-        <PlayerImage
-          code={player.code}
-          teamCode={player.team_code}
-          alt={player.web_name}
-          photoSize="40x40"
-          className="w-full h-full"
-        />
-      </div>
-      <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${POSITION_COLORS[player.element_type] || ''}`}>
-        {POSITION_LABELS[player.element_type] || '?'}
-      </span>
-      <span className="flex-1 text-sm font-medium text-gray-900 truncate">
-        {player.web_name}
-        {player.is_captain && <span className="ml-1 text-xs text-purple-600 font-bold">(C)</span>}
-        {player.is_vice_captain && <span className="ml-1 text-xs text-gray-500 font-bold">(V)</span>}
-      </span>
-      {player.isAutoSubbed && (
-        <span className="text-[10px] bg-green-600 text-white px-1.5 py-0.5 rounded font-bold flex-shrink-0">IN</span>
-      )}
-      {player.isSubbedOut && (
-        <span className="text-[10px] bg-gray-400 text-white px-1.5 py-0.5 rounded font-bold flex-shrink-0">OUT</span>
-      )}
-      <div className="text-right min-w-[40px] flex-shrink-0">
-        <div className="text-sm font-bold text-gray-900">{player.effectivePoints}</div>
-        {player.multiplier >= 2 && (
-          <div className="text-[10px] text-purple-600">x{player.multiplier}</div>
-        )}
-      </div>
-    </div>
-  );
+  // Provisional bonus as it counts towards the total (captaincy, bench)
+  const provisionalPoints = squad.reduce((sum, p) => sum + p.provisionalBonus * p.multiplier, 0);
+  return { squad, totalPoints, provisionalPoints };
 }
 
 type SortColumn = 'rank' | 'total' | 'event_total';
 type SortDirection = 'asc' | 'desc';
 
 export function LiveRankTracker() {
-  const { bootstrap, fetchBootstrapData } = useFPLStore();
+  const { bootstrap, currentSeason, fetchBootstrapData } = useFPLStore();
   const [teamId, setTeamId] = useState('');
   const [savedTeamId, setSavedTeamId] = useState('');
-  const [teamInfo, setTeamInfo] = useState<TeamInfo | null>(null);
-  const [liveData, setLiveData] = useState<LiveTeamData | null>(null);
+  const [teamInfo, setTeamInfo] = useState<ManagerEntry | null>(null);
+  const [liveData, setLiveData] = useState<EntryPicks | null>(null);
   const [selectedLeague, setSelectedLeague] = useState<number | 'overall' | null>(null);
-  const [leagueData, setLeagueData] = useState<LeagueData | null>(null);
+  const [leagueData, setLeagueData] = useState<StandingsPages | null>(null);
+  const [loadingMoreStandings, setLoadingMoreStandings] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [sortColumn, setSortColumn] = useState<SortColumn>('rank');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [refreshing, setRefreshing] = useState(false);
-
-  // Live points state
-  const [liveSquad, setLiveSquad] = useState<SquadPlayer[]>([]);
-  const [livePointsTotal, setLivePointsTotal] = useState<number | null>(null);
-  const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(false);
-  const [lastLiveUpdate, setLastLiveUpdate] = useState<Date | null>(null);
-  const [hasLiveFixtures, setHasLiveFixtures] = useState(false);
-
-  // Refs for auto-refresh
-  const autoRefreshRef = useRef(autoRefreshEnabled);
-  autoRefreshRef.current = autoRefreshEnabled;
-  const fetchLiveRef = useRef<() => void>(() => { });
-  const retryCountRef = useRef(0);
-  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const [liveError, setLiveError] = useState('');
-
-  useEffect(() => {
-    return () => { if (retryTimerRef.current) clearTimeout(retryTimerRef.current); };
-  }, []);
+  const [leagueView, setLeagueView] = useState<'official' | 'live'>('official');
 
   useEffect(() => {
     if (!bootstrap) {
@@ -346,6 +98,25 @@ export function LiveRankTracker() {
 
   const currentGW = bootstrap?.events.find(e => e.is_current)?.id || 1;
 
+  // Live points from the shared live gameweek poller, once picks are loaded
+  const live = useLiveGameweek(liveData && bootstrap ? currentGW : null);
+  const refreshLiveGameweek = useLiveGameweekStore(state => state.refreshGameweek);
+  const lastLiveUpdate = live.lastUpdate ? new Date(live.lastUpdate) : null;
+  const { squad: liveSquad, totalPoints: livePointsTotal, provisionalPoints } = useMemo(() => {
+    if (!liveData || !bootstrap || live.elements.length === 0) {
+      return { squad: [] as SquadPlayer[], totalPoints: null, provisionalPoints: 0 };
+    }
+    const rules = getSeasonRules(currentSeason);
+    return calculateLiveSquad(
+      liveData.picks,
+      buildLivePlayerInputs(bootstrap.elements, live.elements, live.fixtures, rules),
+      bootstrap.elements,
+      liveData.entry_history.event_transfers_cost,
+      liveData.active_chip,
+      rules
+    );
+  }, [liveData, bootstrap, live.elements, live.fixtures, currentSeason]);
+
   const fetchTeamData = async (id: string, forceRefresh = false) => {
     if (!id || id.trim() === '') {
       setError('Please enter a valid Team ID');
@@ -357,12 +128,12 @@ export function LiveRankTracker() {
 
     try {
       // Fetch team info using CORS proxy (force refresh to get latest rank)
-      const teamData: TeamInfo = await FPLService.loadManager(parseInt(id), forceRefresh);
+      const teamData = await FPLService.loadManager(parseInt(id), forceRefresh);
       setTeamInfo(teamData);
 
       // Fetch live gameweek data using CORS proxy
       try {
-        const liveTeamData: LiveTeamData = await FPLService.loadManagerTeam(parseInt(id), currentGW, forceRefresh);
+        const liveTeamData = await FPLService.loadManagerTeam(parseInt(id), currentGW, forceRefresh);
         setLiveData(liveTeamData);
       } catch (_liveErr: unknown) {
         // Continue without live data
@@ -388,8 +159,14 @@ export function LiveRankTracker() {
     setError('');
 
     try {
-      const data: LeagueData = await FPLService.loadLeagueStandings(leagueId, forceRefresh);
-      setLeagueData(data);
+      let pages = await loadStandingsPage(emptyStandingsPages(leagueId), 1, forceRefresh);
+      // In a big public league the user's row can be thousands of places down —
+      // jump straight to their page using the rank from their entry
+      const summary = teamInfo?.leagues.classic.find(league => league.id === leagueId);
+      if (teamInfo && summary && !findEntry(pages, teamInfo.id)) {
+        pages = await loadEntryPage(pages, teamInfo.id, summary.entry_rank, forceRefresh);
+      }
+      setLeagueData(pages);
     } catch (_err: unknown) {
       setError('Failed to fetch league standings. Please try again.');
       setLeagueData(null);
@@ -398,6 +175,23 @@ export function LiveRankTracker() {
     }
   };
 
+  const loadMoreStandings = async () => {
+    if (!leagueData) return;
+    const page = nextPageToLoad(leagueData);
+    if (page === null) return;
+
+    setLoadingMoreStandings(true);
+    try {
+      const pages = await loadStandingsPage(leagueData, page);
+      // Ignore the result if another league was picked meanwhile
+      setLeagueData(current => (current?.leagueId === pages.leagueId ? pages : current));
+    } catch (_err: unknown) {
+      setError('Failed to load more standings. Please try again.');
+    } finally {
+      setLoadingMoreStandings(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     fetchTeamData(teamId);
@@ -417,7 +211,7 @@ export function LiveRankTracker() {
       setRefreshing(true);
       fetchTeamData(savedTeamId, true).finally(() => {
         setRefreshing(false);
-        fetchLiveRef.current();
+        refreshLiveGameweek(currentGW);
         if (selectedLeague && selectedLeague !== 'overall') {
           fetchLeagueStandings(selectedLeague, true);
         }
@@ -425,68 +219,6 @@ export function LiveRankTracker() {
     }
   };
 
-  // Live data fetching
-  const fetchLiveData = useCallback(async () => {
-    if (!liveData || !bootstrap) return;
-
-    try {
-      const [gwLiveData, allFixtures]: [LiveGWData, Array<{ event: number; started: boolean; finished: boolean }>] = await Promise.all([
-        FPLService.loadLiveGameweek(currentGW),
-        FPLService.loadFixtures(true),
-      ]);
-
-      const gwFixtures = allFixtures.filter(f => f.event === currentGW);
-      const anyLive = gwFixtures.some(f => f.started && !f.finished);
-      setHasLiveFixtures(anyLive);
-
-      const { squad, totalPoints } = calculateLiveSquad(
-        liveData.picks,
-        gwLiveData.elements,
-        bootstrap.elements,
-        liveData.entry_history.event_transfers_cost,
-        liveData.active_chip
-      );
-      setLiveSquad(squad);
-      setLivePointsTotal(totalPoints);
-      setLastLiveUpdate(new Date());
-      setLiveError('');
-      retryCountRef.current = 0;
-      if (retryTimerRef.current) { clearTimeout(retryTimerRef.current); retryTimerRef.current = null; }
-
-      if (!anyLive && autoRefreshRef.current) {
-        setAutoRefreshEnabled(false);
-      }
-    } catch (_err: unknown) {
-      const message = _err instanceof Error ? _err.message : 'Failed to load live data';
-      setLiveError(message);
-      const delay = Math.min(10000 * Math.pow(2, retryCountRef.current), 120000);
-      retryCountRef.current++;
-      retryTimerRef.current = setTimeout(() => { fetchLiveRef.current(); }, delay);
-    }
-  }, [liveData, bootstrap, currentGW]);
-
-  fetchLiveRef.current = fetchLiveData;
-
-  // Trigger live data fetch when picks are available
-  useEffect(() => {
-    if (liveData && bootstrap) {
-      fetchLiveData();
-    }
-  }, [liveData, bootstrap, fetchLiveData]);
-
-  // Auto-refresh every 90 seconds
-  useEffect(() => {
-    if (!autoRefreshEnabled) return;
-
-    const interval = setInterval(() => {
-      if (!document.hidden) {
-        fetchLiveRef.current();
-      }
-    }, 90000);
-
-    return () => clearInterval(interval);
-  }, [autoRefreshEnabled]);
-
   const handleSort = (column: SortColumn) => {
     if (sortColumn === column) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -496,7 +228,10 @@ export function LiveRankTracker() {
     }
   };
 
-  const sortedStandings = leagueData?.standings?.results ? [...leagueData.standings.results].sort((a, b) => {
+  const loadedStandings = leagueData
+    ? standingsRows(leagueData).flatMap(row => (row.kind === 'standing' ? [row.standing] : []))
+    : [];
+  const sortedStandings = [...loadedStandings].sort((a, b) => {
     const multiplier = sortDirection === 'asc' ? 1 : -1;
     switch (sortColumn) {
       case 'rank':
@@ -508,7 +243,14 @@ export function LiveRankTracker() {
       default:
         return 0;
     }
-  }) : [];
+  });
+  // Rank order keeps the gaps between non-adjacent pages visible
+  const standingRows: StandingsRow[] = leagueData && sortColumn === 'rank' && sortDirection === 'asc'
+    ? standingsRows(leagueData)
+    : sortedStandings.map(standing => ({ kind: 'standing', standing }));
+  const nextStandingsPage = leagueData ? nextPageToLoad(leagueData) : null;
+  const gapLabel = (row: Extract<StandingsRow, { kind: 'gap' }>) =>
+    `Ranks ${row.afterPage * STANDINGS_PAGE_SIZE + 1}–${(row.beforePage - 1) * STANDINGS_PAGE_SIZE} not loaded`;
 
   const SortIcon = ({ column }: { column: SortColumn }) => {
     if (sortColumn !== column) {
@@ -527,7 +269,8 @@ export function LiveRankTracker() {
     return { icon: <TrendingDown className="w-4 h-4" />, color: 'text-red-600', text: `${change}` };
   };
 
-  const formatNumber = (num: number) => {
+  const formatNumber = (num: number | null) => {
+    if (num === null) return '-';
     return new Intl.NumberFormat('en-US').format(num);
   };
 
@@ -655,6 +398,11 @@ export function LiveRankTracker() {
                       {livePointsTotal !== null ? (
                         <>
                           <span className="text-green-300">{livePointsTotal}</span>
+                          {provisionalPoints > 0 && (
+                            <span className="text-[10px] text-amber-200 block mt-0.5">
+                              incl. {provisionalPoints} provisional bonus
+                            </span>
+                          )}
                           {liveData.entry_history.points > 0 && livePointsTotal !== liveData.entry_history.points && (
                             <span className="text-[10px] opacity-70 block mt-0.5">
                               history: {liveData.entry_history.points}
@@ -678,101 +426,131 @@ export function LiveRankTracker() {
                 </>
               )}
             </div>
+
+            <div className="mt-4 flex justify-center">
+              <TwitterShareButton
+                text={`${teamInfo.name} — GW${currentGW}${livePointsTotal !== null ? `: ${livePointsTotal} pts` : ''}`}
+                url={shareCardUrl('gw', { entry: teamInfo.id, gw: currentGW })}
+                label="Share my gameweek"
+                className="text-xs sm:text-sm"
+              />
+            </div>
           </Card>
 
-          {/* Your Squad — Live Points */}
+          {/* Your Squad — Live Points, with who is moving your rank */}
           {liveSquad.length > 0 && (
-            <Card className="p-4 md:p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-base sm:text-lg font-bold text-gray-900 flex items-center gap-2">
-                  <Zap className="w-5 h-5 text-yellow-500" />
-                  Your Squad — Live Points
-                </h3>
-                <div className="flex items-center gap-2">
-                  {hasLiveFixtures && (
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setAutoRefreshEnabled(!autoRefreshEnabled)}
-                      className={autoRefreshEnabled ? 'border-green-500 text-green-600' : ''}
-                    >
-                      <Activity className="w-4 h-4 mr-1" />
-                      <span className="hidden sm:inline">{autoRefreshEnabled ? 'Auto ON' : 'Auto OFF'}</span>
+            <div className="grid gap-4 md:gap-6 xl:grid-cols-2 xl:items-start">
+              <Card className="p-4 md:p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-base sm:text-lg font-bold text-gray-900 flex items-center gap-2">
+                    <Zap className="w-5 h-5 text-yellow-500" />
+                    Your Squad — Live Points
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    {teamInfo && (
+                      <TwitterShareButton
+                        text={`${teamInfo.name} — GW${currentGW} squad`}
+                        url={shareCardUrl('squad', { entry: teamInfo.id, gw: currentGW })}
+                        label="Share squad"
+                        className="h-8 px-2 text-xs"
+                      />
+                    )}
+                    {live.status === 'live' && (
+                      <span className="inline-flex items-center gap-1 text-xs font-semibold text-green-600" title="Updating every 90 seconds while matches are in play">
+                        <Activity className="w-4 h-4" />
+                        <span className="hidden sm:inline">Live</span>
+                      </span>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => refreshLiveGameweek(currentGW)}>
+                      <RefreshCw className="w-4 h-4" />
                     </Button>
-                  )}
-                  <Button variant="outline" size="sm" onClick={() => fetchLiveRef.current()}>
-                    <RefreshCw className="w-4 h-4" />
-                  </Button>
+                  </div>
                 </div>
-              </div>
 
-              {/* Live error / retry banner */}
-              {liveError && (
-                <div className={`flex items-center gap-2 text-xs sm:text-sm rounded-lg p-3 border mb-4 ${
-                  liveSquad.length > 0
-                    ? 'text-amber-700 bg-amber-50 border-amber-200'
-                    : 'text-red-600 bg-red-50 border-red-200'
-                }`}>
-                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
-                  <span className="flex-1">
-                    {liveSquad.length > 0
-                      ? `Connection issue — retrying... (showing data from ${lastLiveUpdate?.toLocaleTimeString() ?? 'earlier'})`
-                      : liveError}
-                  </span>
-                  {liveSquad.length > 0 && <RefreshCw className="w-4 h-4 animate-spin flex-shrink-0" />}
-                </div>
-              )}
+                {/* Live error / retry banner */}
+                {live.error && (
+                  <div className={`flex items-center gap-2 text-xs sm:text-sm rounded-lg p-3 border mb-4 ${
+                    liveSquad.length > 0
+                      ? 'text-amber-700 bg-amber-50 border-amber-200'
+                      : 'text-red-600 bg-red-50 border-red-200'
+                  }`}>
+                    <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                    <span className="flex-1">
+                      {liveSquad.length > 0
+                        ? `Connection issue — retrying... (showing data from ${lastLiveUpdate?.toLocaleTimeString() ?? 'earlier'})`
+                        : live.error}
+                    </span>
+                    {liveSquad.length > 0 && <RefreshCw className="w-4 h-4 animate-spin flex-shrink-0" />}
+                  </div>
+                )}
 
-              {/* Transfer cost banner */}
-              {liveData && liveData.entry_history.event_transfers_cost > 0 && (
-                <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-4 text-sm text-red-700">
-                  Transfer cost: -{liveData.entry_history.event_transfers_cost} pts
-                </div>
-              )}
+                {/* Transfer cost banner */}
+                {liveData && liveData.entry_history.event_transfers_cost > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-4 text-sm text-red-700">
+                    Transfer cost: -{liveData.entry_history.event_transfers_cost} pts
+                  </div>
+                )}
 
-              {/* Active chip banner */}
-              {liveData?.active_chip && (
-                <div className="bg-purple-50 border border-purple-200 rounded-lg px-3 py-2 mb-4 text-sm text-purple-700 font-semibold">
-                  Active chip: {liveData.active_chip.toUpperCase()}
-                </div>
-              )}
+                {/* Active chip banner */}
+                {liveData?.active_chip && (
+                  <div className="bg-purple-50 border border-purple-200 rounded-lg px-3 py-2 mb-4 text-sm text-purple-700 font-semibold">
+                    Active chip: {liveData.active_chip.toUpperCase()}
+                  </div>
+                )}
 
-              {/* Starting XI */}
-              <div className="mb-3">
-                <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Starting XI</div>
-                <div className="space-y-1">
-                  {liveSquad
-                    .filter(p => p.position <= 11)
-                    .sort((a, b) => a.element_type - b.element_type || a.position - b.position)
-                    .map(player => (
-                      <SquadPlayerRow key={player.element} player={player} />
-                    ))
-                  }
+                {/* Starting XI */}
+                <div className="mb-3">
+                  <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Starting XI</div>
+                  <div className="space-y-1">
+                    {liveSquad
+                      .filter(p => p.position <= 11)
+                      .sort((a, b) => a.element_type - b.element_type || a.position - b.position)
+                      .map(player => (
+                        <SquadPlayerRow key={player.element} player={player} />
+                      ))
+                    }
+                  </div>
                 </div>
-              </div>
 
-              {/* Bench */}
-              <div>
-                <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Bench</div>
-                <div className="space-y-1">
-                  {liveSquad
-                    .filter(p => p.position >= 12)
-                    .sort((a, b) => a.position - b.position)
-                    .map(player => (
-                      <SquadPlayerRow key={player.element} player={player} />
-                    ))
-                  }
+                {/* Bench */}
+                <div>
+                  <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">Bench</div>
+                  <div className="space-y-1">
+                    {liveSquad
+                      .filter(p => p.position >= 12)
+                      .sort((a, b) => a.position - b.position)
+                      .map(player => (
+                        <SquadPlayerRow key={player.element} player={player} />
+                      ))
+                    }
+                  </div>
                 </div>
-              </div>
 
-              {/* Total */}
-              <div className="mt-4 pt-3 border-t-2 border-gray-200 flex items-center justify-between">
-                <span className="font-bold text-gray-900">Live Total</span>
-                <span className="text-2xl font-black bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
-                  {livePointsTotal} pts
-                </span>
-              </div>
-            </Card>
+                {/* Total */}
+                <div className="mt-4 pt-3 border-t-2 border-gray-200 flex items-center justify-between">
+                  <span className="font-bold text-gray-900">Live Total</span>
+                  <span className="text-2xl font-black bg-gradient-to-r from-purple-600 to-pink-600 bg-clip-text text-transparent">
+                    {livePointsTotal} pts
+                  </span>
+                </div>
+                {provisionalPoints > 0 && (
+                  <p className="mt-1 text-xs text-amber-700 text-right">
+                    * Includes {provisionalPoints} provisional bonus from current BPS, confirmed after each match
+                  </p>
+                )}
+              </Card>
+
+              <RankThreatPanel
+                // Remount on a new league selection so the panel follows it
+                key={String(selectedLeague)}
+                entry={teamInfo.id}
+                gameweek={currentGW}
+                picks={liveSquad}
+                leagues={teamInfo.leagues.classic}
+                overallRank={teamInfo.summary_overall_rank}
+                initialLeague={typeof selectedLeague === 'number' ? selectedLeague : null}
+              />
+            </div>
           )}
 
           {/* League Selection */}
@@ -900,6 +678,16 @@ export function LiveRankTracker() {
                   </div>
                 </div>
 
+                {liveData && livePointsTotal !== null && (
+                  <LiveRankEstimate
+                    entry={teamInfo.id}
+                    gameweek={currentGW}
+                    liveTotal={liveData.entry_history.total_points - liveData.entry_history.points
+                      + liveData.entry_history.event_transfers_cost + livePointsTotal}
+                    officialRank={teamInfo.summary_overall_rank}
+                  />
+                )}
+
                 {/* Gameweek Performance */}
                 {liveData && (
                   <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
@@ -907,7 +695,12 @@ export function LiveRankTracker() {
                       <div className="text-xs sm:text-sm text-gray-600 mb-2">GW{currentGW} Points</div>
                       <div className="text-xl sm:text-2xl font-black text-gray-900">
                         {livePointsTotal !== null ? (
-                          <span className="text-green-600">{livePointsTotal}</span>
+                          <>
+                            <span className="text-green-600">{livePointsTotal}</span>
+                            {provisionalPoints > 0 && (
+                              <span className="block text-xs font-normal text-amber-700">incl. {provisionalPoints} provisional bonus</span>
+                            )}
+                          </>
                         ) : (
                           liveData.entry_history.points
                         )}
@@ -938,175 +731,220 @@ export function LiveRankTracker() {
           )}
 
           {/* League Standings Table */}
-          {selectedLeague !== 'overall' && leagueData && leagueData.standings && leagueData.standings.results && (
+          {selectedLeague !== 'overall' && leagueData && leagueData.league && (
             <Card className="p-3 sm:p-4 md:p-6">
-              <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4 flex items-center gap-2">
-                <Users className="w-5 h-5 text-blue-600" />
-                {leagueData.league?.name || 'League Standings'}
-              </h3>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3 sm:mb-4">
+                <h3 className="text-base sm:text-lg font-bold text-gray-900 flex items-center gap-2">
+                  <Users className="w-5 h-5 text-blue-600" />
+                  {leagueData.league?.name || 'League Standings'}
+                </h3>
+                <div className="flex gap-1">
+                  <Button
+                    variant={leagueView === 'live' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setLeagueView('live')}
+                    className="text-xs"
+                  >
+                    <Activity className="w-3 h-3 mr-1" />
+                    Live
+                  </Button>
+                  <Button
+                    variant={leagueView === 'official' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setLeagueView('official')}
+                    className="text-xs"
+                  >
+                    Official
+                  </Button>
+                </div>
+              </div>
 
-              {/* Desktop/Tablet View */}
-              <div className="hidden md:block overflow-x-auto">
-                <table className="w-full">
-                  <thead className="border-b-2 border-gray-200">
-                    <tr className="text-left text-sm text-gray-600">
-                      <th
-                        className="pb-3 font-semibold cursor-pointer hover:bg-gray-50"
-                        onClick={() => handleSort('rank')}
-                      >
-                        <div className="flex items-center">
-                          Rank
-                          <SortIcon column="rank" />
-                        </div>
-                      </th>
-                      <th className="pb-3 font-semibold">Manager</th>
-                      <th className="pb-3 font-semibold">Team Name</th>
-                      <th
-                        className="pb-3 font-semibold text-center cursor-pointer hover:bg-gray-50"
-                        onClick={() => handleSort('event_total')}
-                      >
-                        <div className="flex items-center justify-center">
-                          GW{currentGW} Points
-                          <SortIcon column="event_total" />
-                        </div>
-                      </th>
-                      <th
-                        className="pb-3 font-semibold text-center cursor-pointer hover:bg-gray-50"
-                        onClick={() => handleSort('total')}
-                      >
-                        <div className="flex items-center justify-center">
-                          Total Points
-                          <SortIcon column="total" />
-                        </div>
-                      </th>
-                      <th className="pb-3 font-semibold text-center">Movement</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {sortedStandings.map((standing) => {
+              {leagueView === 'live' ? (
+                <LiveLeagueTable leagueId={leagueData.league.id} gameweek={currentGW} userEntry={teamInfo.id} />
+              ) : (
+                <>
+                  {/* Desktop/Tablet View */}
+                  <div className="hidden md:block overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="border-b-2 border-gray-200">
+                        <tr className="text-left text-sm text-gray-600">
+                          <th
+                            className="pb-3 font-semibold cursor-pointer hover:bg-gray-50"
+                            onClick={() => handleSort('rank')}
+                          >
+                            <div className="flex items-center">
+                              Rank
+                              <SortIcon column="rank" />
+                            </div>
+                          </th>
+                          <th className="pb-3 font-semibold">Manager</th>
+                          <th className="pb-3 font-semibold">Team Name</th>
+                          <th
+                            className="pb-3 font-semibold text-center cursor-pointer hover:bg-gray-50"
+                            onClick={() => handleSort('event_total')}
+                          >
+                            <div className="flex items-center justify-center">
+                              GW{currentGW} Points
+                              <SortIcon column="event_total" />
+                            </div>
+                          </th>
+                          <th
+                            className="pb-3 font-semibold text-center cursor-pointer hover:bg-gray-50"
+                            onClick={() => handleSort('total')}
+                          >
+                            <div className="flex items-center justify-center">
+                              Total Points
+                              <SortIcon column="total" />
+                            </div>
+                          </th>
+                          <th className="pb-3 font-semibold text-center">Movement</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {standingRows.map((row) => {
+                          if (row.kind === 'gap') {
+                            return (
+                              <tr key={`gap-${row.afterPage}`} className="border-b border-gray-100">
+                                <td colSpan={6} className="py-2 text-center text-xs text-gray-500">⋯ {gapLabel(row)} ⋯</td>
+                              </tr>
+                            );
+                          }
+                          const { standing } = row;
+                          const isCurrentUser = standing.entry === teamInfo.id;
+                          const rankChange = getRankChange(standing.rank, standing.last_rank);
+
+                          return (
+                            <tr
+                              key={standing.entry}
+                              className={`border-b border-gray-100 transition-colors ${isCurrentUser ? 'bg-gradient-to-r from-purple-50 to-pink-50 font-bold' : 'hover:bg-gray-50'
+                                }`}
+                            >
+                              <td className="py-3">
+                                <div className="flex items-center gap-2">
+                                  <span className={isCurrentUser ? 'text-purple-600 font-black' : 'text-gray-900'}>
+                                    #{standing.rank}
+                                  </span>
+                                  {standing.rank <= 3 && (
+                                    <Trophy className={`w-4 h-4 ${standing.rank === 1 ? 'text-yellow-500' : standing.rank === 2 ? 'text-gray-400' : 'text-orange-400'}`} />
+                                  )}
+                                </div>
+                              </td>
+                              <td className="py-3">
+                                <div className={isCurrentUser ? 'text-purple-600' : 'text-gray-900'}>
+                                  {standing.player_name}
+                                  {isCurrentUser && <span className="ml-2 text-xs">(You)</span>}
+                                </div>
+                              </td>
+                              <td className="py-3">
+                                <div className={isCurrentUser ? 'text-purple-600' : 'text-gray-700'}>
+                                  {standing.entry_name}
+                                </div>
+                              </td>
+                              <td className="py-3 text-center">
+                                <span className="inline-block bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-sm font-bold">
+                                  {standing.event_total}
+                                </span>
+                              </td>
+                              <td className="py-3 text-center">
+                                <span className={`inline-block px-3 py-1 rounded-full text-sm font-bold ${isCurrentUser ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700'
+                                  }`}>
+                                  {formatNumber(standing.total)}
+                                </span>
+                              </td>
+                              <td className="py-3 text-center">
+                                {rankChange && (
+                                  <div className={`flex items-center justify-center gap-1 ${rankChange.color}`}>
+                                    {rankChange.icon}
+                                    <span className="text-sm font-semibold">{rankChange.text}</span>
+                                  </div>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {/* Mobile View */}
+                  <div className="md:hidden space-y-3">
+                    {standingRows.map((row) => {
+                      if (row.kind === 'gap') {
+                        return (
+                          <div key={`gap-${row.afterPage}`} className="py-1 text-center text-xs text-gray-500">⋯ {gapLabel(row)} ⋯</div>
+                        );
+                      }
+                      const { standing } = row;
                       const isCurrentUser = standing.entry === teamInfo.id;
                       const rankChange = getRankChange(standing.rank, standing.last_rank);
 
                       return (
-                        <tr
+                        <div
                           key={standing.entry}
-                          className={`border-b border-gray-100 transition-colors ${isCurrentUser ? 'bg-gradient-to-r from-purple-50 to-pink-50 font-bold' : 'hover:bg-gray-50'
+                          className={`p-4 rounded-lg border-2 ${isCurrentUser
+                            ? 'bg-gradient-to-br from-purple-50 to-pink-50 border-purple-300'
+                            : 'bg-white border-gray-200'
                             }`}
                         >
-                          <td className="py-3">
+                          {/* Header Row */}
+                          <div className="flex items-center justify-between mb-3">
                             <div className="flex items-center gap-2">
-                              <span className={isCurrentUser ? 'text-purple-600 font-black' : 'text-gray-900'}>
+                              <span className={`text-lg font-black ${isCurrentUser ? 'text-purple-600' : 'text-gray-900'}`}>
                                 #{standing.rank}
                               </span>
                               {standing.rank <= 3 && (
                                 <Trophy className={`w-4 h-4 ${standing.rank === 1 ? 'text-yellow-500' : standing.rank === 2 ? 'text-gray-400' : 'text-orange-400'}`} />
                               )}
+                              {isCurrentUser && (
+                                <span className="text-xs bg-purple-600 text-white px-2 py-0.5 rounded-full font-bold">YOU</span>
+                              )}
                             </div>
-                          </td>
-                          <td className="py-3">
-                            <div className={isCurrentUser ? 'text-purple-600' : 'text-gray-900'}>
-                              {standing.player_name}
-                              {isCurrentUser && <span className="ml-2 text-xs">(You)</span>}
-                            </div>
-                          </td>
-                          <td className="py-3">
-                            <div className={isCurrentUser ? 'text-purple-600' : 'text-gray-700'}>
-                              {standing.entry_name}
-                            </div>
-                          </td>
-                          <td className="py-3 text-center">
-                            <span className="inline-block bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-sm font-bold">
-                              {standing.event_total}
-                            </span>
-                          </td>
-                          <td className="py-3 text-center">
-                            <span className={`inline-block px-3 py-1 rounded-full text-sm font-bold ${isCurrentUser ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700'
-                              }`}>
-                              {formatNumber(standing.total)}
-                            </span>
-                          </td>
-                          <td className="py-3 text-center">
                             {rankChange && (
-                              <div className={`flex items-center justify-center gap-1 ${rankChange.color}`}>
+                              <div className={`flex items-center gap-1 ${rankChange.color}`}>
                                 {rankChange.icon}
-                                <span className="text-sm font-semibold">{rankChange.text}</span>
+                                <span className="text-xs font-semibold">{rankChange.text}</span>
                               </div>
                             )}
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
-              </div>
-
-              {/* Mobile View */}
-              <div className="md:hidden space-y-3">
-                {sortedStandings.map((standing) => {
-                  const isCurrentUser = standing.entry === teamInfo.id;
-                  const rankChange = getRankChange(standing.rank, standing.last_rank);
-
-                  return (
-                    <div
-                      key={standing.entry}
-                      className={`p-4 rounded-lg border-2 ${isCurrentUser
-                        ? 'bg-gradient-to-br from-purple-50 to-pink-50 border-purple-300'
-                        : 'bg-white border-gray-200'
-                        }`}
-                    >
-                      {/* Header Row */}
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="flex items-center gap-2">
-                          <span className={`text-lg font-black ${isCurrentUser ? 'text-purple-600' : 'text-gray-900'}`}>
-                            #{standing.rank}
-                          </span>
-                          {standing.rank <= 3 && (
-                            <Trophy className={`w-4 h-4 ${standing.rank === 1 ? 'text-yellow-500' : standing.rank === 2 ? 'text-gray-400' : 'text-orange-400'}`} />
-                          )}
-                          {isCurrentUser && (
-                            <span className="text-xs bg-purple-600 text-white px-2 py-0.5 rounded-full font-bold">YOU</span>
-                          )}
-                        </div>
-                        {rankChange && (
-                          <div className={`flex items-center gap-1 ${rankChange.color}`}>
-                            {rankChange.icon}
-                            <span className="text-xs font-semibold">{rankChange.text}</span>
                           </div>
-                        )}
-                      </div>
 
-                      {/* Manager Info */}
-                      <div className="mb-3">
-                        <div className={`font-bold text-sm ${isCurrentUser ? 'text-purple-600' : 'text-gray-900'}`}>
-                          {standing.player_name}
-                        </div>
-                        <div className={`text-xs ${isCurrentUser ? 'text-purple-600' : 'text-gray-600'}`}>
-                          {standing.entry_name}
-                        </div>
-                      </div>
+                          {/* Manager Info */}
+                          <div className="mb-3">
+                            <div className={`font-bold text-sm ${isCurrentUser ? 'text-purple-600' : 'text-gray-900'}`}>
+                              {standing.player_name}
+                            </div>
+                            <div className={`text-xs ${isCurrentUser ? 'text-purple-600' : 'text-gray-600'}`}>
+                              {standing.entry_name}
+                            </div>
+                          </div>
 
-                      {/* Stats Grid */}
-                      <div className="grid grid-cols-2 gap-2">
-                        <div className="bg-blue-50 rounded-lg p-2 text-center">
-                          <div className="text-xs text-gray-600 mb-1">GW{currentGW}</div>
-                          <div className="text-sm font-bold text-blue-700">{standing.event_total} pts</div>
-                        </div>
-                        <div className={`rounded-lg p-2 text-center ${isCurrentUser ? 'bg-purple-100' : 'bg-gray-100'}`}>
-                          <div className="text-xs text-gray-600 mb-1">Total</div>
-                          <div className={`text-sm font-bold ${isCurrentUser ? 'text-purple-700' : 'text-gray-700'}`}>
-                            {formatNumber(standing.total)} pts
+                          {/* Stats Grid */}
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="bg-blue-50 rounded-lg p-2 text-center">
+                              <div className="text-xs text-gray-600 mb-1">GW{currentGW}</div>
+                              <div className="text-sm font-bold text-blue-700">{standing.event_total} pts</div>
+                            </div>
+                            <div className={`rounded-lg p-2 text-center ${isCurrentUser ? 'bg-purple-100' : 'bg-gray-100'}`}>
+                              <div className="text-xs text-gray-600 mb-1">Total</div>
+                              <div className={`text-sm font-bold ${isCurrentUser ? 'text-purple-700' : 'text-gray-700'}`}>
+                                {formatNumber(standing.total)} pts
+                              </div>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
+                      );
+                    })}
+                  </div>
 
-              {leagueData.standings.has_next && (
-                <div className="mt-4 text-center">
-                  <p className="text-sm text-gray-600">Showing page {leagueData.standings.page} of standings</p>
-                </div>
+                  {nextStandingsPage !== null && (
+                    <div className="mt-4 flex flex-col items-center gap-2">
+                      <p className="text-sm text-gray-600">Showing {formatNumber(loadedStandings.length)} managers</p>
+                      <Button variant="outline" size="sm" onClick={loadMoreStandings} disabled={loadingMoreStandings}>
+                        {loadingMoreStandings && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Load next {STANDINGS_PAGE_SIZE}
+                      </Button>
+                    </div>
+                  )}
+                </>
               )}
             </Card>
           )}
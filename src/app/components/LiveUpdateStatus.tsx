@@ -0,0 +1,39 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { LIVE_POLL_INTERVAL, type LiveGameweekEntry } from '../store/live-gameweek';
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+function statusLabel(entry: LiveGameweekEntry): { text: string; className: string } | null {
+  switch (entry.status) {
+    case 'live':
+      return { text: `Live — updating every ${LIVE_POLL_INTERVAL / 1000}s`, className: 'text-green-600 font-semibold' };
+    case 'waiting':
+      return entry.nextPollAt
+        ? { text: `No matches in play — next update ${formatTime(entry.nextPollAt)}`, className: 'text-gray-500' }
+        : null;
+    case 'finished':
+      return { text: 'All matches finished', className: 'text-gray-500' };
+    case 'paused':
+      return { text: 'Paused while this tab is hidden', className: 'text-amber-600' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * "Last updated" line for the live pages, with what the shared poller is doing.
+ */
+export function LiveUpdateStatus({ entry }: { entry: LiveGameweekEntry }) {
+  if (!entry.lastUpdate) return null;
+  const label = statusLabel(entry);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-600">
+      <Clock className="w-3 h-3 sm:w-4 sm:h-4" />
+      Last updated: {new Date(entry.lastUpdate).toLocaleTimeString()}
+      {label && <span className={label.className}>({label.text})</span>}
+    </div>
+  );
+}
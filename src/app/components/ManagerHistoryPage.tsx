@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  ComposedChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { AlertCircle, Loader2, History, Trophy, TrendingUp, Wallet, Zap, Scissors } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { useFPLStore } from '../store/fpl-store';
+import { FPLService } from '../utils/corsProxy';
+import { fplCache } from '../utils/persistentCache';
+import { chipLabel } from '../utils/fplRules';
+import type { ManagerEntry, EntryHistory } from '../types/fpl';
+
+// Same key LiveRankTracker saves the user's team ID under
+const TEAM_ID_KEY = 'fpl_team_id';
+
+function formatNumber(num: number | null | undefined): string {
+  if (num === null || num === undefined) return '-';
+  return num.toLocaleString();
+}
+
+function formatRankTick(rank: number): string {
+  if (rank >= 1000000) return `${(rank / 1000000).toFixed(1)}M`;
+  if (rank >= 1000) return `${Math.round(rank / 1000)}k`;
+  return String(rank);
+}
+
+interface ChartCardProps {
+  title: string;
+  icon: React.ElementType;
+  children: React.ReactElement;
+}
+
+function ChartCard({ title, icon: Icon, children }: ChartCardProps) {
+  return (
+    <Card className="p-4 sm:p-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4 flex items-center gap-2">
+        <Icon className="w-5 h-5 text-purple-600" />
+        {title}
+      </h3>
+      <ResponsiveContainer width="100%" height={240}>
+        {children}
+      </ResponsiveContainer>
+    </Card>
+  );
+}
+
+export function ManagerHistoryPage() {
+  const { events } = useFPLStore();
+  const [teamId, setTeamId] = useState('');
+  const [manager, setManager] = useState<ManagerEntry | null>(null);
+  const [history, setHistory] = useState<EntryHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const averageByEvent = useMemo(() => {
+    const map = new Map<number, number>();
+    for (const event of events) {
+      if (event.average_entry_score !== undefined) map.set(event.id, event.average_entry_score);
+    }
+    return map;
+  }, [events]);
+
+  const chipsByEvent = useMemo(() => {
+    const map = new Map<number, string>();
+    for (const chip of history?.chips ?? []) map.set(chip.event, chipLabel(chip.name));
+    return map;
+  }, [history]);
+
+  const chartData = useMemo(() => {
+    if (!history) return [];
+    return history.current.map(gw => ({
+      gw: `GW${gw.event}`,
+      points: gw.points,
+      average: averageByEvent.get(gw.event) ?? null,
+      overallRank: gw.overall_rank,
+      value: gw.value / 10,
+      bank: gw.bank / 10,
+      hits: gw.event_transfers_cost > 0 ? -gw.event_transfers_cost : 0,
+      transfers: gw.event_transfers,
+      chip: chipsByEvent.get(gw.event) ?? null,
+    }));
+  }, [history, averageByEvent, chipsByEvent]);
+
+  const totals = useMemo(() => {
+    if (!history || history.current.length === 0) return null;
+    const latest = history.current[history.current.length - 1];
+    const ranks = history.current.map(gw => gw.overall_rank).filter((r): r is number => r !== null);
+    return {
+      totalPoints: latest.total_points,
+      overallRank: latest.overall_rank,
+      bestRank: ranks.length > 0 ? Math.min(...ranks) : null,
+      bestGw: history.current.reduce((best, gw) => (gw.points > best.points ? gw : best), history.current[0]),
+      hitCost: history.current.reduce((sum, gw) => sum + gw.event_transfers_cost, 0),
+      benchPoints: history.current.reduce((sum, gw) => sum + gw.points_on_bench, 0),
+    };
+  }, [history]);
+
+  const fetchHistory = async (id: string) => {
+    const managerId = parseInt(id);
+    if (!managerId) {
+      setError('Please enter a valid Team ID');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const [entryResult, historyResult] = await Promise.all([
+        fplCache.getOrFetch(`entry:${managerId}`, 'entry', () => FPLService.loadManager(managerId)),
+        fplCache.getOrFetch(`entry-history:${managerId}`, 'entry', () => FPLService.loadManagerHistory(managerId)),
+      ]);
+      setManager(entryResult.data);
+      setHistory(historyResult.data);
+      localStorage.setItem(TEAM_ID_KEY, String(managerId));
+    } catch (_err: unknown) {
+      setError('Team not found. Please check your Team ID and try again.');
+      setManager(null);
+      setHistory(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Default to the team ID saved by the Live Rank Tracker
+    const saved = localStorage.getItem(TEAM_ID_KEY);
+    if (saved) {
+      setTeamId(saved);
+      fetchHistory(saved);
+    }
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchHistory(teamId.trim());
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">Manager History</h2>
+        <p className="text-sm sm:text-base text-gray-600">Season-by-season and gameweek-by-gameweek record for any FPL team</p>
+      </div>
+
+      {/* Team ID Input */}
+      <Card className="p-4 md:p-6 bg-gradient-to-r from-purple-50 to-pink-50 border-2 border-purple-200">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <label className="text-sm font-medium text-gray-700 block">FPL Team ID</label>
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+            <Input
+              type="text"
+              value={teamId}
+              onChange={(e) => setTeamId(e.target.value)}
+              placeholder="e.g., 123456"
+              className="flex-1 h-10 sm:h-12 text-sm sm:text-base"
+            />
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white h-10 sm:h-12 px-4 sm:px-6"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                <>
+                  <History className="w-4 h-4 mr-2" />
+                  Load History
+                </>
+              )}
+            </Button>
+          </div>
+          {error && (
+            <div className="flex items-center gap-2 text-xs sm:text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </form>
+      </Card>
+
+      {manager && history && (
+        <>
+          {/* Summary */}
+          <Card className="p-4 sm:p-6 bg-gradient-to-br from-purple-600 via-purple-500 to-blue-500 text-white">
+            <div className="text-lg sm:text-2xl font-black">{manager.name}</div>
+            <div className="text-sm text-purple-100 mb-4">
+              {manager.player_first_name} {manager.player_last_name}
+            </div>
+            {totals && (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                <div>
+                  <div className="text-xs text-purple-200">Total Points</div>
+                  <div className="text-xl sm:text-2xl font-bold">{formatNumber(totals.totalPoints)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-purple-200">Overall Rank</div>
+                  <div className="text-xl sm:text-2xl font-bold">{formatNumber(totals.overallRank)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-purple-200">Best Rank</div>
+                  <div className="text-xl sm:text-2xl font-bold">{formatNumber(totals.bestRank)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-purple-200">Best Gameweek</div>
+                  <div className="text-xl sm:text-2xl font-bold">
+                    {totals.bestGw.points} <span className="text-sm font-normal">(GW{totals.bestGw.event})</span>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-purple-200">Hits Taken</div>
+                  <div className="text-xl sm:text-2xl font-bold">-{totals.hitCost}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-purple-200">Points on Bench</div>
+                  <div className="text-xl sm:text-2xl font-bold">{totals.benchPoints}</div>
+                </div>
+              </div>
+            )}
+          </Card>
+
+          {chartData.length === 0 ? (
+            <Card className="p-8 text-center text-sm text-gray-500">No gameweeks played yet this season</Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+              <ChartCard title="Gameweek Points" icon={Zap}>
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+                  <YAxis tick={{ fill: '#6b7280', fontSize: 10 }} allowDecimals={false} />
+                  <Tooltip
+                    labelFormatter={(label, payload) => {
+                      const chip = payload?.[0]?.payload?.chip;
+                      return chip ? `${label} · ${chip}` : label;
+                    }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar dataKey="points" name="Points" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                  <Line type="monotone" dataKey="average" name="GW Average" stroke="#9ca3af" strokeDasharray="4 4" dot={false} />
+                </ComposedChart>
+              </ChartCard>
+
+              <ChartCard title="Overall Rank" icon={Trophy}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+                  <YAxis
+                    reversed
+                    scale="log"
+                    domain={['auto', 'auto']}
+                    tickFormatter={formatRankTick}
+                    tick={{ fill: '#6b7280', fontSize: 10 }}
+                  />
+                  <Tooltip formatter={(value: number) => formatNumber(value)} />
+                  <Line type="monotone" dataKey="overallRank" name="Overall Rank" stroke="#22c55e" strokeWidth={2} connectNulls />
+                </LineChart>
+              </ChartCard>
+
+              <ChartCard title="Team Value & Bank" icon={Wallet}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+                  <YAxis yAxisId="value" domain={['auto', 'auto']} tick={{ fill: '#6b7280', fontSize: 10 }} />
+                  <YAxis yAxisId="bank" orientation="right" tick={{ fill: '#6b7280', fontSize: 10 }} />
+                  <Tooltip formatter={(value: number) => `£${value.toFixed(1)}m`} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Line yAxisId="value" type="monotone" dataKey="value" name="Team Value" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                  <Line yAxisId="bank" type="stepAfter" dataKey="bank" name="Bank" stroke="#eab308" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartCard>
+
+              <ChartCard title="Transfer Hits" icon={Scissors}>
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+                  <YAxis tick={{ fill: '#6b7280', fontSize: 10 }} allowDecimals={false} />
+                  <Tooltip
+                    formatter={(value: number, _name, item) => [`${value} (${item?.payload?.transfers ?? 0} transfers)`, 'Hit']}
+                  />
+                  <ReferenceLine y={0} stroke="#9ca3af" />
+                  <Bar dataKey="hits" name="Hit" fill="#ef4444" radius={[0, 0, 4, 4]} />
+                </BarChart>
+              </ChartCard>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            {/* Chips */}
+            <Card className="p-4 sm:p-6">
+              <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4 flex items-center gap-2">
+                <Zap className="w-5 h-5 text-purple-600" />
+                Chips Played
+              </h3>
+              {history.chips.length === 0 ? (
+                <p className="text-sm text-gray-500">No chips played yet this season</p>
+              ) : (
+                <div className="space-y-2">
+                  {history.chips.map(chip => {
+                    const gw = history.current.find(h => h.event === chip.event);
+                    return (
+                      <div key={`${chip.name}-${chip.event}`} className="flex items-center justify-between bg-purple-50 rounded-lg px-3 py-2">
+                        <span className="font-semibold text-purple-800 text-sm">{chipLabel(chip.name)}</span>
+                        <span className="text-xs sm:text-sm text-gray-600">
+                          GW{chip.event}{gw ? ` · ${gw.points} pts` : ''}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </Card>
+
+            {/* Past Seasons */}
+            <Card className="p-4 sm:p-6">
+              <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4 flex items-center gap-2">
+                <TrendingUp className="w-5 h-5 text-purple-600" />
+                Past Seasons
+              </h3>
+              {history.past.length === 0 ? (
+                <p className="text-sm text-gray-500">No previous seasons</p>
+              ) : (
+                <table className="w-full text-xs sm:text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr className="text-gray-500 uppercase tracking-wider text-[10px] sm:text-xs">
+                      <th className="px-3 py-2 text-left font-medium">Season</th>
+                      <th className="px-3 py-2 text-center font-medium">Points</th>
+                      <th className="px-3 py-2 text-right font-medium">Rank</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {[...history.past].reverse().map(season => (
+                      <tr key={season.season_name}>
+                        <td className="px-3 py-2 font-semibold text-gray-900">{season.season_name}</td>
+                        <td className="px-3 py-2 text-center font-bold text-purple-600">{season.total_points}</td>
+                        <td className="px-3 py-2 text-right">{formatNumber(season.rank)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
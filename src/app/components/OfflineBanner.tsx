@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { WifiOff } from 'lucide-react';
+import { useFPLStore } from '../store/fpl-store';
+import { formatDataAge } from '../utils/dataAge';
+
+/**
+ * Shown while the browser is offline, with the age of the data on screen.
+ */
+export function OfflineBanner() {
+  const { dataSource } = useFPLStore();
+  const dataUpdatedAt = dataSource?.updatedAt ?? null;
+  const [isOffline, setIsOffline] = useState(() => typeof navigator !== 'undefined' && !navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  if (!isOffline) return null;
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 px-3 sm:px-4 md:px-6 py-2 flex items-center gap-2 text-xs sm:text-sm text-amber-800">
+      <WifiOff className="w-4 h-4 flex-shrink-0" />
+      <span>
+        You're offline.{' '}
+        {dataUpdatedAt
+          ? <>Showing FPL data saved <span className="font-semibold">{formatDataAge(dataUpdatedAt)}</span> ({new Date(dataUpdatedAt).toLocaleString()}).</>
+          : 'No saved FPL data is available yet.'}
+      </span>
+    </div>
+  );
+}
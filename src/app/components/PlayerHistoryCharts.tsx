@@ -0,0 +1,178 @@
+import React, { useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { useFPLStore } from '../store/fpl-store';
+import { usePlayerHistory, usePlayerHistoryStore } from '../store/player-history';
+
+interface PlayerHistoryChartsProps {
+  playerId: number;
+}
+
+interface ChartCardProps {
+  title: string;
+  children: React.ReactElement;
+}
+
+function ChartCard({ title, children }: ChartCardProps) {
+  return (
+    <Card className="p-4 sm:p-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4">{title}</h3>
+      <ResponsiveContainer width="100%" height={220}>
+        {children}
+      </ResponsiveContainer>
+    </Card>
+  );
+}
+
+/**
+ * Gameweek-by-gameweek points, minutes, xG/xA and BPS for one player,
+ * plus previous season totals.
+ */
+export function PlayerHistoryCharts({ playerId }: PlayerHistoryChartsProps) {
+  const teamsById = useFPLStore(state => state.teamsById);
+  const loadPlayerHistory = usePlayerHistoryStore(state => state.loadPlayerHistory);
+  const entry = usePlayerHistory(playerId);
+  const history = entry?.history ?? null;
+
+  const chartData = useMemo(() => {
+    if (!history) return [];
+    return history.gameweeks.map(gw => ({
+      gw: `GW${gw.gameweek}`,
+      opponents: gw.opponents
+        .map(o => `${teamsById.get(o.teamId)?.short_name ?? '?'} (${o.isHome ? 'H' : 'A'})`)
+        .join(', '),
+      points: gw.points,
+      minutes: gw.minutes,
+      xG: Number(gw.xG.toFixed(2)),
+      xA: Number(gw.xA.toFixed(2)),
+      bps: gw.bps,
+    }));
+  }, [history, teamsById]);
+
+  if (!history && entry?.status === 'error') {
+    return (
+      <Card className="p-6 flex flex-col sm:flex-row items-center gap-3 text-sm text-red-700">
+        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+        <span className="flex-1">Couldn't load gameweek history: {entry.error}</span>
+        <Button size="sm" variant="outline" onClick={() => loadPlayerHistory(playerId)}>
+          <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+          Retry
+        </Button>
+      </Card>
+    );
+  }
+
+  if (!history) {
+    return (
+      <Card className="p-8 flex items-center justify-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin text-purple-600" />
+        Loading gameweek history...
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {chartData.length === 0 ? (
+        <Card className="p-8 text-center text-sm text-gray-500">
+          No gameweek history yet this season
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          <ChartCard title="Points per Gameweek">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+              <YAxis tick={{ fill: '#6b7280', fontSize: 10 }} allowDecimals={false} />
+              <Tooltip labelFormatter={(label, payload) => `${label} · ${payload?.[0]?.payload?.opponents ?? ''}`} />
+              <Bar dataKey="points" name="Points" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartCard>
+
+          <ChartCard title="Minutes Played">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+              <YAxis tick={{ fill: '#6b7280', fontSize: 10 }} allowDecimals={false} />
+              <Tooltip />
+              <Bar dataKey="minutes" name="Minutes" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartCard>
+
+          <ChartCard title="Expected Goals & Assists">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+              <YAxis tick={{ fill: '#6b7280', fontSize: 10 }} />
+              <Tooltip />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line type="monotone" dataKey="xG" name="xG" stroke="#ef4444" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="xA" name="xA" stroke="#22c55e" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartCard>
+
+          <ChartCard title="Bonus Points System (BPS)">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="gw" tick={{ fill: '#6b7280', fontSize: 10 }} />
+              <YAxis tick={{ fill: '#6b7280', fontSize: 10 }} allowDecimals={false} />
+              <Tooltip />
+              <Line type="monotone" dataKey="bps" name="BPS" stroke="#eab308" strokeWidth={2} />
+            </LineChart>
+          </ChartCard>
+        </div>
+      )}
+
+      {history.pastSeasons.length > 0 && (
+        <Card className="p-4 sm:p-6">
+          <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4">Previous Seasons</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs sm:text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr className="text-gray-500 uppercase tracking-wider text-[10px] sm:text-xs">
+                  <th className="px-3 py-2 text-left font-medium">Season</th>
+                  <th className="px-3 py-2 text-center font-medium">Pts</th>
+                  <th className="px-3 py-2 text-center font-medium">Mins</th>
+                  <th className="px-3 py-2 text-center font-medium">G</th>
+                  <th className="px-3 py-2 text-center font-medium">A</th>
+                  <th className="px-3 py-2 text-center font-medium">CS</th>
+                  <th className="px-3 py-2 text-center font-medium">Bonus</th>
+                  <th className="px-3 py-2 text-center font-medium">Price</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {[...history.pastSeasons].reverse().map(season => (
+                  <tr key={season.season_name}>
+                    <td className="px-3 py-2 font-semibold text-gray-900">{season.season_name}</td>
+                    <td className="px-3 py-2 text-center font-bold text-purple-600">{season.total_points}</td>
+                    <td className="px-3 py-2 text-center">{season.minutes}</td>
+                    <td className="px-3 py-2 text-center">{season.goals_scored}</td>
+                    <td className="px-3 py-2 text-center">{season.assists}</td>
+                    <td className="px-3 py-2 text-center">{season.clean_sheets}</td>
+                    <td className="px-3 py-2 text-center">{season.bonus}</td>
+                    <td className="px-3 py-2 text-center whitespace-nowrap">
+                      £{(season.start_cost / 10).toFixed(1)}m → £{(season.end_cost / 10).toFixed(1)}m
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
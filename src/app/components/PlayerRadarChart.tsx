@@ -4,11 +4,15 @@ import type { Player } from '../types/fpl';
 
 interface PlayerRadarChartProps {
   players: [Player, Player];
+  // Series names — defaults to web names; needed when comparing one player across seasons
+  labels?: [string, string];
+  title?: string;
   className?: string;
 }
 
-export function PlayerRadarChart({ players, className = '' }: PlayerRadarChartProps) {
+export function PlayerRadarChart({ players, labels, title = 'Player Comparison', className = '' }: PlayerRadarChartProps) {
   const [player1, player2] = players;
+  const [name1, name2] = labels ?? [player1.web_name, player2.web_name];
 
   // Raw values for each metric
   const rawMetrics = [
@@ -26,11 +30,11 @@ export function PlayerRadarChart({ players, className = '' }: PlayerRadarChartPr
     const max = Math.max(p1, p2, 1); // avoid division by 0
     return {
       metric,
-      [player1.web_name]: Math.round((p1 / max) * 100),
-      [player2.web_name]: Math.round((p2 / max) * 100),
+      [name1]: Math.round((p1 / max) * 100),
+      [name2]: Math.round((p2 / max) * 100),
       // Store raw values for tooltip
-      [`${player1.web_name}_raw`]: p1,
-      [`${player2.web_name}_raw`]: p2,
+      [`${name1}_raw`]: p1,
+      [`${name2}_raw`]: p2,
     };
   });
 
@@ -50,7 +54,7 @@ export function PlayerRadarChart({ players, className = '' }: PlayerRadarChartPr
               <div key={entry.name} className="flex items-center gap-2">
                 <div
                   className="w-2.5 h-2.5 rounded-full"
-                  style={{ backgroundColor: entry.name === player1.web_name ? '#8b5cf6' : '#ec4899' }}
+                  style={{ backgroundColor: entry.name === name1 ? '#8b5cf6' : '#ec4899' }}
                 />
                 <span className="text-gray-600">{entry.name}:</span>
                 <span className="font-semibold">{displayValue}</span>
@@ -66,18 +70,18 @@ export function PlayerRadarChart({ players, className = '' }: PlayerRadarChartPr
   return (
     <div className={`bg-white rounded-2xl p-4 sm:p-6 ${className}`}>
       <h3 className="text-base sm:text-xl font-bold text-gray-900 mb-3 sm:mb-4 text-center">
-        Player Comparison
+        {title}
       </h3>
       <div className="grid grid-cols-2 gap-3 sm:gap-4 mb-4 sm:mb-6">
         <div className="text-center">
-          <div className="text-sm sm:text-lg font-bold text-gray-900 truncate px-1">{player1.web_name}</div>
+          <div className="text-sm sm:text-lg font-bold text-gray-900 truncate px-1">{name1}</div>
           <div className="text-xs sm:text-sm text-gray-600 truncate">{player1.team_name}</div>
           <div className="text-xs sm:text-sm font-semibold text-purple-600">
             £{(player1.now_cost / 10).toFixed(1)}m
           </div>
         </div>
         <div className="text-center">
-          <div className="text-sm sm:text-lg font-bold text-gray-900 truncate px-1">{player2.web_name}</div>
+          <div className="text-sm sm:text-lg font-bold text-gray-900 truncate px-1">{name2}</div>
           <div className="text-xs sm:text-sm text-gray-600 truncate">{player2.team_name}</div>
           <div className="text-xs sm:text-sm font-semibold text-purple-600">
             £{(player2.now_cost / 10).toFixed(1)}m
@@ -95,16 +99,16 @@ export function PlayerRadarChart({ players, className = '' }: PlayerRadarChartPr
           />
           <PolarRadiusAxis angle={90} domain={[0, 100]} tick={false} axisLine={false} />
           <Radar
-            name={player1.web_name}
-            dataKey={player1.web_name}
+            name={name1}
+            dataKey={name1}
             stroke="#8b5cf6"
             fill="#8b5cf6"
             fillOpacity={0.5}
             strokeWidth={2}
           />
           <Radar
-            name={player2.web_name}
-            dataKey={player2.web_name}
+            name={name2}
+            dataKey={name2}
             stroke="#ec4899"
             fill="#ec4899"
             fillOpacity={0.5}
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -22,6 +22,10 @@ import {
 import { PlayerImage } from './ui/player-image';
 import { Player } from '../types/fpl';
 import { useFPLStore } from '../store/fpl-store';
+import { usePlayerHistoryStore } from '../store/player-history';
+import { PlayerHistoryCharts } from './PlayerHistoryCharts';
+import { SeasonComparison } from './SeasonComparison';
+import { SeasonArchivePanel } from './SeasonArchivePanel';
 import { 
   LineChart, 
   Line, 
@@ -49,6 +53,7 @@ export function PlayerStats({ players }: PlayerStatsProps) {
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [filterPosition, setFilterPosition] = useState<number | null>(null);
   const { getPlayerFixtures } = useFPLStore();
+  const prefetchPlayerHistories = usePlayerHistoryStore(state => state.prefetchPlayerHistories);
 
   // Filter players
   const filteredPlayers = useMemo(() => {
@@ -68,6 +73,12 @@ export function PlayerStats({ players }: PlayerStatsProps) {
     return filtered.sort((a, b) => b.total_points - a.total_points);
   }, [players, searchQuery, filterPosition]);
 
+  // Warm gameweek history for the top of the list so detail views open instantly
+  useEffect(() => {
+    if (searchQuery || selectedPlayer) return;
+    prefetchPlayerHistories(filteredPlayers.slice(0, 10).map(p => p.id));
+  }, [filteredPlayers, searchQuery, selectedPlayer, prefetchPlayerHistories]);
+
   const positionNames = {
     1: { name: 'GK', color: 'bg-yellow-500', textColor: 'text-yellow-700' },
     2: { name: 'DEF', color: 'bg-green-500', textColor: 'text-green-700' },
@@ -229,6 +240,12 @@ export function PlayerStats({ players }: PlayerStatsProps) {
           </Card>
         </div>
 
+        {/* Gameweek History */}
+        <PlayerHistoryCharts playerId={selectedPlayer.id} />
+
+        {/* Past Seasons */}
+        <SeasonComparison player={selectedPlayer} />
+
         {/* Fixtures */}
         <Card className="p-4 sm:p-6">
           <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4">
@@ -376,7 +393,11 @@ export function PlayerStats({ players }: PlayerStatsProps) {
                 const position = positionNames[player.element_type as keyof typeof positionNames];
                 const priceChange = player.cost_change_start / 10;
                 return (
-                  <tr key={player.id} className="hover:bg-gray-50 transition-colors">
+                  <tr
+                    key={player.id}
+                    className="hover:bg-gray-50 transition-colors"
+                    onMouseEnter={() => prefetchPlayerHistories([player.id])}
+                  >
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-3">
                         <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0">
@@ -450,6 +471,9 @@ export function PlayerStats({ players }: PlayerStatsProps) {
           <p className="text-gray-500">Try adjusting your search or filters</p>
         </Card>
       )}
+
+      {/* Past season imports */}
+      <SeasonArchivePanel />
     </div>
   );
 }
\ No newline at end of file
@@ -12,9 +12,11 @@ import {
   Filter,
   DollarSign,
   Percent,
-  Activity
+  Activity,
+  LineChart
 } from 'lucide-react';
 import { Player } from '../types/fpl';
+import { PriceTrendsPanel } from './PriceTrendsPanel';
 
 interface PriceChangesTrackerProps {
   players: Player[];
@@ -251,7 +253,7 @@ export function PriceChangesTracker({ players }: PriceChangesTrackerProps) {
 
       {/* Tabs */}
       <Tabs defaultValue="risers" className="w-full">
-        <TabsList className="grid w-full grid-cols-4 h-auto">
+        <TabsList className="grid w-full grid-cols-5 h-auto">
           <TabsTrigger value="risers" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 sm:py-3 text-xs sm:text-sm">
             <TrendingUp className="w-3 h-3 sm:w-4 sm:h-4" />
             <span className="hidden sm:inline">Price Rises</span>
@@ -272,6 +274,10 @@ export function PriceChangesTracker({ players }: PriceChangesTrackerProps) {
             <span className="hidden sm:inline">Transfers Out</span>
             <span className="sm:hidden">Out</span>
           </TabsTrigger>
+          <TabsTrigger value="trends" className="flex flex-col sm:flex-row items-center gap-1 sm:gap-2 py-2 sm:py-3 text-xs sm:text-sm">
+            <LineChart className="w-3 h-3 sm:w-4 sm:h-4" />
+            Trends
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="risers">
@@ -353,6 +359,10 @@ export function PriceChangesTracker({ players }: PriceChangesTrackerProps) {
             </div>
           </Card>
         </TabsContent>
+
+        <TabsContent value="trends">
+          <PriceTrendsPanel players={players} />
+        </TabsContent>
       </Tabs>
     </div>
   );
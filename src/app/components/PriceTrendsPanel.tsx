@@ -0,0 +1,182 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Download, Upload, LineChart as LineChartIcon, AlertCircle } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { PlayerCombobox } from './ui/player-combobox';
+import { fetchWorkerJson } from '../utils/corsProxy';
+import {
+  getSnapshots,
+  getPlayerTrend,
+  mergePlayerTrends,
+  exportSnapshots,
+  importSnapshots,
+  type PlayerTrendPoint,
+} from '../utils/playerSnapshots';
+import type { Player } from '../types/fpl';
+
+interface PriceTrendsPanelProps {
+  players: Player[];
+}
+
+interface ServerHistory {
+  player: number;
+  points: PlayerTrendPoint[];
+}
+
+interface TrendChartProps {
+  title: string;
+  data: Array<Record<string, number | string>>;
+  dataKey: string;
+  color: string;
+  format: (value: number) => string;
+}
+
+function TrendChart({ title, data, dataKey, color, format }: TrendChartProps) {
+  return (
+    <Card className="p-4">
+      <h4 className="text-sm font-bold text-gray-900 mb-3">{title}</h4>
+      <ResponsiveContainer width="100%" height={180}>
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="label" tick={{ fill: '#6b7280', fontSize: 10 }} />
+          <YAxis domain={['auto', 'auto']} tickFormatter={format} tick={{ fill: '#6b7280', fontSize: 10 }} width={48} />
+          <Tooltip formatter={(value: number) => format(value)} />
+          <Line type="stepAfter" dataKey={dataKey} stroke={color} strokeWidth={2} dot={data.length <= 14} />
+        </LineChart>
+      </ResponsiveContainer>
+    </Card>
+  );
+}
+
+/**
+ * Price, ownership and form trend lines from the locally recorded daily snapshots
+ * merged with the Worker's stored history, with import/export of the local snapshots.
+ */
+export function PriceTrendsPanel({ players }: PriceTrendsPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [snapshots, setSnapshots] = useState(() => getSnapshots());
+  const [selectedId, setSelectedId] = useState<number | null>(
+    () => [...players].sort((a, b) => parseFloat(b.selected_by_percent) - parseFloat(a.selected_by_percent))[0]?.id ?? null
+  );
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [serverHistory, setServerHistory] = useState<ServerHistory | null>(null);
+
+  useEffect(() => {
+    if (selectedId === null) return;
+    let cancelled = false;
+    fetchWorkerJson<ServerHistory>(`/history/player/${selectedId}`).then(history => {
+      if (!cancelled) setServerHistory(history);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const serverPoints = useMemo(
+    () => (serverHistory && serverHistory.player === selectedId ? serverHistory.points : []),
+    [serverHistory, selectedId]
+  );
+
+  const trend = useMemo(() => {
+    if (selectedId === null) return [];
+    // The Worker's snapshots are taken after the overnight price changes, so they win on shared days
+    return mergePlayerTrends(getPlayerTrend(selectedId, snapshots), serverPoints).map(point => ({
+      ...point,
+      label: new Date(`${point.date}T00:00:00Z`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }),
+    }));
+  }, [selectedId, snapshots, serverPoints]);
+
+  const handleExport = () => {
+    const blob = new Blob([exportSnapshots()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fpl-player-snapshots-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const changed = importSnapshots(await file.text());
+      setSnapshots(getSnapshots());
+      setMessage({ type: 'success', text: `Imported ${changed} day${changed === 1 ? '' : 's'} of snapshots` });
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: `Import failed: ${err instanceof Error ? err.message : 'invalid file'}` });
+    }
+  };
+
+  const firstDate = snapshots[0]?.date;
+  const lastDate = snapshots[snapshots.length - 1]?.date;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <div className="border-b p-4 bg-purple-50 flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex-1">
+            <h3 className="font-bold text-lg text-purple-900">Price, Ownership & Form Trends</h3>
+            <p className="text-sm text-purple-700 mt-1">
+              {snapshots.length === 0
+                ? 'A snapshot is saved each day you open the app — trends appear from the second day'
+                : `${snapshots.length} daily snapshot${snapshots.length === 1 ? '' : 's'} saved (${firstDate} → ${lastDate})`}
+              {serverPoints.length > 0 && ` · ${serverPoints.length} day${serverPoints.length === 1 ? '' : 's'} of server history for this player`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={snapshots.length === 0}>
+              <Download className="w-4 h-4 mr-1" />
+              Export
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        </div>
+        <div className="p-4 space-y-3">
+          <PlayerCombobox
+            players={players}
+            value={selectedId}
+            onSelect={(player) => setSelectedId(player?.id ?? null)}
+            placeholder="Choose a player..."
+          />
+          {message && (
+            <div className={`flex items-center gap-2 text-xs sm:text-sm rounded-lg p-3 border ${
+              message.type === 'success'
+                ? 'text-green-700 bg-green-50 border-green-200'
+                : 'text-red-600 bg-red-50 border-red-200'
+            }`}>
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {message.text}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {trend.length < 2 ? (
+        <Card className="p-8 text-center text-gray-500">
+          <LineChartIcon className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-sm">Not enough snapshots for this player yet</p>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <TrendChart title="Price" data={trend} dataKey="price" color="#8b5cf6" format={(v) => `£${v.toFixed(1)}m`} />
+          <TrendChart title="Ownership" data={trend} dataKey="ownership" color="#3b82f6" format={(v) => `${v.toFixed(1)}%`} />
+          <TrendChart title="Form" data={trend} dataKey="form" color="#06b6d4" format={(v) => v.toFixed(1)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Loader2, Target } from 'lucide-react';
+import { Card } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useFPLStore } from '../store/fpl-store';
+import { useLiveGameweek } from '../store/live-gameweek';
+import { useLiveLeague, useLiveLeagueTable } from '../store/live-league';
+import { calculateEffectiveOwnership, calculateRankImpact, type OwnershipPick, type RankImpact } from '../utils/effectiveOwnership';
+import { getSeasonRules } from '../utils/fplRules';
+import { buildLivePlayerInputs } from '../utils/liveLeague';
+import { OVERALL_LEAGUE_ID } from '../utils/rankEstimate';
+import type { ClassicLeagueSummary } from '../types/fpl';
+
+const STANDINGS_PAGE_SIZE = 50;
+const ROWS_PER_LIST = 6;
+
+const formatNumber = (value: number) => new Intl.NumberFormat('en-US').format(value);
+const formatPercent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+const formatImpact = (impact: number) => `${impact > 0 ? '+' : ''}${Math.round(impact * 10) / 10}`;
+
+interface RankThreatPanelProps {
+  entry: number;
+  gameweek: number;
+  picks: OwnershipPick[]; // the manager's live squad
+  leagues: ClassicLeagueSummary[];
+  overallRank: number | null;
+  initialLeague: number | null; // selected mini-league, else the overall sample; key the panel on it
+}
+
+function ImpactList({ title, rows, tone }: { title: string; rows: RankImpact[]; tone: 'good' | 'bad' }) {
+  const playersById = useFPLStore(state => state.playersById);
+  const teamsById = useFPLStore(state => state.teamsById);
+
+  return (
+    <div>
+      <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">{title}</div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-500 py-2">Nobody yet</p>
+      ) : (
+        <div className="space-y-1">
+          {rows.map(row => {
+            const player = playersById.get(row.element);
+            return (
+              <div key={row.element} className="flex items-center gap-2 p-2 rounded-lg bg-white border border-gray-100">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-semibold text-gray-900 truncate">
+                    {player?.web_name ?? `Player ${row.element}`}
+                    <span className="ml-1 text-xs font-normal text-gray-500">{player ? teamsById.get(player.team)?.short_name : ''}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {row.points} pts · EO {formatPercent(row.effectiveOwnership)} · yours {row.multiplier > 0 ? `×${row.multiplier}` : 'none'}
+                  </div>
+                </div>
+                <span className={`text-sm font-bold ${tone === 'good' ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatImpact(row.impact)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Effective ownership across a sample of managers (a mini-league, or the
+ * overall league around the manager's rank) and which players are gaining or
+ * costing the manager rank against it.
+ */
+export function RankThreatPanel({ entry, gameweek, picks, leagues, overallRank, initialLeague }: RankThreatPanelProps) {
+  const [source, setSource] = useState<string>(initialLeague !== null ? String(initialLeague) : 'overall');
+  const isOverall = source === 'overall';
+  const page = isOverall && overallRank ? Math.ceil(overallRank / STANDINGS_PAGE_SIZE) : 1;
+  // The overall league is sampled one page around the manager; a mini-league is
+  // paged through from the top, like its live table
+  const overallSample = useLiveLeague(isOverall ? OVERALL_LEAGUE_ID : null, gameweek, page);
+  const leagueSample = useLiveLeagueTable(isOverall ? null : Number(source), gameweek);
+  const sample = isOverall ? overallSample : leagueSample;
+  const cutOffRank = leagueSample?.cutOffRank ?? null;
+
+  const live = useLiveGameweek(gameweek);
+  const bootstrap = useFPLStore(state => state.bootstrap);
+  const currentSeason = useFPLStore(state => state.currentSeason);
+
+  const managers = useMemo(
+    () => (sample?.table?.managers ?? []).filter(manager => manager.entry !== entry),
+    [sample?.table, entry]
+  );
+
+  const impacts = useMemo(() => {
+    // Points (with provisional bonus) as the live squad and league table score them
+    const { players } = buildLivePlayerInputs(bootstrap?.elements ?? [], live.elements, live.fixtures, getSeasonRules(currentSeason));
+    const pointsById = new Map([...players.values()].map(player => [player.element, player.points] as const));
+    const eo = calculateEffectiveOwnership(managers.map(manager => manager.picks));
+    return calculateRankImpact(picks, eo, pointsById);
+  }, [managers, picks, bootstrap, live.elements, live.fixtures, currentSeason]);
+
+  const hurting = impacts.filter(row => row.impact < 0).slice(0, ROWS_PER_LIST);
+  const helping = impacts.filter(row => row.impact > 0).slice(0, ROWS_PER_LIST);
+  const net = impacts.reduce((sum, row) => sum + row.impact, 0);
+
+  return (
+    <Card className="p-4 md:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="text-base sm:text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Target className="w-5 h-5 text-red-500" />
+          Rank Threats
+        </h3>
+        <Select value={source} onValueChange={setSource}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="overall">Overall — managers near your rank</SelectItem>
+            {leagues.map(league => (
+              <SelectItem key={league.id} value={String(league.id)}>{league.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!sample?.table ? (
+        sample?.status === 'error' ? (
+          <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            Couldn't load the sample: {sample.error}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-600">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading the sampled managers' teams...
+          </div>
+        )
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2">
+            <span className="text-sm text-gray-600">Net against the sample</span>
+            <span className={`text-lg font-black ${net > 0 ? 'text-green-600' : net < 0 ? 'text-red-600' : 'text-gray-700'}`}>
+              {formatImpact(net)} pts
+            </span>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <ImpactList title="Hurting your rank" rows={hurting} tone="bad" />
+            <ImpactList title="Helping your rank" rows={helping} tone="good" />
+          </div>
+          {!isOverall && cutOffRank !== null && (
+            <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+              Large league: the sample covers the top {formatNumber(sample?.table?.managers.length ?? 0)} managers,
+              down to #{formatNumber(cutOffRank)} in the official table. Managers below the cut-off aren't counted.
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Effective ownership (EO) across {managers.length} managers
+            {isOverall && overallRank ? ` ranked around ${formatNumber(overallRank)}` : ' in this league'},
+            counting captaincy, triple captain, bench boost and auto-subs. Impact is (your multiplier − EO) × points,
+            so a player on 40% EO you don't own costs 0.4 pts for every point they score.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
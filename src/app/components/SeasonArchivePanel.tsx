@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, Trash2, AlertCircle, Archive, Loader2 } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { useFPLStore } from '../store/fpl-store';
+import { useSeasonArchiveStore, sortedSeasons } from '../store/season-archive';
+import { isSeasonLabel } from '../utils/seasonImport';
+
+function previousSeason(season: string): string {
+  const startYear = parseInt(season.slice(0, 4)) - 1;
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Import past seasons from JSON/CSV archives and manage the imported ones.
+ */
+export function SeasonArchivePanel() {
+  const currentSeason = useFPLStore(state => state.currentSeason);
+  const { archives, loadArchives, importSeason, removeSeason } = useSeasonArchiveStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [season, setSeason] = useState(() => previousSeason(currentSeason));
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadArchives();
+  }, [loadArchives]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (!isSeasonLabel(season) || season === currentSeason) {
+      setMessage({ type: 'error', text: `Enter a past season like ${previousSeason(currentSeason)}` });
+      return;
+    }
+
+    setImporting(true);
+    setMessage(null);
+    try {
+      const contents = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+      const archive = await importSeason(season, contents);
+      setMessage({
+        type: 'success',
+        text: `Imported ${archive.season}: ${archive.players.length} players, ${archive.history.length} gameweek rows, ${archive.fixtures.length} fixtures`,
+      });
+    } catch (err: unknown) {
+      setMessage({ type: 'error', text: `Import failed: ${err instanceof Error ? err.message : 'invalid file'}` });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const seasons = sortedSeasons(archives);
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Archive className="w-5 h-5 text-purple-600" />
+        <h3 className="font-bold text-gray-900">Past Seasons</h3>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-600 mb-3">
+        Import a season from JSON (bootstrap-static) or CSV archives (players, teams, fixtures and merged gameweek files) to compare players across seasons.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={season}
+          onChange={(e) => setSeason(e.target.value)}
+          placeholder="e.g., 2023/24"
+          className="sm:w-32"
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+          {importing
+            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            : <Upload className="w-4 h-4 mr-2" />}
+          Import Files
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={handleFiles}
+        />
+      </div>
+
+      {message && (
+        <div className={`flex items-center gap-2 text-xs sm:text-sm rounded-lg p-3 border mt-3 ${
+          message.type === 'success'
+            ? 'text-green-700 bg-green-50 border-green-200'
+            : 'text-red-600 bg-red-50 border-red-200'
+        }`}>
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {message.text}
+        </div>
+      )}
+
+      {seasons.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {seasons.map(s => (
+            <div key={s} className="flex items-center gap-1 bg-purple-50 border border-purple-200 rounded-full pl-3 pr-1 py-1 text-xs sm:text-sm">
+              <span className="font-semibold text-purple-800">{s}</span>
+              <span className="text-gray-500">· {archives[s].players.length} players</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title={`Remove ${s}`}
+                onClick={() => removeSeason(s)}
+              >
+                <Trash2 className="w-3.5 h-3.5 text-gray-500" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
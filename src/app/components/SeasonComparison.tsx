@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { History } from 'lucide-react';
+import { Card } from './ui/card';
+import { PlayerRadarChart } from './PlayerRadarChart';
+import { useFPLStore } from '../store/fpl-store';
+import { useSeasonArchiveStore, findSeasonPlayer, getSeasonGameweeks, sortedSeasons } from '../store/season-archive';
+import type { Player } from '../types/fpl';
+
+interface SeasonComparisonProps {
+  player: Player;
+}
+
+interface SeasonRow {
+  season: string;
+  player: Player;
+  gameweeks: number | null;
+}
+
+/**
+ * A player's totals this season next to every imported season they appear in,
+ * with a radar comparison against one of them.
+ */
+export function SeasonComparison({ player }: SeasonComparisonProps) {
+  const currentSeason = useFPLStore(state => state.currentSeason);
+  const { archives, loadArchives } = useSeasonArchiveStore();
+  const [compareSeason, setCompareSeason] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadArchives();
+  }, [loadArchives]);
+
+  const pastRows = useMemo(() => {
+    const rows: SeasonRow[] = [];
+    for (const season of sortedSeasons(archives)) {
+      const archive = archives[season];
+      const seasonPlayer = findSeasonPlayer(archive, player);
+      if (!seasonPlayer) continue;
+      const gameweeks = archive.history.length > 0
+        ? getSeasonGameweeks(archive, seasonPlayer).filter(gw => gw.minutes > 0).length
+        : null;
+      rows.push({ season, player: seasonPlayer, gameweeks });
+    }
+    return rows;
+  }, [archives, player]);
+
+  if (pastRows.length === 0) return null;
+
+  const compared = pastRows.find(r => r.season === compareSeason) ?? pastRows[0];
+  const rows: SeasonRow[] = [{ season: currentSeason, player, gameweeks: null }, ...pastRows];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Card className="p-4 sm:p-6">
+        <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-3 sm:mb-4 flex items-center gap-2">
+          <History className="w-5 h-5 text-purple-600" />
+          Season by Season
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-gray-500 uppercase tracking-wider text-[10px] sm:text-xs">
+                <th className="px-3 py-2 text-left font-medium">Season</th>
+                <th className="px-3 py-2 text-left font-medium">Team</th>
+                <th className="px-3 py-2 text-center font-medium">Pts</th>
+                <th className="px-3 py-2 text-center font-medium">Mins</th>
+                <th className="px-3 py-2 text-center font-medium">G</th>
+                <th className="px-3 py-2 text-center font-medium">A</th>
+                <th className="px-3 py-2 text-center font-medium">CS</th>
+                <th className="px-3 py-2 text-center font-medium">Bonus</th>
+                <th className="px-3 py-2 text-center font-medium">xG</th>
+                <th className="px-3 py-2 text-center font-medium">xA</th>
+                <th className="px-3 py-2 text-center font-medium">Apps</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(row => (
+                <tr
+                  key={row.season}
+                  className={row.season === compared.season ? 'bg-pink-50' : row.season === currentSeason ? 'bg-purple-50' : ''}
+                >
+                  <td className="px-3 py-2 font-semibold text-gray-900 whitespace-nowrap">
+                    {row.season === currentSeason ? (
+                      `${row.season} (now)`
+                    ) : (
+                      <button className="underline decoration-dotted hover:text-purple-700" onClick={() => setCompareSeason(row.season)}>
+                        {row.season}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">{row.player.team_name || '-'}</td>
+                  <td className="px-3 py-2 text-center font-bold text-purple-600">{row.player.total_points}</td>
+                  <td className="px-3 py-2 text-center">{row.player.minutes}</td>
+                  <td className="px-3 py-2 text-center">{row.player.goals_scored}</td>
+                  <td className="px-3 py-2 text-center">{row.player.assists}</td>
+                  <td className="px-3 py-2 text-center">{row.player.clean_sheets}</td>
+                  <td className="px-3 py-2 text-center">{row.player.bonus}</td>
+                  <td className="px-3 py-2 text-center">{parseFloat(row.player.expected_goals || '0').toFixed(1)}</td>
+                  <td className="px-3 py-2 text-center">{parseFloat(row.player.expected_assists || '0').toFixed(1)}</td>
+                  <td className="px-3 py-2 text-center">{row.gameweeks ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <PlayerRadarChart
+        players={[player, compared.player]}
+        labels={[currentSeason, compared.season]}
+        title={`${player.web_name}: ${currentSeason} vs ${compared.season}`}
+        className="border border-gray-200"
+      />
+    </div>
+  );
+}
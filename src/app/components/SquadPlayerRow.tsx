@@ -0,0 +1,77 @@
+import React from 'react';
+import { PlayerImage } from './ui/player-image';
+
+// One squad member's live points, as listed by the live rank tracker and the
+// live league table's rival view
+export interface SquadPlayer {
+  element: number;
+  position: number;
+  multiplier: number;
+  is_captain: boolean;
+  is_vice_captain: boolean;
+  web_name: string;
+  element_type: number;
+  code: number;
+  team_code: number;
+  livePoints: number; // includes provisionalBonus
+  provisionalBonus: number;
+  effectivePoints: number;
+  minutes: number;
+  isAutoSubbed: boolean;
+  isSubbedOut: boolean;
+}
+
+const POSITION_LABELS: Record<number, string> = { 1: 'GKP', 2: 'DEF', 3: 'MID', 4: 'FWD' };
+const POSITION_COLORS: Record<number, string> = {
+  1: 'bg-yellow-100 text-yellow-700',
+  2: 'bg-green-100 text-green-700',
+  3: 'bg-blue-100 text-blue-700',
+  4: 'bg-red-100 text-red-700',
+};
+
+export function SquadPlayerRow({ player }: { player: SquadPlayer }) {
+  const isBench = player.position >= 12;
+  const isDimmed = (isBench && !player.isAutoSubbed) || player.isSubbedOut;
+
+  return (
+    <div className={`flex items-center gap-2 sm:gap-3 p-2 rounded-lg ${player.isAutoSubbed ? 'bg-green-50 border border-green-200' :
+      player.isSubbedOut ? 'bg-gray-50' :
+        'bg-white border border-gray-100'
+      } ${isDimmed ? 'opacity-50' : ''}`}>
+      <div className="w-7 h-7 rounded-full overflow-hidden flex-shrink-0">
+        <PlayerImage
+          code={player.code}
+          teamCode={player.team_code}
+          alt={player.web_name}
+          photoSize="40x40"
+          className="w-full h-full"
+        />
+      </div>
+      <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${POSITION_COLORS[player.element_type] || ''}`}>
+        {POSITION_LABELS[player.element_type] || '?'}
+      </span>
+      <span className="flex-1 text-sm font-medium text-gray-900 truncate">
+        {player.web_name}
+        {player.is_captain && <span className="ml-1 text-xs text-purple-600 font-bold">(C)</span>}
+        {player.is_vice_captain && <span className="ml-1 text-xs text-gray-500 font-bold">(V)</span>}
+      </span>
+      {player.isAutoSubbed && (
+        <span className="text-[10px] bg-green-600 text-white px-1.5 py-0.5 rounded font-bold flex-shrink-0">IN</span>
+      )}
+      {player.isSubbedOut && (
+        <span className="text-[10px] bg-gray-400 text-white px-1.5 py-0.5 rounded font-bold flex-shrink-0">OUT</span>
+      )}
+      <div className="text-right min-w-[40px] flex-shrink-0">
+        <div className="text-sm font-bold text-gray-900">{player.effectivePoints}</div>
+        {player.multiplier >= 2 && (
+          <div className="text-[10px] text-purple-600">x{player.multiplier}</div>
+        )}
+        {player.provisionalBonus > 0 && (
+          <div className="text-[10px] text-amber-600" title="Provisional bonus from current BPS — confirmed after the match">
+            incl. +{player.provisionalBonus} bonus*
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Plus, Minus, AlertTriangle, CheckCircle, TrendingUp, TrendingDown } from 'lucide-react';
+import { useFPLStore } from '../store/fpl-store';
+import { getSeasonRules, positionName } from '../utils/fplRules';
 import { Player } from '../../types/fpl';
 
 interface TransferPlanProps {
@@ -30,14 +32,9 @@ export function TransferPlanningPanel({ players, currentSquad, budget, freeTrans
   const [selectedGW, setSelectedGW] = useState(29);
   const [selectingFor, setSelectingFor] = useState<'out' | 'in' | null>(null);
 
-  // FPL Rules Constants
-  const TRANSFER_HIT_COST = 4;
-  const MAX_PLAYERS_PER_TEAM = 3;
-  const SQUAD_SIZE = 15;
-  const MIN_GK = 2;
-  const MIN_DEF = 5;
-  const MIN_MID = 5;
-  const MIN_FWD = 3;
+  // FPL rules for the season being planned
+  const { currentSeason } = useFPLStore();
+  const { squad: squadRules, transfers: transferRules } = getSeasonRules(currentSeason);
 
   // Calculate current budget after all planned transfers
   const calculateRemainingBudget = (): number => {
@@ -62,12 +59,12 @@ export function TransferPlanningPanel({ players, currentSquad, budget, freeTrans
         if (freeTransfersRemaining > 0) {
           freeTransfersRemaining--;
         } else {
-          hits += TRANSFER_HIT_COST;
+          hits += transferRules.hitCost;
         }
       }
-      // Accumulate free transfers (max 2)
+      // Accumulate free transfers up to the season's banking cap
       if (i < gwIndex) {
-        freeTransfersRemaining = Math.min(2, freeTransfersRemaining + 1);
+        freeTransfersRemaining = Math.min(transferRules.maxBankedFree, freeTransfersRemaining + transferRules.freePerGameweek);
       }
     }
 
@@ -91,17 +88,12 @@ export function TransferPlanningPanel({ players, currentSquad, budget, freeTrans
 
     // Check position requirements
     const squadPlayers = squadAfterTransfers.map(id => players.find(p => p.id === id)).filter(Boolean) as Player[];
-    const positionCounts = {
-      GKP: squadPlayers.filter(p => p.element_type === 1).length,
-      DEF: squadPlayers.filter(p => p.element_type === 2).length,
-      MID: squadPlayers.filter(p => p.element_type === 3).length,
-      FWD: squadPlayers.filter(p => p.element_type === 4).length,
-    };
-
-    if (positionCounts.GKP < MIN_GK) errors.push(`Need at least ${MIN_GK} goalkeepers`);
-    if (positionCounts.DEF < MIN_DEF) errors.push(`Need at least ${MIN_DEF} defenders`);
-    if (positionCounts.MID < MIN_MID) errors.push(`Need at least ${MIN_MID} midfielders`);
-    if (positionCounts.FWD < MIN_FWD) errors.push(`Need at least ${MIN_FWD} forwards`);
+    Object.entries(squadRules.positions).forEach(([elementType, required]) => {
+      const count = squadPlayers.filter(p => p.element_type === Number(elementType)).length;
+      if (count < required) {
+        errors.push(`Need at least ${required} ${positionName(Number(elementType), required).toLowerCase()}`);
+      }
+    });
 
     // Check max players per team
     const teamCounts: { [key: number]: number } = {};
@@ -110,9 +102,9 @@ export function TransferPlanningPanel({ players, currentSquad, budget, freeTrans
     });
 
     Object.entries(teamCounts).forEach(([teamId, count]) => {
-      if (count > MAX_PLAYERS_PER_TEAM) {
+      if (count > squadRules.maxPerTeam) {
         const teamName = players.find(p => p.team === Number(teamId))?.team_name || 'Unknown';
-        errors.push(`Max ${MAX_PLAYERS_PER_TEAM} players from ${teamName} (currently ${count})`);
+        errors.push(`Max ${squadRules.maxPerTeam} players from ${teamName} (currently ${count})`);
       }
     });
 
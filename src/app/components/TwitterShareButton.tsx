@@ -6,12 +6,21 @@ import { shareToTwitter } from '../utils/cardThemes';
 interface TwitterShareButtonProps {
   text: string;
   hashtags?: string[];
+  // Link to share alongside the text, e.g. a share card page that unfurls with an image
+  url?: string | null;
+  label?: string;
   className?: string;
 }
 
-export function TwitterShareButton({ text, hashtags = ['FPL', 'FantasyPL'], className = '' }: TwitterShareButtonProps) {
+export function TwitterShareButton({
+  text,
+  hashtags = ['FPL', 'FantasyPL'],
+  url,
+  label = 'Share on X (Twitter)',
+  className = '',
+}: TwitterShareButtonProps) {
   const handleShare = () => {
-    shareToTwitter(text, hashtags);
+    shareToTwitter(text, hashtags, url ?? undefined);
   };
 
   return (
@@ -21,7 +30,7 @@ export function TwitterShareButton({ text, hashtags = ['FPL', 'FantasyPL'], clas
       className={`bg-[#1DA1F2] hover:bg-[#1a8cd8] text-white border-[#1DA1F2] ${className}`}
     >
       <Share2 className="w-4 h-4 mr-2" />
-      Share on X (Twitter)
+      {label}
     </Button>
   );
 }
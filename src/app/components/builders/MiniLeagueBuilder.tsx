@@ -2,10 +2,16 @@ import React, { useState, useRef, ChangeEvent } from 'react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
-import { Download, Upload, Trophy, Medal, Award, X, Loader2, Search } from 'lucide-react';
+import { Download, Upload, Trophy, Medal, Award, X, Loader2, Search, ChevronLeft, ChevronRight, Crosshair } from 'lucide-react';
 import { toPng } from 'html-to-image';
 import { corsProxyFetch } from '../../utils/corsProxy';
 import { convertImageToBase64 } from '../../utils/imageUtils';
+import {
+  emptyStandingsPages,
+  loadPositionRange,
+  STANDINGS_PAGE_SIZE,
+  type StandingsPages,
+} from '../../utils/leagueStandings';
 
 interface LeagueStanding {
   rank: string;
@@ -15,6 +21,9 @@ interface LeagueStanding {
   image: string | null;
 }
 
+// Rows that fit on the 1080px card
+const CARD_ROWS = 15;
+
 export function MiniLeagueBuilder() {
   const cardRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -24,8 +33,10 @@ export function MiniLeagueBuilder() {
   const [leagueLogo, setLeagueLogo] = useState<string | null>(null);
   const [fplId, setFplId] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [availableLeagues, setAvailableLeagues] = useState<Array<{ id: number; name: string }>>([]);
+  const [availableLeagues, setAvailableLeagues] = useState<Array<{ id: number; name: string; entryRank: number }>>([]);
   const [selectedLeagueId, setSelectedLeagueId] = useState<number | null>(null);
+  const [standingsPages, setStandingsPages] = useState<StandingsPages | null>(null);
+  const [windowStart, setWindowStart] = useState(1);
   const [standings, setStandings] = useState<LeagueStanding[]>([
     { rank: '1', name: 'Dave_FPL', points: '1,856', gw: '67', image: null },
     { rank: '2', name: 'ManagerJohn', points: '1,842', gw: '72', image: null },
@@ -46,7 +57,8 @@ export function MiniLeagueBuilder() {
       setAvailableLeagues(
         classicLeagues.map((league: any) => ({
           id: league.id,
-          name: league.name
+          name: league.name,
+          entryRank: league.entry_rank
         }))
       );
     } catch (error) {
@@ -57,28 +69,24 @@ export function MiniLeagueBuilder() {
     }
   };
 
-  const loadLeagueStandings = async (leagueId: number) => {
+  // Show CARD_ROWS managers from a league position, fetching only the
+  // standings pages that window touches
+  const showStandingsWindow = async (pages: StandingsPages, start: number) => {
     setIsLoading(true);
     try {
-      // Fetch league standings
-      const data = await corsProxyFetch(
-        `https://fantasy.premierleague.com/api/leagues-classic/${leagueId}/standings/`
-      );
-      
-      if (data.standings?.results) {
-        const results = data.standings.results.slice(0, 15); // First 10-15 players
-        setLeagueName(data.league?.name || 'Mini League');
-        
-        const newStandings = results.map((entry: any) => ({
-          rank: entry.rank.toString(),
-          name: entry.entry_name || entry.player_name,
-          points: entry.total.toLocaleString(),
-          gw: entry.event_total?.toString() || '0',
-          image: null
-        }));
-        
-        setStandings(newStandings);
-      }
+      const { state, standings: rows } = await loadPositionRange(pages, start, start + CARD_ROWS - 1);
+      setStandingsPages(state);
+      if (rows.length === 0) return; // past the end of the league
+
+      setWindowStart(start);
+      setLeagueName(state.league?.name || 'Mini League');
+      setStandings(rows.map(entry => ({
+        rank: entry.rank.toString(),
+        name: entry.entry_name || entry.player_name,
+        points: entry.total.toLocaleString(),
+        gw: entry.event_total?.toString() || '0',
+        image: null
+      })));
     } catch (error) {
       console.error('Error loading league standings:', error);
       alert('Failed to load league standings. Please try again.');
@@ -87,6 +95,20 @@ export function MiniLeagueBuilder() {
     }
   };
 
+  const loadLeagueStandings = (leagueId: number) => showStandingsWindow(emptyStandingsPages(leagueId), 1);
+
+  // Centre the card on the manager's own rank, however deep in the league
+  const showAroundMe = () => {
+    const league = availableLeagues.find(l => l.id === selectedLeagueId);
+    if (!league || !standingsPages) return;
+    showStandingsWindow(standingsPages, Math.max(1, league.entryRank - Math.floor(CARD_ROWS / 2)));
+  };
+
+  const leagueSize = standingsPages?.lastPage
+    ? (standingsPages.lastPage - 1) * STANDINGS_PAGE_SIZE + (standingsPages.pages[standingsPages.lastPage]?.length ?? 0)
+    : null;
+  const hasMoreStandings = leagueSize === null || windowStart + CARD_ROWS <= leagueSize;
+
   const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -232,6 +254,37 @@ export function MiniLeagueBuilder() {
             </select>
           </div>
         )}
+
+        {standingsPages && (
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isLoading || windowStart === 1}
+              onClick={() => showStandingsWindow(standingsPages, Math.max(1, windowStart - CARD_ROWS))}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous {CARD_ROWS}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isLoading || !hasMoreStandings}
+              onClick={() => showStandingsWindow(standingsPages, windowStart + CARD_ROWS)}
+            >
+              Next {CARD_ROWS}
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+            <Button variant="outline" size="sm" disabled={isLoading} onClick={showAroundMe}>
+              <Crosshair className="w-4 h-4 mr-1" />
+              Around me
+            </Button>
+            <span className="text-sm text-gray-600">
+              Positions {windowStart}–{windowStart + standings.length - 1}
+              {leagueSize !== null && ` of ${leagueSize.toLocaleString()}`}
+            </span>
+          </div>
+        )}
       </Card>
 
       <Card className="p-6 bg-gradient-to-r from-yellow-50 to-orange-50 border-2 border-yellow-200">
@@ -1,9 +1,12 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Download, Upload, Search } from 'lucide-react';
 import { Player } from '../../types/fpl';
+import { useFPLStore } from '../../store/fpl-store';
+import { useSeasonArchiveStore, findSeasonPlayer, sortedSeasons } from '../../store/season-archive';
 import { toPng } from 'html-to-image';
 import { ImagePositionControls } from '../ImagePositionControls';
 import { convertImageToBase64 } from '../../utils/imageUtils';
@@ -13,14 +16,24 @@ interface StatsInfographicBuilderProps {
 }
 
 export function StatsInfographicBuilder({ players }: StatsInfographicBuilderProps) {
+  const currentSeason = useFPLStore(state => state.currentSeason);
+  const { archives, loadArchives } = useSeasonArchiveStore();
   const cardRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
-  const [season, setSeason] = useState('2024/25');
+  // Empty means the current season
+  const [season, setSeason] = useState('');
   const [playerImage, setPlayerImage] = useState<string | null>(null);
   const [imagePosition, setImagePosition] = useState({ x: 0, y: 0, scale: 100 });
   const [searchQuery, setSearchQuery] = useState('');
 
+  useEffect(() => {
+    loadArchives();
+  }, [loadArchives]);
+
+  const activeSeason = season && archives[season] ? season : currentSeason;
+  const seasonOptions = [currentSeason, ...sortedSeasons(archives).filter(s => s !== currentSeason)];
+
   // Filter players based on search
   const filteredPlayers = players.filter(p =>
     p.web_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -85,7 +98,7 @@ export function StatsInfographicBuilder({ players }: StatsInfographicBuilderProp
       
       // Download the image
       const link = document.createElement('a');
-      link.download = `${selectedPlayer?.web_name || 'Player'}_Stats_${season}.png`;
+      link.download = `${selectedPlayer?.web_name || 'Player'}_Stats_${activeSeason.replace('/', '-')}.png`;
       link.href = dataUrl;
       link.click();
     } catch (error) {
@@ -137,17 +150,23 @@ export function StatsInfographicBuilder({ players }: StatsInfographicBuilderProp
     );
   }
 
+  // Stats for the chosen season — a past season uses the player's archived record
+  const seasonPlayer = activeSeason === currentSeason
+    ? selectedPlayer
+    : findSeasonPlayer(archives[activeSeason], selectedPlayer);
+  const cardPlayer = seasonPlayer ?? selectedPlayer;
+
   const stats = [
-    { label: 'PPG', value: parseFloat(selectedPlayer.points_per_game).toFixed(1), icon: '📊' },
-    { label: 'Goals', value: selectedPlayer.goals_scored.toString(), icon: '⚽' },
-    { label: 'Assists', value: selectedPlayer.assists.toString(), icon: '🎯' },
-    { label: 'ICT Index', value: selectedPlayer.ict_index, icon: '📈' },
-    { label: 'xG', value: parseFloat(selectedPlayer.expected_goals || '0').toFixed(1), icon: '🎲' },
-    { label: 'xA', value: parseFloat(selectedPlayer.expected_assists || '0').toFixed(1), icon: '🅰️' },
-    { label: 'xGI', value: parseFloat(selectedPlayer.expected_goal_involvements || '0').toFixed(1), icon: '💫' },
-    { label: 'Threat', value: selectedPlayer.threat, icon: '🔥' },
-    { label: 'Creativity', value: selectedPlayer.creativity, icon: '🎨' },
-    { label: 'Influence', value: selectedPlayer.influence, icon: '⭐' },
+    { label: 'PPG', value: parseFloat(cardPlayer.points_per_game).toFixed(1), icon: '📊' },
+    { label: 'Goals', value: cardPlayer.goals_scored.toString(), icon: '⚽' },
+    { label: 'Assists', value: cardPlayer.assists.toString(), icon: '🎯' },
+    { label: 'ICT Index', value: cardPlayer.ict_index, icon: '📈' },
+    { label: 'xG', value: parseFloat(cardPlayer.expected_goals || '0').toFixed(1), icon: '🎲' },
+    { label: 'xA', value: parseFloat(cardPlayer.expected_assists || '0').toFixed(1), icon: '🅰️' },
+    { label: 'xGI', value: parseFloat(cardPlayer.expected_goal_involvements || '0').toFixed(1), icon: '💫' },
+    { label: 'Threat', value: cardPlayer.threat, icon: '🔥' },
+    { label: 'Creativity', value: cardPlayer.creativity, icon: '🎨' },
+    { label: 'Influence', value: cardPlayer.influence, icon: '⭐' },
   ];
 
   return (
@@ -167,7 +186,24 @@ export function StatsInfographicBuilder({ players }: StatsInfographicBuilderProp
         <div className="grid md:grid-cols-2 gap-4 mb-4">
           <div>
             <label className="text-sm font-medium text-gray-700 block mb-2">Season</label>
-            <Input value={season} onChange={(e) => setSeason(e.target.value)} />
+            <Select onValueChange={setSeason} value={activeSeason}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {seasonOptions.map(s => (
+                  <SelectItem key={s} value={s}>{s === currentSeason ? `${s} (current)` : s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!seasonPlayer && (
+              <p className="text-xs text-red-600 mt-1">
+                {selectedPlayer.web_name} isn't in the {activeSeason} archive — showing this season's stats
+              </p>
+            )}
+            {seasonOptions.length === 1 && (
+              <p className="text-xs text-gray-500 mt-1">Import past seasons from Player Stats to pick them here</p>
+            )}
           </div>
           <div>
             <label className="text-sm font-medium text-gray-700 block mb-2">Player Photo (Optional)</label>
@@ -226,8 +262,8 @@ export function StatsInfographicBuilder({ players }: StatsInfographicBuilderProp
               )}
               <div className="flex-1 min-w-0">
                 <div className="text-6xl font-black text-white mb-3 truncate">{selectedPlayer.web_name}</div>
-                <div className="text-2xl text-pink-100 font-medium">{selectedPlayer.team_name} • {season}</div>
-                <div className="text-3xl text-white font-black mt-2">£{(selectedPlayer.now_cost / 10).toFixed(1)}m</div>
+                <div className="text-2xl text-pink-100 font-medium">{cardPlayer.team_name} • {seasonPlayer ? activeSeason : currentSeason}</div>
+                <div className="text-3xl text-white font-black mt-2">£{(cardPlayer.now_cost / 10).toFixed(1)}m</div>
               </div>
             </div>
 
@@ -245,7 +281,7 @@ export function StatsInfographicBuilder({ players }: StatsInfographicBuilderProp
             {/* Total Points Highlight */}
             <div className="bg-white/20 backdrop-blur-sm rounded-2xl p-6 text-center border-2 border-white/40">
               <div className="text-white/90 text-lg font-medium mb-2">Total Points</div>
-              <div className="text-white text-7xl font-black drop-shadow-lg">{selectedPlayer.total_points}</div>
+              <div className="text-white text-7xl font-black drop-shadow-lg">{cardPlayer.total_points}</div>
             </div>
 
             {/* Footer */}
@@ -7,6 +7,7 @@ import { Player } from '../../types/fpl';
 import { useFPLStore } from '../../store/fpl-store';
 import { FPLService, FPLImages } from '../../utils/corsProxy';
 import { ExportService } from '../../utils/exportService';
+import { getSeasonRules, positionName } from '../../utils/fplRules';
 import { PlayerImage } from '../ui/player-image';
 
 interface SquadPlayer {
@@ -39,7 +40,8 @@ const FORMATIONS: Record<Formation, { def: number; mid: number; fwd: number }> =
 };
 
 export function TeamPlannerStudio() {
-  const { bootstrap, fetchBootstrapData } = useFPLStore();
+  const { bootstrap, currentSeason, fetchBootstrapData } = useFPLStore();
+  const { squad: squadRules } = getSeasonRules(currentSeason);
   
   // State
   const [players, setPlayers] = useState<Player[]>([]);
@@ -168,7 +170,7 @@ export function TeamPlannerStudio() {
   }, {} as Record<number, number>);
 
   const totalCost = allPlayers.reduce((sum, p) => sum + p.now_cost, 0) / 10;
-  const remainingBudget = 100 - totalCost;
+  const remainingBudget = squadRules.budget - totalCost;
 
   // FPL Transfer Rules validation
   const validateTransfer = (playerIn: Player, playerOut: SquadPlayer) => {
@@ -189,29 +191,22 @@ export function TeamPlannerStudio() {
     newComposition[playerOut.position]--;
     newComposition[playerInPosition]++;
     
-    // Squad must have: 2 GKP, 5 DEF, 5 MID, 3 FWD
-    const requiredComposition = { GKP: 2, DEF: 5, MID: 5, FWD: 3 };
-    if (newComposition.GKP !== requiredComposition.GKP) {
-      errors.push(`Squad must have exactly 2 Goalkeepers.`);
-    }
-    if (newComposition.DEF !== requiredComposition.DEF) {
-      errors.push(`Squad must have exactly 5 Defenders.`);
-    }
-    if (newComposition.MID !== requiredComposition.MID) {
-      errors.push(`Squad must have exactly 5 Midfielders.`);
-    }
-    if (newComposition.FWD !== requiredComposition.FWD) {
-      errors.push(`Squad must have exactly 3 Forwards.`);
-    }
+    // Squad must match the season's exact position counts
+    Object.entries(posMap).forEach(([elementType, position]) => {
+      const required = squadRules.positions[Number(elementType)];
+      if (newComposition[position as keyof typeof newComposition] !== required) {
+        errors.push(`Squad must have exactly ${required} ${positionName(Number(elementType), required)}.`);
+      }
+    });
     
-    // Check max 3 players from same team
+    // Check max players from same team
     const newTeamCounts = { ...teamCounts };
     if (playerOut.teamId) newTeamCounts[playerOut.teamId]--;
     newTeamCounts[playerIn.team] = (newTeamCounts[playerIn.team] || 0) + 1;
     
-    if (newTeamCounts[playerIn.team] > 3) {
+    if (newTeamCounts[playerIn.team] > squadRules.maxPerTeam) {
       const teamData = bootstrap?.teams?.find(t => t.id === playerIn.team);
-      errors.push(`Maximum 3 players from ${teamData?.name || 'same team'}.`);
+      errors.push(`Maximum ${squadRules.maxPerTeam} players from ${teamData?.name || 'same team'}.`);
     }
     
     return errors;
@@ -362,7 +357,7 @@ export function TeamPlannerStudio() {
         <Card className="p-3 sm:p-6 bg-[#1e293b] text-white">
           <div className="text-xs sm:text-sm text-gray-400">Team Value</div>
           <div className="text-xl sm:text-3xl font-bold text-[#00ff85] mt-1 sm:mt-2">£{totalCost.toFixed(1)}m</div>
-          <div className="text-[10px] sm:text-xs text-gray-400 mt-1">{allPlayers.length}/15 players</div>
+          <div className="text-[10px] sm:text-xs text-gray-400 mt-1">{allPlayers.length}/{squadRules.size} players</div>
         </Card>
         <Card className="p-3 sm:p-6 bg-[#1e293b] text-white">
           <div className="text-xs sm:text-sm text-gray-400">Budget Remaining</div>
@@ -421,7 +416,7 @@ export function TeamPlannerStudio() {
                 Budget: £{remainingBudget.toFixed(1)}m + £{(transferOut.now_cost / 10).toFixed(1)}m
               </div>
               <div className="text-[10px] sm:text-xs text-red-600 font-semibold mt-1">
-                ⚠️ Must maintain: 2 GKP, 5 DEF, 5 MID, 3 FWD • Max 3 per team
+                ⚠️ Must maintain: {squadRules.positions[1]} GKP, {squadRules.positions[2]} DEF, {squadRules.positions[3]} MID, {squadRules.positions[4]} FWD • Max {squadRules.maxPerTeam} per team
               </div>
             </div>
           )}
@@ -20,8 +20,8 @@ const SIZE_MAP: Record<string, string> = {
 
 /**
  * Three-tier fallback player image: photo → team badge → hidden.
- * Note: crossOrigin is NOT set because the CDN does not send CORS headers.
- * Export/canvas safety is handled by the proxy fallback in exportService.
+ * crossOrigin is set only for images served through the Worker, which sends
+ * CORS headers; the CDNs do not, so their images load without it.
  */
 export function PlayerImage({
   code,
@@ -49,6 +49,7 @@ export function PlayerImage({
   return (
     <img
       src={src}
+      crossOrigin={FPLImages.crossOrigin(src)}
       alt={alt}
       className={`object-cover object-top ${SIZE_MAP[size] || ''} ${className}`}
       onError={() => setTier((prev) => prev + 1)}
@@ -17,8 +17,8 @@ const SIZE_MAP: Record<string, { img: string; icon: number }> = {
 
 /**
  * Team badge with fallback to a Shield icon.
- * Note: crossOrigin is NOT set because the badge CDN does not send CORS headers.
- * Export/canvas safety is handled by the proxy fallback in exportService.
+ * crossOrigin is set only for images served through the Worker, which sends
+ * CORS headers; the CDNs do not, so their images load without it.
  */
 export function TeamBadge({ teamCode, alt, size = 'md', className = '' }: TeamBadgeProps) {
   const [failed, setFailed] = useState(false);
@@ -33,9 +33,12 @@ export function TeamBadge({ teamCode, alt, size = 'md', className = '' }: TeamBa
     );
   }
 
+  const src = FPLImages.teamBadge(teamCode);
+
   return (
     <img
-      src={FPLImages.teamBadge(teamCode)}
+      src={src}
+      crossOrigin={FPLImages.crossOrigin(src)}
       alt={alt}
       className={`${sizeConfig.img} ${className}`}
       onError={() => setFailed(true)}
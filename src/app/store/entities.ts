@@ -0,0 +1,98 @@
+// Normalized entity indexes
+// Built once when bootstrap-static / fixtures arrive so lookups by id and
+// per-team fixture lists don't need a scan of the full arrays.
+import type { Player, Team, Fixture, Event, BootstrapStatic } from '../types/fpl';
+
+export interface BootstrapEntities {
+  players: Player[];
+  teams: Team[];
+  events: Event[];
+  playersById: Map<number, Player>;
+  teamsById: Map<number, Team>;
+  eventsById: Map<number, Event>;
+}
+
+export interface FixtureEntities {
+  fixtures: Fixture[];
+  fixturesById: Map<number, Fixture>;
+  // Every fixture a team plays in, ordered by gameweek (unscheduled last)
+  fixturesByTeam: Map<number, Fixture[]>;
+}
+
+export function indexById<T extends { id: number }>(items: T[]): Map<number, T> {
+  const map = new Map<number, T>();
+  for (const item of items) map.set(item.id, item);
+  return map;
+}
+
+/**
+ * Group items under a numeric key, preserving input order within each group.
+ */
+export function groupBy<T>(items: T[], keyOf: (item: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+// Unscheduled fixtures come through with event null
+function fixtureOrder(fixture: Fixture): number {
+  return fixture.event ?? Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Index bootstrap-static, enriching each player with its team's short name and code.
+ */
+export function buildBootstrapEntities(data: Pick<BootstrapStatic, 'elements' | 'teams' | 'events'>): BootstrapEntities {
+  const teamsById = indexById(data.teams);
+
+  const players = data.elements.map(player => {
+    const team = teamsById.get(player.team);
+    return {
+      ...player,
+      team_name: team?.short_name || '',
+      team_code: team?.code ?? player.team_code,
+    };
+  });
+
+  return {
+    players,
+    teams: data.teams,
+    events: data.events,
+    playersById: indexById(players),
+    teamsById,
+    eventsById: indexById(data.events),
+  };
+}
+
+/**
+ * Index fixtures by id and by team (each fixture is listed under both sides).
+ */
+export function buildFixtureEntities(fixtures: Fixture[]): FixtureEntities {
+  const sorted = [...fixtures].sort((a, b) => fixtureOrder(a) - fixtureOrder(b));
+  const fixturesByTeam = new Map<number, Fixture[]>();
+
+  for (const fixture of sorted) {
+    for (const teamId of [fixture.team_h, fixture.team_a]) {
+      const list = fixturesByTeam.get(teamId);
+      if (list) {
+        list.push(fixture);
+      } else {
+        fixturesByTeam.set(teamId, [fixture]);
+      }
+    }
+  }
+
+  return {
+    fixtures,
+    fixturesById: indexById(fixtures),
+    fixturesByTeam,
+  };
+}
@@ -0,0 +1,276 @@
+import { useEffect, useMemo } from 'react';
+import { create } from 'zustand';
+import type { Fixture, LiveElement } from '../types/fpl';
+import { FPLService } from '../utils/corsProxy';
+import { calculateProvisionalBonus } from '../utils/fplScoring';
+import { getSeasonRules } from '../utils/fplRules';
+import { useFPLStore } from './fpl-store';
+
+// Live gameweek engine (event/{gw}/live/ + fixtures)
+// One poller per gameweek shared by every live page. Polls while matches are
+// in play, sleeps until the next kickoff otherwise, stops once every fixture
+// has finished and pauses while the tab is hidden. Pollers outlive the page
+// that started them, so switching between live pages neither refetches nor
+// resets the countdown.
+
+// 'live': matches in play, polling every LIVE_POLL_INTERVAL
+// 'waiting': nothing in play, next poll at the next kickoff
+// 'finished': every fixture finished, no more polling
+// 'paused': tab hidden
+// 'idle': nothing subscribed, or not loaded yet
+export type LivePollStatus = 'live' | 'waiting' | 'finished' | 'paused' | 'idle';
+
+export interface LiveGameweekEntry {
+  elements: LiveElement[];
+  fixtures: Fixture[]; // this gameweek's fixtures only
+  loading: boolean;
+  error: string | null;
+  lastUpdate: number | null;
+  status: LivePollStatus;
+  nextPollAt: number | null;
+  retryCount: number;
+}
+
+interface LiveGameweekStore {
+  entries: Record<number, LiveGameweekEntry>;
+  // Gameweek picked on the live pages, shared so it survives page switches
+  selectedGameweek: number | null;
+  selectGameweek: (gameweek: number) => void;
+  // Fetch now and reschedule (the Refresh buttons)
+  refreshGameweek: (gameweek: number) => Promise<void>;
+  subscribe: (gameweek: number) => () => void;
+}
+
+export const LIVE_POLL_INTERVAL = 90_000;
+
+// A kickoff that has passed but isn't flagged started yet is polled at the live interval
+const KICKOFF_GRACE = 60_000;
+// Long waits are split so a postponed or rescheduled fixture is picked up
+const MAX_WAIT = 6 * 60 * 60 * 1000;
+// setTimeout's upper bound
+const MAX_TIMER = 2 ** 31 - 1;
+
+export const EMPTY_LIVE_ENTRY: LiveGameweekEntry = {
+  elements: [],
+  fixtures: [],
+  loading: false,
+  error: null,
+  lastUpdate: null,
+  status: 'idle',
+  nextPollAt: null,
+  retryCount: 0,
+};
+
+export function hasFixturesInPlay(fixtures: Fixture[]): boolean {
+  return fixtures.some(f => f.started && !f.finished);
+}
+
+/**
+ * When to poll next from the gameweek's fixtures: the live interval while a
+ * match is in play, the next kickoff while waiting, null once all are finished.
+ */
+export function nextPollSchedule(fixtures: Fixture[], now = Date.now()): { status: LivePollStatus; delay: number | null } {
+  if (hasFixturesInPlay(fixtures)) return { status: 'live', delay: LIVE_POLL_INTERVAL };
+
+  const kickoffs = fixtures
+    .filter(f => !f.started && !f.finished && f.kickoff_time)
+    .map(f => new Date(f.kickoff_time).getTime())
+    .filter(Number.isFinite);
+  if (kickoffs.length === 0) return { status: 'finished', delay: null };
+
+  const untilKickoff = Math.min(...kickoffs) - now;
+  if (untilKickoff <= KICKOFF_GRACE) return { status: 'live', delay: Math.max(untilKickoff, LIVE_POLL_INTERVAL) };
+  return { status: 'waiting', delay: Math.min(untilKickoff, MAX_WAIT) };
+}
+
+// Backoff after a failed poll: 10s, 20s, 40s, 80s, 120s cap
+function retryDelay(retryCount: number): number {
+  return Math.min(10000 * Math.pow(2, retryCount), 120000);
+}
+
+interface Poller {
+  subscribers: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const pollers = new Map<number, Poller>();
+const inflight = new Map<number, Promise<void>>();
+
+export const useLiveGameweekStore = create<LiveGameweekStore>((set, get) => {
+  const entry = (gameweek: number) => get().entries[gameweek] ?? EMPTY_LIVE_ENTRY;
+
+  const updateEntry = (gameweek: number, update: Partial<LiveGameweekEntry>) =>
+    set(state => ({
+      entries: { ...state.entries, [gameweek]: { ...(state.entries[gameweek] ?? EMPTY_LIVE_ENTRY), ...update } },
+    }));
+
+  const clearTimer = (poller: Poller) => {
+    if (poller.timer) clearTimeout(poller.timer);
+    poller.timer = null;
+  };
+
+  // Arm the poller for the entry's nextPollAt (or poll now if that has passed)
+  const arm = (gameweek: number) => {
+    const poller = pollers.get(gameweek);
+    if (!poller || poller.subscribers === 0 || poller.timer || inflight.has(gameweek)) return;
+
+    if (typeof document !== 'undefined' && document.hidden) {
+      if (entry(gameweek).status !== 'finished') updateEntry(gameweek, { status: 'paused' });
+      return;
+    }
+
+    const { nextPollAt, lastUpdate } = entry(gameweek);
+    if (nextPollAt === null) {
+      // Never loaded, or every fixture finished
+      if (lastUpdate === null) poll(gameweek);
+      return;
+    }
+
+    const delay = nextPollAt - Date.now();
+    if (delay <= 0) {
+      poll(gameweek);
+      return;
+    }
+    poller.timer = setTimeout(() => {
+      poller.timer = null;
+      if (poller.subscribers > 0) poll(gameweek);
+      else updateEntry(gameweek, { status: 'idle' });
+    }, Math.min(delay, MAX_TIMER));
+  };
+
+  const poll = (gameweek: number): Promise<void> => {
+    const pending = inflight.get(gameweek);
+    if (pending) return pending;
+
+    const poller = pollers.get(gameweek);
+    if (poller) clearTimer(poller);
+    updateEntry(gameweek, { loading: true });
+
+    const request = (async () => {
+      try {
+        const [data, allFixtures] = await Promise.all([
+          FPLService.loadLiveGameweek(gameweek),
+          FPLService.loadFixtures(true),
+        ]);
+        const fixtures = allFixtures.filter(f => f.event === gameweek);
+        const now = Date.now();
+        const { status, delay } = nextPollSchedule(fixtures, now);
+
+        updateEntry(gameweek, {
+          elements: data.elements,
+          fixtures,
+          loading: false,
+          error: null,
+          lastUpdate: now,
+          status,
+          nextPollAt: delay === null ? null : now + delay,
+          retryCount: 0,
+        });
+
+        // Partial store update — only push changed stats
+        useFPLStore.getState().updateLivePlayerStats(
+          data.elements
+            .filter(el => el.stats.minutes > 0)
+            .map(el => ({ id: el.id, stats: el.stats }))
+        );
+      } catch (err: unknown) {
+        const { retryCount } = entry(gameweek);
+        updateEntry(gameweek, {
+          loading: false,
+          error: err instanceof Error ? err.message : 'Failed to load live data',
+          nextPollAt: Date.now() + retryDelay(retryCount),
+          retryCount: retryCount + 1,
+        });
+      }
+    })().finally(() => {
+      inflight.delete(gameweek);
+      arm(gameweek);
+    });
+
+    inflight.set(gameweek, request);
+    return request;
+  };
+
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      for (const [gameweek, poller] of pollers) {
+        if (document.hidden) {
+          clearTimer(poller);
+          if (poller.subscribers > 0 && entry(gameweek).status !== 'finished') {
+            updateEntry(gameweek, { status: 'paused' });
+          }
+        } else if (poller.subscribers > 0) {
+          const { fixtures, lastUpdate } = entry(gameweek);
+          if (lastUpdate !== null) updateEntry(gameweek, { status: nextPollSchedule(fixtures).status });
+          arm(gameweek);
+        }
+      }
+    });
+  }
+
+  return {
+    entries: {},
+    selectedGameweek: null,
+
+    selectGameweek: (gameweek: number) => set({ selectedGameweek: gameweek }),
+
+    refreshGameweek: (gameweek: number) => poll(gameweek),
+
+    // Count a page showing this gameweek; the returned function releases it.
+    // The timer keeps running with no subscribers and only stops when it fires.
+    subscribe: (gameweek: number) => {
+      const poller = pollers.get(gameweek) ?? { subscribers: 0, timer: null };
+      pollers.set(gameweek, poller);
+      poller.subscribers += 1;
+      arm(gameweek);
+
+      return () => {
+        poller.subscribers -= 1;
+      };
+    },
+  };
+});
+
+/**
+ * Subscribe to a gameweek's live data, starting its poller on first use.
+ * Pass null to skip (e.g. before a team is loaded).
+ */
+export function useLiveGameweek(gameweek: number | null): LiveGameweekEntry {
+  const liveEntry = useLiveGameweekStore(state => (gameweek === null ? null : state.entries[gameweek] ?? null));
+  const subscribe = useLiveGameweekStore(state => state.subscribe);
+
+  useEffect(() => {
+    if (gameweek !== null) return subscribe(gameweek);
+  }, [gameweek, subscribe]);
+
+  return liveEntry ?? EMPTY_LIVE_ENTRY;
+}
+
+/**
+ * The gameweek the live pages show: the one last picked, else the current one.
+ */
+export function useSelectedLiveGameweek(): [number, (gameweek: number) => void] {
+  const currentGameweek = useFPLStore(state => state.currentGameweek);
+  const selectedGameweek = useLiveGameweekStore(state => state.selectedGameweek);
+  const selectGameweek = useLiveGameweekStore(state => state.selectGameweek);
+  return [selectedGameweek ?? currentGameweek, selectGameweek];
+}
+
+/**
+ * Bonus from the current BPS standings of fixtures FPL hasn't confirmed yet,
+ * keyed by player id. Live `total_points` leaves it out until confirmation.
+ */
+export function useProvisionalBonus(entry: LiveGameweekEntry): Map<number, number> {
+  const playersById = useFPLStore(state => state.playersById);
+  const currentSeason = useFPLStore(state => state.currentSeason);
+
+  return useMemo(
+    () => calculateProvisionalBonus(
+      entry.fixtures,
+      entry.elements,
+      id => playersById.get(id)?.element_type,
+      getSeasonRules(currentSeason)
+    ),
+    [entry.fixtures, entry.elements, playersById, currentSeason]
+  );
+}
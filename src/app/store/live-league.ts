@@ -0,0 +1,195 @@
+import { useEffect, useMemo } from 'react';
+import { create } from 'zustand';
+import type { EntryPicks } from '../types/fpl';
+import { fetchWorkerJson, FPLService } from '../utils/corsProxy';
+import { getSeasonRules } from '../utils/fplRules';
+import {
+  buildLivePlayerInputs,
+  MAX_LEAGUE_PAGES,
+  mergeLeagueLivePages,
+  rankLeagueLive,
+  scoreLeagueMember,
+  type LeagueLiveTable,
+} from '../utils/liveLeague';
+import { useFPLStore } from './fpl-store';
+import { EMPTY_LIVE_ENTRY, useLiveGameweek, useLiveGameweekStore } from './live-gameweek';
+
+// Live mini-league tables
+// A classic league re-ranked on live gameweek points, refreshed whenever the
+// shared live gameweek poller updates. With a worker configured the table
+// comes from its /agg/league/{id}/live route; otherwise members' picks are
+// loaded once and re-scored in the browser against each live update. Tables
+// are built a standings page at a time: a whole league is paged through from
+// the top (up to MAX_LEAGUE_PAGES), and a single page can be scored on its own
+// for a stretch of a large league, such as the overall league around a
+// manager's rank.
+
+export type LiveLeagueStatus = 'loading' | 'ready' | 'error';
+
+export interface LiveLeagueEntry {
+  status: LiveLeagueStatus;
+  table: LeagueLiveTable | null; // kept while a refresh is loading or failed
+  error: string | null;
+}
+
+// A league paged through from the top and merged into one table
+export interface LiveLeagueTableEntry extends LiveLeagueEntry {
+  // Official rank of the last manager scored when the league runs past
+  // MAX_LEAGUE_PAGES, otherwise null
+  cutOffRank: number | null;
+}
+
+interface LiveLeagueStore {
+  entries: Record<string, LiveLeagueEntry>;
+  loadLiveLeague: (leagueId: number, gameweek: number, page?: number) => Promise<void>;
+  loadLiveLeaguePages: (leagueId: number, gameweek: number) => Promise<void>;
+}
+
+function leagueKey(leagueId: number, gameweek: number, page: number): string {
+  return `${leagueId}:${gameweek}:${page}`;
+}
+
+// Picks don't change once the deadline has passed, so each is fetched once
+const picksCache = new Map<string, Promise<EntryPicks>>();
+
+/**
+ * A manager's picks for a gameweek, fetched once per session.
+ */
+export function loadPicks(entry: number, gameweek: number): Promise<EntryPicks> {
+  const key = `${entry}:${gameweek}`;
+  let picks = picksCache.get(key);
+  if (!picks) {
+    picks = FPLService.loadManagerTeam(entry, gameweek);
+    picks.catch(() => picksCache.delete(key));
+    picksCache.set(key, picks);
+  }
+  return picks;
+}
+
+async function scoreLeagueInBrowser(leagueId: number, gameweek: number, page: number): Promise<LeagueLiveTable> {
+  const { bootstrap, currentSeason } = useFPLStore.getState();
+  const live = useLiveGameweekStore.getState().entries[gameweek] ?? EMPTY_LIVE_ENTRY;
+  if (!bootstrap) throw new Error('Player data is still loading');
+  const rules = getSeasonRules(currentSeason);
+
+  const standings = await FPLService.loadLeagueStandings(leagueId, false, page);
+  const members = standings.standings.results;
+  const inputs = buildLivePlayerInputs(bootstrap.elements, live.elements, live.fixtures, rules);
+
+  const managers = await Promise.all(members.map(async member =>
+    scoreLeagueMember(member, await loadPicks(member.entry, gameweek), inputs, rules)));
+
+  return {
+    league: { id: standings.league.id, name: standings.league.name },
+    gameweek,
+    season: currentSeason,
+    computed_at: new Date(live.lastUpdate ?? Date.now()).toISOString(),
+    page,
+    has_next: standings.standings.has_next,
+    managers: rankLeagueLive(managers),
+  };
+}
+
+const inflight = new Map<string, Promise<void>>();
+
+export const useLiveLeagueStore = create<LiveLeagueStore>((set, get) => ({
+  entries: {},
+
+  // Build (or rebuild) a league's live table; concurrent callers share one load
+  loadLiveLeague: async (leagueId: number, gameweek: number, page = 1) => {
+    const key = leagueKey(leagueId, gameweek, page);
+    const pending = inflight.get(key);
+    if (pending) return pending;
+
+    const current = get().entries[key];
+    const setEntry = (entry: LiveLeagueEntry) =>
+      set(state => ({ entries: { ...state.entries, [key]: entry } }));
+
+    setEntry({ status: 'loading', table: current?.table ?? null, error: null });
+
+    const request = (async () => {
+      try {
+        const pageQuery = page > 1 ? `&page=${page}` : '';
+        const table = await fetchWorkerJson<LeagueLiveTable>(`/agg/league/${leagueId}/live?gw=${gameweek}${pageQuery}`)
+          ?? await scoreLeagueInBrowser(leagueId, gameweek, page);
+        setEntry({ status: 'ready', table, error: null });
+      } catch (error) {
+        setEntry({
+          status: 'error',
+          table: current?.table ?? null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    })().finally(() => inflight.delete(key));
+
+    inflight.set(key, request);
+    return request;
+  },
+
+  // Load (or reload) a league's pages in order until it ends or the cap is hit
+  loadLiveLeaguePages: async (leagueId: number, gameweek: number) => {
+    for (let page = 1; page <= MAX_LEAGUE_PAGES; page++) {
+      await get().loadLiveLeague(leagueId, gameweek, page);
+      const entry = get().entries[leagueKey(leagueId, gameweek, page)];
+      if (entry?.status !== 'ready' || !entry.table?.has_next) return;
+    }
+  },
+}));
+
+/**
+ * A classic league's live table, rebuilt on every live update for the
+ * gameweek, starting from standings `page`. Pass null to skip.
+ */
+export function useLiveLeague(leagueId: number | null, gameweek: number, page = 1): LiveLeagueEntry | null {
+  const live = useLiveGameweek(leagueId === null ? null : gameweek);
+  const entry = useLiveLeagueStore(state => (leagueId === null ? null : state.entries[leagueKey(leagueId, gameweek, page)] ?? null));
+  const loadLiveLeague = useLiveLeagueStore(state => state.loadLiveLeague);
+
+  useEffect(() => {
+    // Wait for the poller's first load so browser scoring has live data
+    if (leagueId !== null && live.lastUpdate !== null) loadLiveLeague(leagueId, gameweek, page);
+  }, [leagueId, gameweek, page, live.lastUpdate, loadLiveLeague]);
+
+  return entry;
+}
+
+/**
+ * A classic league's live table paged through from the top and re-ranked as
+ * one, rebuilt on every live update for the gameweek. Pages that have loaded
+ * show while later ones are still on their way. Pass null to skip.
+ */
+export function useLiveLeagueTable(leagueId: number | null, gameweek: number): LiveLeagueTableEntry | null {
+  const live = useLiveGameweek(leagueId === null ? null : gameweek);
+  const entries = useLiveLeagueStore(state => state.entries);
+  const loadLiveLeaguePages = useLiveLeagueStore(state => state.loadLiveLeaguePages);
+
+  useEffect(() => {
+    if (leagueId !== null && live.lastUpdate !== null) loadLiveLeaguePages(leagueId, gameweek);
+  }, [leagueId, gameweek, live.lastUpdate, loadLiveLeaguePages]);
+
+  return useMemo(() => {
+    if (leagueId === null) return null;
+    // Consecutive pages from the top; the first one missing or empty ends the run
+    const pages: LiveLeagueEntry[] = [];
+    for (let page = 1; page <= MAX_LEAGUE_PAGES; page++) {
+      const entry = entries[leagueKey(leagueId, gameweek, page)];
+      if (!entry) break;
+      pages.push(entry);
+      if (!entry.table?.has_next) break;
+    }
+    if (pages.length === 0) return null;
+
+    const tables = pages.flatMap(entry => (entry.table ? [entry.table] : []));
+    const failed = pages.find(entry => entry.status === 'error');
+    const lastTable = tables[tables.length - 1];
+    const reachedCap = lastTable?.page === MAX_LEAGUE_PAGES && lastTable.has_next;
+    const morePages = !!lastTable?.has_next && !reachedCap;
+    const loading = morePages || pages.some(entry => entry.status === 'loading');
+    return {
+      status: failed ? 'error' : loading ? 'loading' : 'ready',
+      table: tables.length > 0 ? mergeLeagueLivePages(tables) : null,
+      error: failed?.error ?? null,
+      cutOffRank: reachedCap ? Math.max(...lastTable.managers.map(manager => manager.last_rank)) : null,
+    };
+  }, [entries, leagueId, gameweek]);
+}
@@ -0,0 +1,220 @@
+import { useEffect, useMemo } from 'react';
+import { create } from 'zustand';
+import type { LeagueStandings } from '../types/fpl';
+import { fetchWorkerJson, FPLService } from '../utils/corsProxy';
+import { getSeasonRules } from '../utils/fplRules';
+import { buildLivePlayerInputs } from '../utils/liveLeague';
+import {
+  estimateLiveRank,
+  OVERALL_LEAGUE_ID,
+  planRankStrata,
+  sampleLiveTotals,
+  type LiveRankEstimate,
+  type RankSample,
+} from '../utils/rankEstimate';
+import { useFPLStore } from './fpl-store';
+import { EMPTY_LIVE_ENTRY, useLiveGameweek, useLiveGameweekStore } from './live-gameweek';
+import { loadPicks } from './live-league';
+
+// Live overall rank estimates
+// A points-to-rank sample of the overall league, rebuilt on every live update,
+// and each manager's estimated rank over the gameweek. With a worker
+// configured the sample comes from its /agg/overall/live route; otherwise the
+// sampled managers are loaded once and re-scored in the browser. Trajectories
+// are kept in localStorage so a reload mid-gameweek doesn't lose them.
+
+export type RankSampleStatus = 'loading' | 'ready' | 'error';
+
+export interface RankSampleEntry {
+  status: RankSampleStatus;
+  sample: RankSample | null; // kept while a refresh is loading or failed
+  error: string | null;
+  liveUpdate: number | null; // the live gameweek update the load was for
+}
+
+export interface RankTrajectoryPoint {
+  at: number; // the live gameweek update it was estimated at
+  points: number; // live total
+  rank: number;
+  best: number;
+  worst: number;
+}
+
+interface LiveRankStore {
+  samples: Record<number, RankSampleEntry>;
+  // Keyed by `${entry}:${gameweek}`
+  trajectories: Record<string, RankTrajectoryPoint[]>;
+  loadRankSample: (gameweek: number, liveUpdate: number | null) => Promise<void>;
+  recordEstimate: (entry: number, gameweek: number, point: RankTrajectoryPoint) => void;
+}
+
+const TRAJECTORY_KEY = 'fpl_live_rank_trajectories';
+
+function loadTrajectories(): Record<string, RankTrajectoryPoint[]> {
+  try {
+    const data = typeof localStorage !== 'undefined' ? localStorage.getItem(TRAJECTORY_KEY) : null;
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveTrajectories(trajectories: Record<string, RankTrajectoryPoint[]>) {
+  try {
+    localStorage.setItem(TRAJECTORY_KEY, JSON.stringify(trajectories));
+  } catch {
+    // Storage full or unavailable — the trajectory just won't survive a reload
+  }
+}
+
+// Sampled standings pages, fetched once per gameweek: the same managers are
+// re-scored on each live update rather than re-drawn
+const pagesCache = new Map<string, Promise<LeagueStandings>>();
+
+function loadOverallPage(gameweek: number, page: number): Promise<LeagueStandings> {
+  const key = `${gameweek}:${page}`;
+  let standings = pagesCache.get(key);
+  if (!standings) {
+    standings = FPLService.loadLeagueStandings(OVERALL_LEAGUE_ID, false, page);
+    standings.catch(() => pagesCache.delete(key));
+    pagesCache.set(key, standings);
+  }
+  return standings;
+}
+
+async function sampleInBrowser(gameweek: number): Promise<RankSample> {
+  const { bootstrap, currentSeason } = useFPLStore.getState();
+  const live = useLiveGameweekStore.getState().entries[gameweek] ?? EMPTY_LIVE_ENTRY;
+  if (!bootstrap) throw new Error('Player data is still loading');
+  if (!bootstrap.total_players) throw new Error('Player count unavailable');
+  const rules = getSeasonRules(currentSeason);
+
+  const inputs = buildLivePlayerInputs(bootstrap.elements, live.elements, live.fixtures, rules);
+  const strata = await sampleLiveTotals(planRankStrata(bootstrap.total_players), {
+    standingsPage: page => loadOverallPage(gameweek, page),
+    picks: entry => loadPicks(entry, gameweek),
+  }, inputs, rules);
+
+  return {
+    gameweek,
+    season: currentSeason,
+    computed_at: new Date(live.lastUpdate ?? Date.now()).toISOString(),
+    total_players: bootstrap.total_players,
+    strata,
+  };
+}
+
+// A gameweek's load in flight, and the live update it was started for
+interface PendingLoad {
+  liveUpdate: number | null;
+  request: Promise<void>;
+}
+
+const inflight = new Map<number, PendingLoad>();
+// At most one reload per gameweek waits behind the load in flight, for the
+// newest live update asked for while it ran
+const queued = new Map<number, PendingLoad>();
+
+export const useLiveRankStore = create<LiveRankStore>((set, get) => ({
+  samples: {},
+  trajectories: loadTrajectories(),
+
+  // Build (or rebuild) a gameweek's sample; concurrent callers for the same
+  // live update share one load, and a newer update reloads once it finishes
+  loadRankSample: async (gameweek: number, liveUpdate: number | null) => {
+    const pending = inflight.get(gameweek);
+    if (pending) {
+      if (pending.liveUpdate === liveUpdate) return pending.request;
+      const waiting = queued.get(gameweek);
+      if (waiting) {
+        waiting.liveUpdate = liveUpdate;
+        return waiting.request;
+      }
+      const reload: PendingLoad = { liveUpdate, request: Promise.resolve() };
+      reload.request = pending.request.then(() => {
+        queued.delete(gameweek);
+        return get().loadRankSample(gameweek, reload.liveUpdate);
+      });
+      queued.set(gameweek, reload);
+      return reload.request;
+    }
+
+    const current = get().samples[gameweek];
+    const setEntry = (entry: RankSampleEntry) =>
+      set(state => ({ samples: { ...state.samples, [gameweek]: entry } }));
+
+    setEntry({ status: 'loading', sample: current?.sample ?? null, error: null, liveUpdate });
+
+    const request = (async () => {
+      try {
+        const sample = await fetchWorkerJson<RankSample>(`/agg/overall/live?gw=${gameweek}`)
+          ?? await sampleInBrowser(gameweek);
+        setEntry({ status: 'ready', sample, error: null, liveUpdate });
+      } catch (error) {
+        setEntry({
+          status: 'error',
+          sample: current?.sample ?? null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          liveUpdate,
+        });
+      }
+    })().finally(() => inflight.delete(gameweek));
+
+    inflight.set(gameweek, { liveUpdate, request });
+    return request;
+  },
+
+  // Append to a manager's trajectory, once per live update. Other gameweeks'
+  // trajectories are dropped so storage doesn't grow over the season.
+  recordEstimate: (entry: number, gameweek: number, point: RankTrajectoryPoint) => {
+    const key = `${entry}:${gameweek}`;
+    const existing = get().trajectories[key] ?? [];
+    if (existing.some(p => p.at === point.at)) return;
+
+    const trajectories = Object.fromEntries(
+      Object.entries(get().trajectories).filter(([k]) => k.endsWith(`:${gameweek}`))
+    );
+    trajectories[key] = [...existing, point];
+    set({ trajectories });
+    saveTrajectories(trajectories);
+  },
+}));
+
+export interface LiveRankState {
+  estimate: LiveRankEstimate | null;
+  sample: RankSampleEntry | null;
+  trajectory: RankTrajectoryPoint[];
+}
+
+/**
+ * A manager's estimated live overall rank from their live total (season total
+ * including live gameweek points), recorded into their trajectory once the
+ * sample has caught up with each live update. Pass a null entry or total to skip.
+ */
+export function useLiveRankEstimate(entry: number | null, gameweek: number, liveTotal: number | null): LiveRankState {
+  const enabled = entry !== null && liveTotal !== null;
+  const live = useLiveGameweek(enabled ? gameweek : null);
+  const sample = useLiveRankStore(state => (enabled ? state.samples[gameweek] ?? null : null));
+  const trajectory = useLiveRankStore(state => (enabled ? state.trajectories[`${entry}:${gameweek}`] : undefined));
+  const loadRankSample = useLiveRankStore(state => state.loadRankSample);
+  const recordEstimate = useLiveRankStore(state => state.recordEstimate);
+
+  useEffect(() => {
+    // Wait for the poller's first load so browser sampling has live data
+    if (enabled && live.lastUpdate !== null) loadRankSample(gameweek, live.lastUpdate);
+  }, [enabled, gameweek, live.lastUpdate, loadRankSample]);
+
+  const estimate = useMemo(
+    () => (sample?.sample && liveTotal !== null ? estimateLiveRank(sample.sample, liveTotal) : null),
+    [sample?.sample, liveTotal]
+  );
+
+  const caughtUp = sample?.status === 'ready' && sample.liveUpdate === live.lastUpdate;
+
+  useEffect(() => {
+    if (entry === null || liveTotal === null || !estimate || !caughtUp || live.lastUpdate === null) return;
+    recordEstimate(entry, gameweek, { at: live.lastUpdate, points: liveTotal, ...estimate });
+  }, [entry, gameweek, liveTotal, estimate, caughtUp, live.lastUpdate, recordEstimate]);
+
+  return { estimate, sample, trajectory: trajectory ?? [] };
+}
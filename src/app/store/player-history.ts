@@ -0,0 +1,201 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import type { ElementSummary, ElementSummaryFixture, ElementSummaryHistory, ElementSummaryPastSeason } from '../types/fpl';
+import { FPLService } from '../utils/corsProxy';
+import { fplCache } from '../utils/persistentCache';
+import type { RequestPriority } from '../utils/requestQueue';
+
+// Player history (element-summary/{id}/)
+// Per-gameweek history, past-season totals and upcoming fixtures for a player,
+// cached in IndexedDB and shared by every page that shows player detail.
+
+// One row per gameweek — double gameweeks are summed into a single row
+export interface PlayerGameweek {
+  gameweek: number;
+  fixtures: number;
+  points: number;
+  minutes: number;
+  goals: number;
+  assists: number;
+  cleanSheets: number;
+  bonus: number;
+  bps: number;
+  xG: number;
+  xA: number;
+  xGI: number;
+  price: number; // tenths, as at the (last) fixture
+  selectedBy: number;
+  opponents: Array<{ teamId: number; isHome: boolean }>;
+}
+
+export interface PlayerHistory {
+  playerId: number;
+  gameweeks: PlayerGameweek[];
+  pastSeasons: ElementSummaryPastSeason[];
+  upcoming: ElementSummaryFixture[];
+  fetchedAt: number;
+}
+
+export type PlayerHistoryStatus = 'loading' | 'ready' | 'error';
+
+export interface PlayerHistoryEntry {
+  status: PlayerHistoryStatus;
+  history: PlayerHistory | null;
+  error: string | null;
+}
+
+interface PlayerHistoryStore {
+  entries: Record<number, PlayerHistoryEntry>;
+  loadPlayerHistory: (playerId: number, priority?: RequestPriority) => Promise<PlayerHistory | null>;
+  prefetchPlayerHistories: (playerIds: number[]) => void;
+}
+
+function parseDecimal(value: string | undefined): number {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Collapse element-summary history (one row per fixture) into one row per gameweek.
+ */
+export function summarizeGameweeks(history: ElementSummaryHistory[]): PlayerGameweek[] {
+  const byRound = new Map<number, PlayerGameweek>();
+
+  for (const row of history) {
+    const existing = byRound.get(row.round);
+    const gw: PlayerGameweek = existing ?? {
+      gameweek: row.round,
+      fixtures: 0,
+      points: 0,
+      minutes: 0,
+      goals: 0,
+      assists: 0,
+      cleanSheets: 0,
+      bonus: 0,
+      bps: 0,
+      xG: 0,
+      xA: 0,
+      xGI: 0,
+      price: row.value,
+      selectedBy: row.selected,
+      opponents: [],
+    };
+
+    gw.fixtures += 1;
+    gw.points += row.total_points;
+    gw.minutes += row.minutes;
+    gw.goals += row.goals_scored;
+    gw.assists += row.assists;
+    gw.cleanSheets += row.clean_sheets;
+    gw.bonus += row.bonus;
+    gw.bps += row.bps;
+    gw.xG += parseDecimal(row.expected_goals);
+    gw.xA += parseDecimal(row.expected_assists);
+    gw.xGI += parseDecimal(row.expected_goal_involvements);
+    gw.price = row.value;
+    gw.selectedBy = row.selected;
+    gw.opponents.push({ teamId: row.opponent_team, isHome: row.was_home });
+
+    byRound.set(row.round, gw);
+  }
+
+  return [...byRound.values()].sort((a, b) => a.gameweek - b.gameweek);
+}
+
+function toPlayerHistory(playerId: number, summary: ElementSummary, fetchedAt: number): PlayerHistory {
+  return {
+    playerId,
+    gameweeks: summarizeGameweeks(summary.history),
+    pastSeasons: summary.history_past,
+    upcoming: summary.fixtures,
+    fetchedAt,
+  };
+}
+
+function cacheKey(playerId: number): string {
+  return `element-summary:${playerId}`;
+}
+
+// Background prefetches beyond this many players are dropped (each is one request)
+const MAX_PREFETCH = 20;
+
+const inflight = new Map<number, Promise<PlayerHistory | null>>();
+
+export const usePlayerHistoryStore = create<PlayerHistoryStore>((set, get) => ({
+  entries: {},
+
+  // Load a player's history (cache first); concurrent callers share one request
+  loadPlayerHistory: async (playerId: number, priority: RequestPriority = 'normal') => {
+    const current = get().entries[playerId];
+    if (current?.status === 'ready') return current.history;
+
+    const pending = inflight.get(playerId);
+    if (pending) {
+      // Re-requesting through the queue promotes a pending background prefetch
+      if (priority !== 'background') {
+        FPLService.loadPlayerDetails(playerId, priority).catch(() => undefined);
+      }
+      return pending;
+    }
+
+    const setEntry = (entry: PlayerHistoryEntry) =>
+      set(state => ({ entries: { ...state.entries, [playerId]: entry } }));
+
+    setEntry({ status: 'loading', history: current?.history ?? null, error: null });
+
+    const request = (async () => {
+      try {
+        const { data, storedAt } = await fplCache.getOrFetch(
+          cacheKey(playerId),
+          'elementSummary',
+          () => FPLService.loadPlayerDetails(playerId, priority),
+          {
+            onRevalidate: (fresh, freshAt) => {
+              setEntry({ status: 'ready', history: toPlayerHistory(playerId, fresh, freshAt), error: null });
+            },
+          }
+        );
+
+        const history = toPlayerHistory(playerId, data, storedAt);
+        setEntry({ status: 'ready', history, error: null });
+        return history;
+      } catch (error) {
+        setEntry({
+          status: 'error',
+          history: current?.history ?? null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return null;
+      }
+    })().finally(() => inflight.delete(playerId));
+
+    inflight.set(playerId, request);
+    return request;
+  },
+
+  // Warm the cache for players the user is likely to open next
+  prefetchPlayerHistories: (playerIds: number[]) => {
+    const { entries, loadPlayerHistory } = get();
+    playerIds
+      .filter(id => !entries[id])
+      .slice(0, MAX_PREFETCH)
+      .forEach(id => {
+        loadPlayerHistory(id, 'background');
+      });
+  },
+}));
+
+/**
+ * Subscribe to a player's history, loading it on first use.
+ * Pass null to skip (e.g. when nothing is selected).
+ */
+export function usePlayerHistory(playerId: number | null): PlayerHistoryEntry | null {
+  const entry = usePlayerHistoryStore(state => (playerId === null ? null : state.entries[playerId] ?? null));
+  const loadPlayerHistory = usePlayerHistoryStore(state => state.loadPlayerHistory);
+
+  useEffect(() => {
+    if (playerId !== null) loadPlayerHistory(playerId);
+  }, [playerId, loadPlayerHistory]);
+
+  return entry;
+}
@@ -0,0 +1,144 @@
+import { create } from 'zustand';
+import type { Player, SeasonArchive, SeasonGameweekRow } from '../types/fpl';
+import { requestToPromise, transactionDone } from '../utils/persistentCache';
+import { buildSeasonArchive, type SeasonImportFile } from '../utils/seasonImport';
+
+// Imported past seasons
+// Archives are kept in their own IndexedDB database — unlike the API cache they
+// never expire and aren't subject to its size-based eviction.
+
+const DB_NAME = 'fpl-season-archives';
+const DB_VERSION = 1;
+const STORE_NAME = 'seasons';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDB(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'season' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      // Archives then only live for this session
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch (_err: unknown) {
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+interface SeasonArchiveStore {
+  archives: Record<string, SeasonArchive>;
+  isLoaded: boolean;
+
+  loadArchives: () => Promise<void>;
+  importSeason: (season: string, files: SeasonImportFile[]) => Promise<SeasonArchive>;
+  removeSeason: (season: string) => Promise<void>;
+}
+
+export const useSeasonArchiveStore = create<SeasonArchiveStore>((set, get) => ({
+  archives: {},
+  isLoaded: false,
+
+  // Read every stored archive into memory (once per session)
+  loadArchives: async () => {
+    if (get().isLoaded) return;
+
+    const db = await openDB();
+    let stored: SeasonArchive[] = [];
+    if (db) {
+      try {
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        stored = await requestToPromise(tx.objectStore(STORE_NAME).getAll()) as SeasonArchive[];
+      } catch (_err: unknown) {
+        stored = [];
+      }
+    }
+
+    set(state => ({
+      isLoaded: true,
+      archives: { ...Object.fromEntries(stored.map(a => [a.season, a])), ...state.archives },
+    }));
+  },
+
+  // Parse the files and store them as a season (replacing any earlier import of it)
+  importSeason: async (season: string, files: SeasonImportFile[]) => {
+    const archive = buildSeasonArchive(season, files);
+
+    const db = await openDB();
+    if (db) {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(archive);
+      await transactionDone(tx);
+    }
+
+    set(state => ({ archives: { ...state.archives, [season]: archive } }));
+    return archive;
+  },
+
+  removeSeason: async (season: string) => {
+    const db = await openDB();
+    if (db) {
+      try {
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        tx.objectStore(STORE_NAME).delete(season);
+        await transactionDone(tx);
+      } catch (_err: unknown) {
+        // Already gone
+      }
+    }
+
+    set(state => {
+      const { [season]: _removed, ...rest } = state.archives;
+      return { archives: rest };
+    });
+  },
+}));
+
+function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/**
+ * Find a current player in a past season. Player `code` is stable across
+ * seasons (element ids are not); names are the fallback for archives without codes.
+ */
+export function findSeasonPlayer(archive: SeasonArchive, player: Player): Player | null {
+  if (player.code) {
+    const byCode = archive.players.find(p => p.code === player.code);
+    if (byCode) return byCode;
+  }
+
+  const fullName = normalizeName(`${player.first_name} ${player.second_name}`);
+  return archive.players.find(p => normalizeName(`${p.first_name} ${p.second_name}`) === fullName) ?? null;
+}
+
+/**
+ * A past-season player's per-gameweek rows, in gameweek order.
+ */
+export function getSeasonGameweeks(archive: SeasonArchive, seasonPlayer: Player): SeasonGameweekRow[] {
+  return archive.history
+    .filter(row => row.element === seasonPlayer.id)
+    .sort((a, b) => a.round - b.round);
+}
+
+/**
+ * Imported season labels, newest first.
+ */
+export function sortedSeasons(archives: Record<string, SeasonArchive>): string[] {
+  return Object.keys(archives).sort((a, b) => b.localeCompare(a));
+}
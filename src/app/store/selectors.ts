@@ -0,0 +1,59 @@
+// Memoized store selectors
+// Each selector recomputes only when the slice it reads changes reference,
+// so `useFPLStore(selectPlayersByPosition)` returns a stable value between renders.
+import type { Player, Fixture } from '../types/fpl';
+import type { FPLStore } from './fpl-store';
+import { groupBy } from './entities';
+
+/**
+ * Memoize a derivation of one store slice on that slice's reference.
+ */
+function memoizeOnSlice<S, R>(getSlice: (state: FPLStore) => S, derive: (slice: S) => R) {
+  let lastSlice: S | undefined;
+  let lastResult: R | undefined;
+  let initialized = false;
+
+  return (state: FPLStore): R => {
+    const slice = getSlice(state);
+    if (!initialized || slice !== lastSlice) {
+      lastSlice = slice;
+      lastResult = derive(slice);
+      initialized = true;
+    }
+    return lastResult as R;
+  };
+}
+
+const byTotalPoints = (a: Player, b: Player) => b.total_points - a.total_points;
+
+/** Players grouped by element_type (1=GK … 4=FWD), each group sorted by total points. */
+export const selectPlayersByPosition = memoizeOnSlice(
+  state => state.players,
+  (players): Map<number, Player[]> => {
+    const groups = groupBy(players, p => p.element_type);
+    for (const group of groups.values()) group.sort(byTotalPoints);
+    return groups;
+  }
+);
+
+/** Players grouped by team id, each group sorted by total points. */
+export const selectPlayersByTeam = memoizeOnSlice(
+  state => state.players,
+  (players): Map<number, Player[]> => {
+    const groups = groupBy(players, p => p.team);
+    for (const group of groups.values()) group.sort(byTotalPoints);
+    return groups;
+  }
+);
+
+/** Each team's unfinished fixtures in gameweek order. */
+export const selectUpcomingFixturesByTeam = memoizeOnSlice(
+  state => state.fixturesByTeam,
+  (fixturesByTeam): Map<number, Fixture[]> => {
+    const upcoming = new Map<number, Fixture[]>();
+    for (const [teamId, fixtures] of fixturesByTeam) {
+      upcoming.set(teamId, fixtures.filter(f => !f.finished));
+    }
+    return upcoming;
+  }
+);
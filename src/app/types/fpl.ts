@@ -5,6 +5,18 @@ export interface Team {
   name: string;
   short_name: string;
   strength: number;
+  position?: number;
+  played?: number;
+  win?: number;
+  draw?: number;
+  loss?: number;
+  points?: number;
+  strength_overall_home?: number;
+  strength_overall_away?: number;
+  strength_attack_home?: number;
+  strength_attack_away?: number;
+  strength_defence_home?: number;
+  strength_defence_away?: number;
 }
 
 export interface Player {
@@ -15,14 +27,17 @@ export interface Player {
   second_name: string;
   web_name: string;
   team: number;
-  team_name?: string;
+  team_name?: string; // enriched from teams by the store
   element_type: number; // 1=GK, 2=DEF, 3=MID, 4=FWD
   now_cost: number; // price in tenths (e.g., 65 = £6.5m)
   cost_change_start: number;
+  cost_change_event?: number;
   selected_by_percent: string;
   form: string;
   points_per_game: string;
   total_points: number;
+  event_points?: number;
+  minutes: number;
   goals_scored: number;
   assists: number;
   clean_sheets: number;
@@ -43,26 +58,45 @@ export interface Player {
   expected_assists: string;
   expected_goal_involvements: string;
   expected_goals_conceded: string;
+  transfers_in?: number;
+  transfers_out?: number;
+  transfers_in_event: number;
+  transfers_out_event: number;
+  chance_of_playing_this_round?: number | null;
+  chance_of_playing_next_round: number | null;
   status: string; // 'a' = available, 'i' = injured, 'd' = doubtful, 's' = suspended
   news: string;
   photo: string;
 }
 
+// Per-fixture stat breakdown, e.g. { identifier: 'bps', a: [...], h: [...] }
+export interface FixtureStat {
+  identifier: string;
+  a: Array<{ value: number; element: number }>;
+  h: Array<{ value: number; element: number }>;
+}
+
 export interface Fixture {
   id: number;
-  event: number; // gameweek
+  code?: number;
+  event: number; // gameweek (null in the API for unscheduled fixtures)
   team_h: number;
   team_a: number;
   team_h_difficulty: number;
   team_a_difficulty: number;
+  team_h_score?: number | null;
+  team_a_score?: number | null;
   kickoff_time: string;
+  started?: boolean | null;
   finished: boolean;
+  finished_provisional?: boolean;
+  minutes?: number;
+  stats?: FixtureStat[];
 }
 
-export interface BootstrapStatic {
-  events: Event[];
-  teams: Team[];
-  elements: Player[];
+export interface ChipPlay {
+  chip_name: string;
+  num_played: number;
 }
 
 export interface Event {
@@ -72,6 +106,29 @@ export interface Event {
   finished: boolean;
   is_current: boolean;
   is_next: boolean;
+  is_previous?: boolean;
+  data_checked?: boolean;
+  average_entry_score?: number;
+  highest_score?: number | null;
+  most_captained?: number | null;
+  chip_plays?: ChipPlay[];
+}
+
+export interface ElementType {
+  id: number;
+  singular_name: string;
+  singular_name_short: string;
+  squad_select: number;
+  squad_min_play: number;
+  squad_max_play: number;
+}
+
+export interface BootstrapStatic {
+  events: Event[];
+  teams: Team[];
+  elements: Player[];
+  element_types?: ElementType[];
+  total_players?: number;
 }
 
 export interface PlayerFixture {
@@ -80,3 +137,246 @@ export interface PlayerFixture {
   difficulty: number;
   isHome: boolean;
 }
+
+// entry/{id}/
+export interface ClassicLeagueSummary {
+  id: number;
+  name: string;
+  short_name: string | null;
+  entry_rank: number;
+  entry_last_rank: number;
+  league_type: string; // 'x' for private, 's' for public
+}
+
+export interface ManagerEntry {
+  id: number;
+  player_first_name: string;
+  player_last_name: string;
+  name: string;
+  summary_overall_points: number;
+  summary_overall_rank: number | null;
+  summary_event_points?: number | null;
+  current_event: number | null;
+  started_event?: number;
+  last_deadline_bank?: number | null;
+  last_deadline_value?: number | null;
+  leagues: {
+    classic: ClassicLeagueSummary[];
+  };
+}
+
+// entry/{id}/history/
+export interface EntryEventHistory {
+  event: number;
+  points: number;
+  total_points: number;
+  rank: number | null;
+  overall_rank: number | null;
+  bank: number;
+  value: number;
+  event_transfers: number;
+  event_transfers_cost: number;
+  points_on_bench: number;
+}
+
+export interface EntryPastSeason {
+  season_name: string;
+  total_points: number;
+  rank: number;
+}
+
+export interface EntryChip {
+  name: string;
+  time: string;
+  event: number;
+}
+
+export interface EntryHistory {
+  current: EntryEventHistory[];
+  past: EntryPastSeason[];
+  chips: EntryChip[];
+}
+
+// entry/{id}/event/{gw}/picks/
+export interface Pick {
+  element: number;
+  position: number;
+  multiplier: number;
+  is_captain: boolean;
+  is_vice_captain: boolean;
+}
+
+export interface EntryPicks {
+  active_chip: string | null;
+  entry_history: EntryEventHistory;
+  picks: Pick[];
+}
+
+// event/{gw}/live/
+export interface LiveStats {
+  minutes: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  goals_conceded: number;
+  own_goals: number;
+  penalties_saved: number;
+  penalties_missed: number;
+  yellow_cards: number;
+  red_cards: number;
+  saves: number;
+  bonus: number;
+  bps: number;
+  influence: string;
+  creativity: string;
+  threat: string;
+  ict_index: string;
+  total_points: number;
+  starts?: number;
+  expected_goals?: string;
+  expected_assists?: string;
+  expected_goal_involvements?: string;
+  expected_goals_conceded?: string;
+  clearances_blocks_interceptions?: number;
+  recoveries?: number;
+  tackles?: number;
+  defensive_contribution?: number;
+  saves_inside_box?: number;
+  saves_outside_box?: number;
+  goalline_clearances?: number;
+  penalties_conceded?: number;
+  in_dreamteam?: boolean;
+}
+
+export interface LiveExplainStat {
+  identifier: string;
+  points: number;
+  value: number;
+}
+
+export interface LiveExplain {
+  fixture: number;
+  stats: LiveExplainStat[];
+}
+
+export interface LiveElement {
+  id: number;
+  stats: LiveStats;
+  explain: LiveExplain[];
+}
+
+export interface LiveGameweek {
+  elements: LiveElement[];
+}
+
+// element-summary/{id}/
+export interface ElementSummaryFixture {
+  id: number;
+  event: number | null;
+  team_h: number;
+  team_a: number;
+  is_home: boolean;
+  difficulty: number;
+  kickoff_time: string | null;
+  finished: boolean;
+}
+
+export interface ElementSummaryHistory {
+  element: number;
+  fixture: number;
+  opponent_team: number;
+  round: number;
+  was_home: boolean;
+  kickoff_time: string;
+  total_points: number;
+  minutes: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  goals_conceded: number;
+  bonus: number;
+  bps: number;
+  value: number;
+  selected: number;
+  expected_goals: string;
+  expected_assists: string;
+  expected_goal_involvements: string;
+  expected_goals_conceded: string;
+  team_h_score: number | null;
+  team_a_score: number | null;
+}
+
+export interface ElementSummaryPastSeason {
+  season_name: string;
+  element_code: number;
+  start_cost: number;
+  end_cost: number;
+  total_points: number;
+  minutes: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  bonus: number;
+  bps: number;
+  expected_goals?: string;
+  expected_assists?: string;
+}
+
+export interface ElementSummary {
+  fixtures: ElementSummaryFixture[];
+  history: ElementSummaryHistory[];
+  history_past: ElementSummaryPastSeason[];
+}
+
+// leagues-classic/{id}/standings/
+export interface LeagueStanding {
+  id: number;
+  event_total: number;
+  player_name: string;
+  rank: number;
+  last_rank: number;
+  rank_sort: number;
+  total: number;
+  entry: number;
+  entry_name: string;
+}
+
+export interface LeagueStandings {
+  league: {
+    id: number;
+    name: string;
+  };
+  standings: {
+    has_next: boolean;
+    page: number;
+    results: LeagueStanding[];
+  };
+}
+
+// Historical season archives (imported from JSON/CSV exports)
+export interface SeasonGameweekRow {
+  element: number;
+  round: number;
+  fixture: number | null;
+  opponent_team: number | null;
+  was_home: boolean | null;
+  total_points: number;
+  minutes: number;
+  goals_scored: number;
+  assists: number;
+  clean_sheets: number;
+  bonus: number;
+  bps: number;
+  expected_goals: string;
+  expected_assists: string;
+  value: number | null;
+}
+
+export interface SeasonArchive {
+  season: string; // e.g. '2023/24'
+  importedAt: number;
+  players: Player[];
+  teams: Team[];
+  history: SeasonGameweekRow[];
+  fixtures: Fixture[];
+}
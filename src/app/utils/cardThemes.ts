@@ -155,10 +155,11 @@ export const deleteCardDesign = (id: string): boolean => {
   return true;
 };
 
-// Twitter share utility
-export const shareToTwitter = (text: string, hashtags: string[] = ['FPL', 'FantasyPL']): void => {
+// Twitter share utility — pass a share card link (shareCardUrl) for a rich preview
+export const shareToTwitter = (text: string, hashtags: string[] = ['FPL', 'FantasyPL'], url?: string): void => {
   const twitterUrl = new URL('https://twitter.com/intent/tweet');
   twitterUrl.searchParams.append('text', text);
+  if (url) twitterUrl.searchParams.append('url', url);
   twitterUrl.searchParams.append('hashtags', hashtags.join(','));
   twitterUrl.searchParams.append('via', 'FPL_Dave_');
   
@@ -2,12 +2,37 @@
 // In development: Vite proxy rewrites /fpl-api/* → fantasy.premierleague.com/api/*
 // In production: Cloudflare Worker at WORKER_URL proxies all FPL API requests
 
+import type {
+  BootstrapStatic,
+  Fixture,
+  ManagerEntry,
+  EntryHistory,
+  EntryPicks,
+  LiveGameweek,
+  ElementSummary,
+  LeagueStandings,
+} from '../types/fpl';
+import { parseFPLResponse, type FPLResponseTypes, type FPLSchemaName } from './fplSchema';
+import { fplRequestQueue, parseRetryAfter, RateLimitError, type RequestPriority } from './requestQueue';
+
 const FPL_BASE = 'https://fantasy.premierleague.com/api';
 const isDev = import.meta.env.DEV;
 
 // ⚠️  After deploying the Cloudflare Worker, paste your worker URL here:
 const WORKER_URL = import.meta.env.VITE_FPL_WORKER_URL || '';
 
+// When the Worker last fetched each API path from FPL (its X-Fetched-At header).
+// The Worker may answer from its edge cache, so this can be older than our request.
+const upstreamFetchedAt = new Map<string, number>();
+
+/**
+ * When the data last returned for an API path was fetched from FPL, if the
+ * Worker reported it. Null in dev and with the third-party proxies.
+ */
+export function getUpstreamFetchedAt(apiPath: string): number | null {
+  return upstreamFetchedAt.get(apiPath) ?? null;
+}
+
 /**
  * Build the URL for an FPL API path.
  * Dev  → /fpl-api/bootstrap-static/  (Vite proxy, no CORS)
@@ -34,194 +59,248 @@ function buildUrl(apiPath: string, bustCache: boolean): string {
 
 /**
  * Fetch an FPL API path, handling CORS transparently.
+ * A 429 (or an exhausted proxy chain) throws RateLimitError so the request
+ * queue can pause every caller and retry.
  */
-async function fetchFPL(apiPath: string, bustCache = false): Promise<Response> {
-  const url = buildUrl(apiPath, bustCache);
-
+async function requestFPL(url: string, apiPath: string, bustCache: boolean): Promise<unknown> {
   // Dev (Vite proxy) or Production with Cloudflare Worker — direct fetch works
   if (isDev || WORKER_URL) {
     const response = await fetch(url, {
       headers: { 'Accept': 'application/json' },
       cache: bustCache ? 'no-store' : 'default',
     });
-    if (response.ok) return response;
+    if (response.ok) {
+      const fetchedAt = Date.parse(response.headers.get('X-Fetched-At') || '');
+      if (!Number.isNaN(fetchedAt)) upstreamFetchedAt.set(apiPath, fetchedAt);
+      return response.json();
+    }
+    if (response.status === 429) {
+      throw new RateLimitError('FPL API rate limit reached', parseRetryAfter(response.headers.get('Retry-After')));
+    }
     throw new Error(`FPL API error: ${response.status} ${response.statusText}`);
   }
 
+  // Offline: the proxy chain can't succeed, so fail fast instead of
+  // cycling through every proxy and the retry delay
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    throw new Error('You are offline. Showing the last saved FPL data.');
+  }
+
   // Fallback: third-party CORS proxies (only if no Worker URL configured)
-  // Tries the full proxy chain, then retries once after a short delay
   const proxies = [
     `https://corsproxy.io/?${encodeURIComponent(url)}`,
     `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`,
     `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
   ];
 
-  const attemptProxyChain = async (): Promise<Response | null> => {
-    for (const proxyUrl of proxies) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 12000);
+  for (const proxyUrl of proxies) {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 12000);
 
-        const response = await fetch(proxyUrl, {
-          headers: { 'Accept': 'application/json' },
-          signal: controller.signal,
-          cache: bustCache ? 'no-store' : 'default',
-        });
+      const response = await fetch(proxyUrl, {
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal,
+        cache: bustCache ? 'no-store' : 'default',
+      });
 
-        clearTimeout(timeoutId);
+      clearTimeout(timeoutId);
 
-        if (response.ok) return response;
-      } catch (_proxyErr: unknown) {
-        continue;
-      }
+      if (response.ok) return response.json();
+    } catch (_proxyErr: unknown) {
+      continue;
     }
-    return null;
-  };
-
-  // First attempt
-  const first = await attemptProxyChain();
-  if (first) return first;
+  }
 
-  // Single retry after 5s delay (rate-limit recovery)
-  await new Promise(resolve => setTimeout(resolve, 5000));
-  const retry = await attemptProxyChain();
-  if (retry) return retry;
+  // Every proxy failing at once is almost always rate limiting — let the
+  // queue back off globally and retry
+  throw new RateLimitError('All proxies failed. Please try again later.');
+}
 
-  throw new Error('All proxies failed. Please try again later.');
+/**
+ * Fetch an FPL API path through the shared request queue.
+ * Identical requests in flight at the same time share one network call.
+ */
+function fetchFPL(apiPath: string, bustCache = false, priority: RequestPriority = 'normal'): Promise<unknown> {
+  const url = buildUrl(apiPath, bustCache);
+  return fplRequestQueue.schedule(url, () => requestFPL(url, apiPath, bustCache), priority);
 }
 
 // Export the fetch proxy function for direct use
 export async function corsProxyFetch(url: string): Promise<unknown> {
   // For direct URL usage, extract the API path from the full FPL URL
   const apiPath = url.replace(`${FPL_BASE}/`, '');
-  const response = await fetchFPL(apiPath);
-  return await response.json();
+  return fetchFPL(apiPath);
+}
+
+/**
+ * Fetch one of the Worker's own JSON routes, e.g. /history/dates.
+ * Null when no Worker is configured or the route fails — these add to FPL data
+ * rather than replace it, so callers carry on without them.
+ */
+export async function fetchWorkerJson<T>(path: string): Promise<T | null> {
+  if (!WORKER_URL) return null;
+  try {
+    const response = await fetch(`${WORKER_URL}${path}`, { headers: { 'Accept': 'application/json' } });
+    return response.ok ? await response.json() as T : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Link to a Worker share page (/share/{kind}), which unfurls on X, Discord and
+ * WhatsApp with a rendered card image. Null without a Worker.
+ */
+export function shareCardUrl(kind: 'squad' | 'compare' | 'gw', params: Record<string, number>): string | null {
+  if (!WORKER_URL) return null;
+  const query = new URLSearchParams(Object.entries(params).map(([name, value]) => [name, String(value)]));
+  return `${WORKER_URL}/share/${kind}?${query}`;
+}
+
+/**
+ * Fetch an FPL API path and validate the JSON against its schema.
+ * Throws FPLSchemaError if the response shape has drifted.
+ */
+async function fetchFPLJson<K extends FPLSchemaName>(
+  schemaName: K,
+  apiPath: string,
+  bustCache = false,
+  priority: RequestPriority = 'normal'
+): Promise<FPLResponseTypes[K]> {
+  const data = await fetchFPL(apiPath, bustCache, priority);
+  return parseFPLResponse(schemaName, apiPath, data);
 }
 
 // FPL API Service
 export const FPLService = {
-  async loadBootstrap() {
-    const response = await fetchFPL('bootstrap-static/');
-    return await response.json();
+  async loadBootstrap(): Promise<BootstrapStatic> {
+    return fetchFPLJson('bootstrap', 'bootstrap-static/');
   },
 
-  async loadFixtures(forceRefresh = false) {
-    const response = await fetchFPL('fixtures/', forceRefresh);
-    return await response.json();
+  async loadFixtures(forceRefresh = false): Promise<Fixture[]> {
+    // A forced refresh comes from a live view polling scores
+    return fetchFPLJson('fixtures', 'fixtures/', forceRefresh, forceRefresh ? 'live' : 'normal');
   },
 
-  async loadManager(managerId: number, forceRefresh = false) {
-    const response = await fetchFPL(`entry/${managerId}/`, forceRefresh);
-    return await response.json();
+  async loadManager(managerId: number, forceRefresh = false): Promise<ManagerEntry> {
+    return fetchFPLJson('entry', `entry/${managerId}/`, forceRefresh);
   },
 
-  async loadManagerTeam(managerId: number, gameweek: number, forceRefresh = false) {
-    const response = await fetchFPL(`entry/${managerId}/event/${gameweek}/picks/`, forceRefresh);
-    return await response.json();
+  async loadManagerTeam(
+    managerId: number,
+    gameweek: number,
+    forceRefresh = false,
+    priority: RequestPriority = 'normal'
+  ): Promise<EntryPicks> {
+    return fetchFPLJson('picks', `entry/${managerId}/event/${gameweek}/picks/`, forceRefresh, priority);
   },
 
-  async loadManagerHistory(managerId: number) {
-    const response = await fetchFPL(`entry/${managerId}/history/`);
-    return await response.json();
+  async loadManagerHistory(managerId: number): Promise<EntryHistory> {
+    return fetchFPLJson('entryHistory', `entry/${managerId}/history/`);
   },
 
-  async loadLiveGameweek(gameweek: number) {
+  async loadLiveGameweek(gameweek: number): Promise<LiveGameweek> {
     // Live data always bypasses cache
-    const response = await fetchFPL(`event/${gameweek}/live/`, true);
-    return await response.json();
+    return fetchFPLJson('live', `event/${gameweek}/live/`, true, 'live');
   },
 
-  async loadPlayerDetails(playerId: number) {
-    const response = await fetchFPL(`element-summary/${playerId}/`);
-    return await response.json();
+  async loadPlayerDetails(playerId: number, priority: RequestPriority = 'normal'): Promise<ElementSummary> {
+    return fetchFPLJson('elementSummary', `element-summary/${playerId}/`, false, priority);
   },
 
-  async loadLeagueStandings(leagueId: number, forceRefresh = false) {
-    const response = await fetchFPL(`leagues-classic/${leagueId}/standings/`, forceRefresh);
-    return await response.json();
+  async loadLeagueStandings(leagueId: number, forceRefresh = false, page = 1): Promise<LeagueStandings> {
+    // 50 managers per page; see utils/leagueStandings for paging helpers
+    const query = page > 1 ? `?page_standings=${page}` : '';
+    return fetchFPLJson('leagueStandings', `leagues-classic/${leagueId}/standings/${query}`, forceRefresh);
   },
 
   // Alias methods for backward compatibility
-  getBootstrap() {
+  getBootstrap(): Promise<BootstrapStatic> {
     return this.loadBootstrap();
   },
 
-  getFixtures() {
+  getFixtures(): Promise<Fixture[]> {
     return this.loadFixtures();
   },
 
-  getManager(managerId: number) {
+  getManager(managerId: number): Promise<ManagerEntry> {
     return this.loadManager(managerId);
   },
 
-  getManagerTeam(managerId: number, gameweek: number) {
+  getManagerTeam(managerId: number, gameweek: number): Promise<EntryPicks> {
     return this.loadManagerTeam(managerId, gameweek);
   },
 
   // Team Planner Studio methods
-  getEntry(managerId: number) {
+  getEntry(managerId: number): Promise<ManagerEntry> {
     return this.loadManager(managerId);
   },
 
-  getEntryPicks(managerId: number, gameweek: number) {
+  getEntryPicks(managerId: number, gameweek: number): Promise<EntryPicks> {
     return this.loadManagerTeam(managerId, gameweek);
   },
 };
 
-// Cache manager for FPL data
-class FPLCache {
-  private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
-  private TTL = 10 * 60 * 1000; // 10 minutes
-
-  get(key: string): unknown | null {
-    const cached = this.cache.get(key);
-    if (!cached) return null;
-
-    if (Date.now() - cached.timestamp > this.TTL) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    return cached.data;
-  }
-
-  set(key: string, data: unknown): void {
-    this.cache.set(key, { data, timestamp: Date.now() });
-  }
-
-  invalidate(key: string): void {
-    this.cache.delete(key);
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
+// Image URL builders
+// With a Worker configured, images come from its /img/* route (same CORS headers
+// and edge cache as the API); otherwise straight from the CDNs.
+const PL_RESOURCES = 'https://resources.premierleague.com/premierleague';
+const FPL_IMG_CDN = 'https://fantasy.premierleague.com/dist/img';
+
+// Worker /img/* prefix → the CDN URL prefix it serves
+const IMAGE_SOURCES = [
+  { workerPath: 'photos/', direct: `${PL_RESOURCES}/photos/players/` },
+  { workerPath: 'badges/', direct: `${PL_RESOURCES}/badges/` },
+  { workerPath: 'shirts/', direct: `${FPL_IMG_CDN}/shirts/` },
+];
+
+function imageUrl(workerPath: string): string {
+  if (WORKER_URL) return `${WORKER_URL}/img/${workerPath}`;
+  const source = IMAGE_SOURCES.find(s => workerPath.startsWith(s.workerPath));
+  return source ? `${source.direct}${workerPath.slice(source.workerPath.length)}` : workerPath;
 }
 
-export const fplCache = new FPLCache();
-
-// Image URL builders
 export const FPLImages = {
-  // Player photo - CORS-safe (resources.premierleague.com sends Access-Control-Allow-Origin: *)
   playerPhoto(code: number | string, size: '40x40' | '110x140' | '250x250' = '110x140'): string {
-    return `https://resources.premierleague.com/premierleague/photos/players/${size}/p${code}.png`;
+    return imageUrl(`photos/${size}/p${code}.png`);
   },
 
-  // Team kit - proxied through Vite (dev) or Cloudflare Worker (prod) to avoid CORS
+  // Team kit - the FPL CDN sends no CORS headers, so dev goes through the Vite proxy
   teamKit(teamCode: number, shirtType: number = 1): string {
     const kitPath = `shirts/standard/shirt_${teamCode}_${shirtType}-220.webp`;
     if (isDev) {
       return `/fpl-img/${kitPath}`;
     }
-    if (WORKER_URL) {
-      return `${WORKER_URL}/img/${kitPath}`;
-    }
-    // Fallback: direct CDN (display-only, CORS-blocked for canvas)
-    return `https://fantasy.premierleague.com/dist/img/${kitPath}`;
+    // Without a Worker in production: direct CDN (display-only, CORS-blocked for canvas)
+    return imageUrl(kitPath);
   },
 
-  // Team badge - CORS-safe
   teamBadge(teamCode: number): string {
-    return `https://resources.premierleague.com/premierleague/badges/70/t${teamCode}.png`;
+    return imageUrl(`badges/70/t${teamCode}.png`);
+  },
+
+  /**
+   * crossOrigin for an <img> showing `url`: the Worker sends CORS headers, so its
+   * images load in CORS mode and share a cache entry with the export fetch. The
+   * CDNs send none, so their images must load without it.
+   */
+  crossOrigin(url: string): 'anonymous' | undefined {
+    return WORKER_URL && url.startsWith(`${WORKER_URL}/img/`) ? 'anonymous' : undefined;
+  },
+
+  /**
+   * Where to fetch an image's bytes from, e.g. to inline it for export. CDN URLs
+   * for photos, badges and kits are mapped to the Worker (or the Vite proxy for
+   * kits in dev); anything else is returned unchanged.
+   */
+  fetchable(url: string): string {
+    for (const source of IMAGE_SOURCES) {
+      if (!url.startsWith(source.direct)) continue;
+      const workerPath = `${source.workerPath}${url.slice(source.direct.length)}`;
+      if (isDev && source.workerPath === 'shirts/') return `/fpl-img/${workerPath}`;
+      if (WORKER_URL) return `${WORKER_URL}/img/${workerPath}`;
+    }
+    return url;
   },
 };
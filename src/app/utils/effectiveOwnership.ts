@@ -0,0 +1,61 @@
+// Effective ownership and rank impact
+// Effective ownership (EO) is how many times over a sample of managers counts a
+// player's points: captains twice, triple captains three times, bench boost
+// benches and auto-subs once, benched and subbed-out players not at all. A
+// manager gains on the sample for every point a player scores beyond the
+// sample's EO, and loses for every point short of it.
+
+export interface OwnershipPick {
+  element: number;
+  multiplier: number; // after auto-subs, captaincy and chips
+}
+
+export interface RankImpact {
+  element: number;
+  effectiveOwnership: number; // 1 = every manager counts the player once
+  multiplier: number; // the manager's own
+  points: number;
+  // Points gained on the average sampled manager: (multiplier - EO) × points.
+  // Negative when the player is costing the manager rank.
+  impact: number;
+}
+
+/**
+ * Mean multiplier per player across the sampled squads, keyed by player id.
+ * Players no sampled manager counts are left out.
+ */
+export function calculateEffectiveOwnership(squads: OwnershipPick[][]): Map<number, number> {
+  const totals = new Map<number, number>();
+  if (squads.length === 0) return totals;
+
+  for (const picks of squads) {
+    for (const pick of picks) {
+      if (pick.multiplier > 0) totals.set(pick.element, (totals.get(pick.element) ?? 0) + pick.multiplier);
+    }
+  }
+  for (const [element, total] of totals) totals.set(element, total / squads.length);
+  return totals;
+}
+
+/**
+ * Each player's impact on a manager's rank against the sample: everyone the
+ * manager counts or the sample owns, biggest swing first.
+ */
+export function calculateRankImpact(
+  picks: OwnershipPick[],
+  effectiveOwnership: Map<number, number>,
+  pointsById: Map<number, number>
+): RankImpact[] {
+  const multipliers = new Map(picks.map(pick => [pick.element, pick.multiplier] as const));
+  const elements = new Set([...multipliers.keys(), ...effectiveOwnership.keys()]);
+
+  return [...elements]
+    .map(element => {
+      const multiplier = multipliers.get(element) ?? 0;
+      const eo = effectiveOwnership.get(element) ?? 0;
+      const points = pointsById.get(element) ?? 0;
+      return { element, effectiveOwnership: eo, multiplier, points, impact: (multiplier - eo) * points };
+    })
+    .filter(row => row.multiplier > 0 || row.effectiveOwnership > 0)
+    .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact) || b.effectiveOwnership - a.effectiveOwnership);
+}
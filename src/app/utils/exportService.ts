@@ -2,7 +2,7 @@
 // Matches Claude app implementation for CORS-safe exports
 
 import { toPng } from 'html-to-image';
-import { proxyFetchAsBase64 } from './imageUtils';
+import { fetchImageDataUrl } from './imageUtils';
 
 /**
  * Converts all images in the DOM element to base64 data URLs
@@ -12,7 +12,7 @@ import { proxyFetchAsBase64 } from './imageUtils';
  *   Works for player photos (resources.premierleague.com) because that CDN sends Access-Control-Allow-Origin: *
  * 
  * Strategy 2 - Proxy fetch (for CORS-blocked images):
- *   Fetches via corsproxy.io → allorigins.win fallback chain
+ *   Fetches through our Cloudflare Worker's /img/* route (Vite proxy for kits in dev)
  *   Converts blob to data URL via FileReader
  */
 async function convertImages(element: HTMLElement): Promise<void> {
@@ -107,10 +107,10 @@ function performExtraction(
 
 /**
  * Strategy 2: Proxy fetch for CORS-blocked images
- * Delegates to shared multi-proxy utility in imageUtils.ts
+ * Delegates to the shared Worker-backed fetch in imageUtils.ts
  */
 async function proxyFetch(url: string): Promise<string> {
-  return proxyFetchAsBase64(url);
+  return fetchImageDataUrl(url);
 }
 
 /**
@@ -0,0 +1,225 @@
+// FPL rules by season
+// One table per season for scoring, BPS weights, DefCon thresholds, squad limits,
+// transfers and chips. Calculators take a SeasonRules instead of hardcoding numbers,
+// so a rule change next season is a new entry here. Position-keyed records use
+// element_type (1 GKP, 2 DEF, 3 MID, 4 FWD).
+
+export interface ScoringRules {
+  // Appearance points for 1-59 minutes and for 60+
+  appearance: number;
+  appearanceLong: number;
+  goal: Record<number, number>;
+  assist: number;
+  cleanSheet: Record<number, number>;
+  savesPerPoint: number;
+  penaltySave: number;
+  penaltyMiss: number;
+  // GKP/DEF lose a point per this many goals conceded
+  goalsConcededPerPoint: number;
+  yellowCard: number;
+  redCard: number;
+  ownGoal: number;
+}
+
+export interface BpsRules {
+  // BPS for 1-59 minutes; 60+ earns it twice
+  appearance: number;
+  goal: Record<number, number>;
+  // Flat BPS for a penalty goal whatever the position; null scores it like any goal
+  penaltyGoal: number | null;
+  assist: number;
+  saveInsideBox: number;
+  saveOutsideBox: number;
+  tackle: number;
+  goallineClearance: number;
+  cleanSheet: Record<number, number>;
+  penaltySave: number;
+  penaltyMiss: number;
+  yellowCard: number;
+  redCard: number;
+  ownGoal: number;
+  // GKP/DEF, per goal conceded
+  goalsConceded: number;
+  // Bonus points for first, second and third place
+  bonusAwards: number[];
+}
+
+export interface DefConRules {
+  // Defensive contributions needed per position; null when the position can't earn it
+  threshold: Record<number, number | null>;
+  points: number;
+}
+
+export interface SquadRules {
+  budget: number; // £m
+  size: number;
+  positions: Record<number, number>;
+  maxPerTeam: number;
+  // Minimum starters per outfield position, which also bounds auto-subs
+  minStarters: Record<number, number>;
+}
+
+export interface TransferRules {
+  freePerGameweek: number;
+  maxBankedFree: number;
+  hitCost: number;
+}
+
+export interface ChipRule {
+  name: string; // FPL API chip name, e.g. 'bboost'
+  label: string;
+  allowance: number;
+}
+
+export interface ChipRules {
+  chips: ChipRule[];
+  // Chips with two uses take one in GWs 1..halfSplit and the other after it
+  halfSplit: number | null;
+}
+
+export interface SeasonRules {
+  season: string;
+  scoring: ScoringRules;
+  bps: BpsRules;
+  defcon: DefConRules | null;
+  squad: SquadRules;
+  transfers: TransferRules;
+  chips: ChipRules;
+}
+
+const RULES_2023_24: SeasonRules = {
+  season: '2023/24',
+  scoring: {
+    appearance: 1,
+    appearanceLong: 2,
+    goal: { 1: 6, 2: 6, 3: 5, 4: 4 },
+    assist: 3,
+    cleanSheet: { 1: 4, 2: 4, 3: 1, 4: 0 },
+    savesPerPoint: 3,
+    penaltySave: 5,
+    penaltyMiss: -2,
+    goalsConcededPerPoint: 2,
+    yellowCard: -1,
+    redCard: -3,
+    ownGoal: -2,
+  },
+  bps: {
+    appearance: 3,
+    goal: { 1: 12, 2: 12, 3: 18, 4: 24 },
+    penaltyGoal: null,
+    assist: 9,
+    saveInsideBox: 2,
+    saveOutsideBox: 2,
+    tackle: 2,
+    goallineClearance: 9,
+    cleanSheet: { 1: 12, 2: 12, 3: 0, 4: 0 },
+    penaltySave: 15,
+    penaltyMiss: -6,
+    yellowCard: -3,
+    redCard: -9,
+    ownGoal: -6,
+    goalsConceded: -4,
+    bonusAwards: [3, 2, 1],
+  },
+  defcon: null,
+  squad: {
+    budget: 100,
+    size: 15,
+    positions: { 1: 2, 2: 5, 3: 5, 4: 3 },
+    maxPerTeam: 3,
+    minStarters: { 1: 1, 2: 3, 3: 2, 4: 1 },
+  },
+  transfers: { freePerGameweek: 1, maxBankedFree: 2, hitCost: 4 },
+  chips: {
+    chips: [
+      { name: 'wildcard', label: 'Wildcard', allowance: 2 },
+      { name: 'freehit', label: 'Free Hit', allowance: 1 },
+      { name: 'bboost', label: 'Bench Boost', allowance: 1 },
+      { name: '3xc', label: 'Triple Captain', allowance: 1 },
+    ],
+    halfSplit: 19,
+  },
+};
+
+const RULES_2024_25: SeasonRules = {
+  ...RULES_2023_24,
+  season: '2024/25',
+  transfers: { ...RULES_2023_24.transfers, maxBankedFree: 5 },
+  chips: {
+    chips: [
+      ...RULES_2023_24.chips.chips,
+      { name: 'manager', label: 'Assistant Manager', allowance: 1 },
+    ],
+    halfSplit: 19,
+  },
+};
+
+const RULES_2025_26: SeasonRules = {
+  ...RULES_2024_25,
+  season: '2025/26',
+  scoring: { ...RULES_2024_25.scoring, goal: { 1: 10, 2: 6, 3: 5, 4: 4 } },
+  bps: {
+    ...RULES_2024_25.bps,
+    penaltyGoal: 12,
+    saveInsideBox: 3,
+    saveOutsideBox: 2,
+    cleanSheet: { 1: 12, 2: 12, 3: 6, 4: 0 },
+    penaltySave: 8,
+  },
+  // Defenders count CBIT, midfielders and forwards CBIT + recoveries
+  defcon: { threshold: { 1: null, 2: 10, 3: 12, 4: 12 }, points: 2 },
+  chips: {
+    chips: [
+      { name: 'wildcard', label: 'Wildcard', allowance: 2 },
+      { name: 'freehit', label: 'Free Hit', allowance: 2 },
+      { name: 'bboost', label: 'Bench Boost', allowance: 2 },
+      { name: '3xc', label: 'Triple Captain', allowance: 2 },
+    ],
+    halfSplit: 19,
+  },
+};
+
+export const SEASON_RULES: Record<string, SeasonRules> = {
+  '2023/24': RULES_2023_24,
+  '2024/25': RULES_2024_25,
+  '2025/26': RULES_2025_26,
+};
+
+const KNOWN_SEASONS = Object.keys(SEASON_RULES).sort();
+
+/**
+ * Rules for a season label such as '2025/26'. Seasons without their own entry
+ * use the latest earlier one (later seasons get the newest rules; anything before
+ * the table gets the oldest). No season means the newest rules.
+ */
+export function getSeasonRules(season?: string): SeasonRules {
+  if (season && SEASON_RULES[season]) return SEASON_RULES[season];
+  const latest = SEASON_RULES[KNOWN_SEASONS[KNOWN_SEASONS.length - 1]];
+  if (!season) return latest;
+  const earlier = KNOWN_SEASONS.filter(s => s < season);
+  return earlier.length > 0 ? SEASON_RULES[earlier[earlier.length - 1]] : SEASON_RULES[KNOWN_SEASONS[0]];
+}
+
+/**
+ * Display name for an FPL chip, falling back to the API name.
+ */
+export function chipLabel(name: string): string {
+  const known = Object.values(SEASON_RULES).flatMap(r => r.chips.chips).find(chip => chip.name === name);
+  return known?.label ?? name;
+}
+
+const POSITION_NAMES: Record<number, [string, string]> = {
+  1: ['Goalkeeper', 'Goalkeepers'],
+  2: ['Defender', 'Defenders'],
+  3: ['Midfielder', 'Midfielders'],
+  4: ['Forward', 'Forwards'],
+};
+
+/**
+ * Position name for an element_type, as used in rules messages.
+ */
+export function positionName(elementType: number, count = 1): string {
+  const names = POSITION_NAMES[elementType];
+  if (!names) return 'players';
+  return count === 1 ? names[0] : names[1];
+}
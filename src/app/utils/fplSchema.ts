@@ -0,0 +1,288 @@
+// FPL API response validation
+// The FPL API has no published schema and quietly changes between seasons.
+// These validators check the fields the app actually reads and fail with a
+// precise path (e.g. "bootstrap-static/ → elements[12].now_cost") so schema
+// drift surfaces as a clear error instead of `undefined` deep inside a component.
+
+import type {
+  BootstrapStatic,
+  Fixture,
+  ManagerEntry,
+  EntryHistory,
+  EntryPicks,
+  LiveGameweek,
+  ElementSummary,
+  LeagueStandings,
+} from '../types/fpl';
+
+/**
+ * Thrown when an FPL API response does not match the expected shape.
+ */
+export class FPLSchemaError extends Error {
+  readonly endpoint: string;
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(endpoint: string, path: string, expected: string, received: string) {
+    super(`FPL API schema mismatch at ${endpoint} → ${path || '(root)'}: expected ${expected}, got ${received}`);
+    this.name = 'FPLSchemaError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// Internal issue thrown while walking a response, re-thrown as FPLSchemaError
+class SchemaIssue {
+  constructor(public path: string, public expected: string, public received: string) {}
+}
+
+type Validator = (value: unknown, path: string) => void;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive(expected: 'number' | 'string' | 'boolean'): Validator {
+  return (value, path) => {
+    if (typeof value !== expected || (expected === 'number' && Number.isNaN(value))) {
+      throw new SchemaIssue(path, expected, describe(value));
+    }
+  };
+}
+
+const num = primitive('number');
+const str = primitive('string');
+const bool = primitive('boolean');
+
+function nullable(inner: Validator): Validator {
+  return (value, path) => {
+    if (value !== null) inner(value, path);
+  };
+}
+
+function optional(inner: Validator): Validator {
+  return (value, path) => {
+    if (value !== undefined) inner(value, path);
+  };
+}
+
+function arrayOf(item: Validator): Validator {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaIssue(path, 'array', describe(value));
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`));
+  };
+}
+
+// Only listed keys are checked; extra keys from the API pass through untouched
+function shape(fields: Record<string, Validator>): Validator {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaIssue(path, 'object', describe(value));
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, validate] of Object.entries(fields)) {
+      validate(record[key], path ? `${path}.${key}` : key);
+    }
+  };
+}
+
+// ---- Shared pieces ----
+
+const team = shape({
+  id: num,
+  code: num,
+  name: str,
+  short_name: str,
+  strength: num,
+});
+
+const element = shape({
+  id: num,
+  code: num,
+  team: num,
+  team_code: num,
+  element_type: num,
+  web_name: str,
+  first_name: str,
+  second_name: str,
+  now_cost: num,
+  cost_change_start: num,
+  total_points: num,
+  selected_by_percent: str,
+  form: str,
+  points_per_game: str,
+  status: str,
+  news: str,
+  minutes: num,
+  transfers_in_event: num,
+  transfers_out_event: num,
+  chance_of_playing_next_round: nullable(num),
+});
+
+const event = shape({
+  id: num,
+  name: str,
+  deadline_time: str,
+  finished: bool,
+  is_current: bool,
+  is_next: bool,
+});
+
+const fixtureStat = shape({
+  identifier: str,
+  a: arrayOf(shape({ value: num, element: num })),
+  h: arrayOf(shape({ value: num, element: num })),
+});
+
+const fixture = shape({
+  id: num,
+  event: nullable(num),
+  team_h: num,
+  team_a: num,
+  team_h_difficulty: num,
+  team_a_difficulty: num,
+  team_h_score: optional(nullable(num)),
+  team_a_score: optional(nullable(num)),
+  kickoff_time: nullable(str),
+  started: optional(nullable(bool)),
+  finished: bool,
+  stats: optional(arrayOf(fixtureStat)),
+});
+
+const entryEventHistory = shape({
+  event: num,
+  points: num,
+  total_points: num,
+  rank: nullable(num),
+  overall_rank: nullable(num),
+  bank: num,
+  value: num,
+  event_transfers: num,
+  event_transfers_cost: num,
+});
+
+const pick = shape({
+  element: num,
+  position: num,
+  multiplier: num,
+  is_captain: bool,
+  is_vice_captain: bool,
+});
+
+const liveElement = shape({
+  id: num,
+  stats: shape({
+    minutes: num,
+    total_points: num,
+    bonus: num,
+    bps: num,
+    goals_scored: num,
+    assists: num,
+  }),
+  explain: arrayOf(shape({
+    fixture: num,
+    stats: arrayOf(shape({ identifier: str, points: num, value: num })),
+  })),
+});
+
+// ---- Endpoint schemas ----
+
+export const FPLSchemas = {
+  bootstrap: shape({
+    events: arrayOf(event),
+    teams: arrayOf(team),
+    elements: arrayOf(element),
+  }),
+
+  fixtures: arrayOf(fixture),
+
+  entry: shape({
+    id: num,
+    name: str,
+    player_first_name: str,
+    player_last_name: str,
+    summary_overall_points: num,
+    summary_overall_rank: nullable(num),
+    current_event: nullable(num),
+    leagues: shape({
+      classic: arrayOf(shape({ id: num, name: str, league_type: str })),
+    }),
+  }),
+
+  entryHistory: shape({
+    current: arrayOf(entryEventHistory),
+    past: arrayOf(shape({ season_name: str, total_points: num, rank: num })),
+    chips: arrayOf(shape({ name: str, event: num })),
+  }),
+
+  picks: shape({
+    active_chip: nullable(str),
+    entry_history: entryEventHistory,
+    picks: arrayOf(pick),
+  }),
+
+  live: shape({
+    elements: arrayOf(liveElement),
+  }),
+
+  elementSummary: shape({
+    fixtures: arrayOf(shape({ id: num, event: nullable(num), difficulty: num, is_home: bool })),
+    history: arrayOf(shape({ round: num, total_points: num, minutes: num, opponent_team: num })),
+    history_past: arrayOf(shape({ season_name: str, total_points: num })),
+  }),
+
+  leagueStandings: shape({
+    league: shape({ id: num, name: str }),
+    standings: shape({
+      has_next: bool,
+      page: num,
+      results: arrayOf(shape({
+        entry: num,
+        entry_name: str,
+        player_name: str,
+        rank: num,
+        last_rank: num,
+        total: num,
+        event_total: num,
+      })),
+    }),
+  }),
+};
+
+export interface FPLResponseTypes {
+  bootstrap: BootstrapStatic;
+  fixtures: Fixture[];
+  entry: ManagerEntry;
+  entryHistory: EntryHistory;
+  picks: EntryPicks;
+  live: LiveGameweek;
+  elementSummary: ElementSummary;
+  leagueStandings: LeagueStandings;
+}
+
+export type FPLSchemaName = keyof FPLResponseTypes;
+
+/**
+ * Validate a parsed FPL API response against its endpoint schema.
+ * Returns the same object, typed, or throws FPLSchemaError.
+ */
+export function parseFPLResponse<K extends FPLSchemaName>(
+  schemaName: K,
+  endpoint: string,
+  data: unknown
+): FPLResponseTypes[K] {
+  try {
+    FPLSchemas[schemaName](data, '');
+  } catch (err: unknown) {
+    if (err instanceof SchemaIssue) {
+      throw new FPLSchemaError(endpoint, err.path, err.expected, err.received);
+    }
+    throw err;
+  }
+  return data as FPLResponseTypes[K];
+}
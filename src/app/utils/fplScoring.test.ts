@@ -0,0 +1,382 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocateBonus,
+  calculateDefConPoints,
+  calculateFixturePoints,
+  calculatePointsBreakdown,
+  calculateProvisionalBonus,
+  calculateSquadPoints,
+  fixtureBpsStandings,
+  getDefensiveContributions,
+  getMilestoneProgress,
+  statsFromExplain,
+  type SquadPlayerInput,
+} from './fplScoring';
+import { getSeasonRules } from './fplRules';
+import bonusTiesInPlay from './__fixtures__/bonus-ties-gw10-min85.json';
+import bonusTiesConfirmed from './__fixtures__/bonus-ties-gw10-min200.json';
+import defconShowcase from './__fixtures__/defcon-showcase-gw10-min200.json';
+import superSundayLate from './__fixtures__/super-sunday-gw10-min200.json';
+import superSundayDone from './__fixtures__/super-sunday-gw10-min450.json';
+import type { EntryPicks, Fixture, LiveElement, Player } from '../types/fpl';
+
+// Payloads recorded from the mock API (see each file's `source`), trimmed to the
+// players and fixtures a test needs
+interface Recording {
+  source: string;
+  players: Array<Pick<Player, 'id' | 'web_name' | 'element_type' | 'team'>>;
+  fixtures: Fixture[];
+  picks?: EntryPicks;
+  elements: LiveElement[];
+}
+
+const recording = (json: unknown) => json as Recording;
+
+// Real FPL payloads trimmed by `npm run mock-api:fixture`, checked against the
+// points, explain lines and bonus FPL itself awarded
+const fplRecordings = Object.values(
+  import.meta.glob<unknown>('./__fixtures__/fpl-*.json', { eager: true, import: 'default' })
+).map(recording);
+
+const rules = getSeasonRules('2025/26');
+
+function playerNamed(rec: Recording, name: string) {
+  const player = rec.players.find(p => p.web_name === name);
+  if (!player) throw new Error(`${name} is not in ${rec.source}`);
+  return player;
+}
+
+function elementNamed(rec: Recording, name: string): LiveElement {
+  const id = playerNamed(rec, name).id;
+  return rec.elements.find(e => e.id === id)!;
+}
+
+const elementTypeOf = (rec: Recording) => (id: number) => rec.players.find(p => p.id === id)?.element_type;
+
+// Squad inputs the way the live views build them: a player has finished once
+// their team's fixture is over
+function squadInputs(rec: Recording): Map<number, SquadPlayerInput> {
+  const stillPlaying = new Set(rec.fixtures
+    .filter(f => !f.finished && !f.finished_provisional)
+    .flatMap(f => [f.team_h, f.team_a]));
+  return new Map(rec.elements.map(element => {
+    const player = rec.players.find(p => p.id === element.id)!;
+    return [element.id, {
+      element: element.id,
+      elementType: player.element_type,
+      points: element.stats.total_points,
+      minutes: element.stats.minutes,
+      hasFinished: !stillPlaying.has(player.team),
+    }];
+  }));
+}
+
+// The recorded picks with some players swapped out
+function picksWith(rec: Recording, swaps: Record<number, number> = {}) {
+  return rec.picks!.picks.map(pick => ({ ...pick, element: swaps[pick.element] ?? pick.element }));
+}
+
+const pickOf = (picks: ReturnType<typeof calculateSquadPoints>['picks'], element: number) =>
+  picks.find(p => p.element === element)!;
+
+describe('calculatePointsBreakdown', () => {
+  const recordings = [bonusTiesConfirmed, defconShowcase, superSundayDone].map(recording);
+
+  it('matches every recorded explain line except bonus', () => {
+    for (const rec of recordings) {
+      for (const element of rec.elements) {
+        const elementType = elementTypeOf(rec)(element.id)!;
+        for (const fixture of element.explain) {
+          const expected = fixture.stats.filter(line => line.identifier !== 'bonus');
+          expect(calculatePointsBreakdown(statsFromExplain(fixture), elementType, rules)).toEqual(expected);
+        }
+      }
+    }
+  });
+
+  it('scores the live stats object to the recorded total_points once bonus is in', () => {
+    for (const rec of recordings) {
+      for (const element of rec.elements) {
+        expect(calculateFixturePoints(element.stats, elementTypeOf(rec)(element.id)!, rules)).toBe(element.stats.total_points);
+      }
+    }
+  });
+
+  it('leaves out lines with a zero value', () => {
+    const rec = recording(superSundayDone);
+    const unused = elementNamed(rec, 'TOT MID5');
+    expect(unused.stats.minutes).toBe(0);
+    expect(calculatePointsBreakdown(unused.stats, 3, rules)).toEqual([]);
+  });
+});
+
+// Bonus FPL awarded in a fixture, from the fixture's own bonus stat
+function awardedBonus(fixture: Fixture): Map<number, number> {
+  const bonus = fixture.stats?.find(s => s.identifier === 'bonus');
+  return new Map([...(bonus?.h ?? []), ...(bonus?.a ?? [])].map(entry => [entry.element, entry.value] as const));
+}
+
+describe.skipIf(fplRecordings.length === 0)('real FPL payloads', () => {
+  it('cover a bonus tie and a DefCon award', () => {
+    const tied = fplRecordings.some(rec => rec.fixtures.some(fixture => {
+      const values = [...awardedBonus(fixture).values()];
+      return new Set(values).size < values.length;
+    }));
+    const defcon = fplRecordings.some(rec => rec.elements.some(element =>
+      element.explain.some(x => x.stats.some(line => line.identifier === 'defensive_contribution' && line.points > 0))));
+    expect({ tied, defcon }).toEqual({ tied: true, defcon: true });
+  });
+
+  it("match FPL's explain lines except bonus", () => {
+    for (const rec of fplRecordings) {
+      for (const element of rec.elements) {
+        const elementType = elementTypeOf(rec)(element.id)!;
+        for (const fixture of element.explain) {
+          const expected = fixture.stats.filter(line => line.identifier !== 'bonus');
+          expect(calculatePointsBreakdown(statsFromExplain(fixture), elementType, rules)).toEqual(expected);
+        }
+      }
+    }
+  });
+
+  it("score each player to FPL's total_points", () => {
+    for (const rec of fplRecordings) {
+      // Live stats are summed over a double gameweek, so only single fixtures compare
+      for (const element of rec.elements.filter(e => e.explain.length === 1)) {
+        expect(calculateFixturePoints(element.stats, elementTypeOf(rec)(element.id)!, rules)).toBe(element.stats.total_points);
+      }
+    }
+  });
+
+  it('allocate the bonus FPL awarded in each finished fixture', () => {
+    for (const rec of fplRecordings) {
+      for (const fixture of rec.fixtures.filter(f => f.finished)) {
+        const standings = fixtureBpsStandings(fixture, rec.elements, elementTypeOf(rec), rules);
+        expect(allocateBonus(standings, rules)).toEqual(awardedBonus(fixture));
+      }
+    }
+  });
+});
+
+describe('allocateBonus', () => {
+  const rec = recording(bonusTiesConfirmed);
+
+  it('awards the bonus FPL confirmed for each recorded fixture', () => {
+    for (const fixture of rec.fixtures) {
+      const standings = fixtureBpsStandings(fixture, rec.elements, elementTypeOf(rec), rules);
+      const confirmed = new Map(rec.elements
+        .filter(e => e.explain.some(x => x.fixture === fixture.id) && e.stats.bonus > 0)
+        .map(e => [e.id, e.stats.bonus] as const));
+      expect(allocateBonus(standings, rules)).toEqual(confirmed);
+    }
+  });
+
+  it('gives tied leaders 3 each and skips second place', () => {
+    const bonus = allocateBonus(fixtureBpsStandings(rec.fixtures.find(f => f.id === 97)!, rec.elements, elementTypeOf(rec), rules), rules);
+    expect(bonus.get(playerNamed(rec, 'BHA DEF1').id)).toBe(3);
+    expect(bonus.get(playerNamed(rec, 'BHA DEF2').id)).toBe(3);
+    // Three level on the next BPS all take the 1
+    expect([...bonus.values()].filter(points => points === 2)).toEqual([]);
+    expect([...bonus.values()].filter(points => points === 1)).toHaveLength(3);
+  });
+
+  it('gives players tied second 2 each and nobody 1', () => {
+    const bonus = allocateBonus([
+      { id: 1, bps: 40 },
+      { id: 2, bps: 31 },
+      { id: 3, bps: 31 },
+      { id: 4, bps: 28 },
+    ], rules);
+    expect(bonus).toEqual(new Map([[1, 3], [2, 2], [3, 2]]));
+  });
+});
+
+describe('calculateProvisionalBonus', () => {
+  it('predicts from in-play BPS the bonus FPL later confirms', () => {
+    const inPlay = recording(bonusTiesInPlay);
+    const confirmed = recording(bonusTiesConfirmed);
+    expect(inPlay.fixtures.every(f => f.started && !f.finished)).toBe(true);
+
+    const provisional = calculateProvisionalBonus(inPlay.fixtures, inPlay.elements, elementTypeOf(inPlay), rules);
+    const awarded = new Map(confirmed.elements.filter(e => e.stats.bonus > 0).map(e => [e.id, e.stats.bonus] as const));
+    expect(provisional).toEqual(awarded);
+  });
+
+  it('adds nothing for fixtures whose bonus is already confirmed', () => {
+    const rec = recording(bonusTiesConfirmed);
+    expect(calculateProvisionalBonus(rec.fixtures, rec.elements, elementTypeOf(rec), rules).size).toBe(0);
+  });
+});
+
+describe('fixtureBpsStandings', () => {
+  const rec = recording(bonusTiesInPlay);
+  const [first, second] = rec.fixtures;
+  const standingsFor = (fixture: Fixture, elements: LiveElement[]) =>
+    fixtureBpsStandings(fixture, elements, elementTypeOf(rec), rules);
+
+  // In a double gameweek the live stats are summed over both fixtures: here
+  // the scorer in the first also gets a minute in the second
+  const scorer = elementNamed(rec, 'CHE FWD1');
+  const doubled: LiveElement = {
+    ...scorer,
+    stats: { ...scorer.stats, minutes: scorer.stats.minutes + 1 },
+    explain: [...scorer.explain, { fixture: second.id, stats: [{ identifier: 'minutes', value: 1, points: 1 }] }],
+  };
+  const elements = rec.elements.map(e => (e.id === scorer.id ? doubled : e));
+
+  it("ranks a double gameweek player on that fixture's BPS alone", () => {
+    expect(scorer.explain.map(e => e.fixture)).toEqual([first.id]);
+    const withoutFixtureBps = { ...second, stats: second.stats?.filter(s => s.identifier !== 'bps') };
+    const entry = standingsFor(withoutFixtureBps, elements).find(row => row.id === scorer.id);
+    // Appearance BPS for 1-59 minutes, not the goal from the other match
+    expect(entry?.bps).toBe(rules.bps.appearance);
+    expect(standingsFor(first, elements).find(row => row.id === scorer.id)?.bps).toBe(scorer.stats.bps);
+  });
+
+  it("leaves each fixture's provisional bonus as it was", () => {
+    const single = calculateProvisionalBonus(rec.fixtures, rec.elements, elementTypeOf(rec), rules);
+    expect(calculateProvisionalBonus(rec.fixtures, elements, elementTypeOf(rec), rules)).toEqual(single);
+  });
+
+  it("prefers the fixture's own BPS stat", () => {
+    const quiet = elementNamed(rec, 'BHA GKP1');
+    const boost = (entry: { element: number; value: number }) => (entry.element === quiet.id ? { ...entry, value: 99 } : entry);
+    const corrected = {
+      ...second,
+      stats: second.stats?.map(s => (s.identifier === 'bps' ? { ...s, h: s.h.map(boost), a: s.a.map(boost) } : s)),
+    };
+    expect(standingsFor(corrected, rec.elements)[0]).toEqual({ id: quiet.id, bps: 99 });
+  });
+});
+
+describe('DefCon', () => {
+  const rec = recording(defconShowcase);
+
+  const defcon = (name: string) => {
+    const element = elementNamed(rec, name);
+    const elementType = playerNamed(rec, name).element_type;
+    return {
+      actions: getDefensiveContributions(element.stats, elementType, rules),
+      points: calculateDefConPoints(element.stats, elementType, rules),
+      recorded: element.explain[0]?.stats.find(line => line.identifier === 'defensive_contribution')?.points ?? 0,
+    };
+  };
+
+  it('pays defenders who reach 10 CBIT', () => {
+    expect(defcon('LEI DEF1')).toEqual({ actions: 11, points: 2, recorded: 2 });
+    expect(defcon('ARS DEF1')).toEqual({ actions: 10, points: 2, recorded: 2 });
+  });
+
+  it('pays nothing just short of the threshold', () => {
+    expect(defcon('IPS DEF2')).toEqual({ actions: 9, points: 0, recorded: 0 });
+    // Midfielders count recoveries too but need 12
+    expect(defcon('LEI MID1')).toEqual({ actions: 11, points: 0, recorded: 0 });
+    expect(defcon('IPS MID1')).toEqual({ actions: 11, points: 0, recorded: 0 });
+  });
+
+  it('never applies to goalkeepers', () => {
+    expect(defcon('IPS GKP1')).toEqual({ actions: 0, points: 0, recorded: 0 });
+  });
+
+  it('counts the same from explain as from the live stats', () => {
+    for (const element of rec.elements) {
+      const elementType = elementTypeOf(rec)(element.id)!;
+      expect(calculateDefConPoints(statsFromExplain(element.explain[0]), elementType, rules))
+        .toBe(calculateDefConPoints(element.stats, elementType, rules));
+    }
+  });
+
+  it('reports progress towards the milestone', () => {
+    const element = elementNamed(rec, 'IPS DEF2');
+    expect(getMilestoneProgress(element.stats, 2, rules)).toEqual({
+      value: 9,
+      milestone: 10,
+      milestoneMet: false,
+      points: 0,
+      progressPercent: 90,
+    });
+  });
+
+  it('scores nothing in seasons before DefCon', () => {
+    const element = elementNamed(rec, 'LEI DEF1');
+    expect(calculateDefConPoints(element.stats, 2, getSeasonRules('2024/25'))).toBe(0);
+  });
+});
+
+describe('calculateSquadPoints', () => {
+  const done = recording(superSundayDone);
+  const late = recording(superSundayLate);
+  const captain = playerNamed(done, 'TOT MID4').id;
+  const vice = playerNamed(done, 'MCI MID1').id;
+  const firstBenchOutfielder = playerNamed(done, 'BHA DEF3').id;
+  const unusedDefender = playerNamed(done, 'EVE DEF5').id;
+  const unusedMidfielder = playerNamed(done, 'TOT MID5').id;
+
+  it('scores the recorded squad once every fixture is over', () => {
+    const score = calculateSquadPoints(picksWith(done), squadInputs(done), { rules });
+    // 58 from the starting eleven plus the captain's 9 again
+    expect(score.totalPoints).toBe(67);
+    expect(score.benchPoints).toBe(3 + 6 + 3 + 2);
+    expect(score.picks.some(p => p.isAutoSubbed || p.isSubbedOut)).toBe(false);
+  });
+
+  it('subs in the first outfield bench player for a starter who did not play', () => {
+    const score = calculateSquadPoints(picksWith(done, { 183: unusedDefender }), squadInputs(done), { rules });
+    expect(pickOf(score.picks, unusedDefender)).toMatchObject({ isSubbedOut: true, multiplier: 0 });
+    expect(pickOf(score.picks, firstBenchOutfielder)).toMatchObject({ isAutoSubbed: true, multiplier: 1, effectivePoints: 6 });
+    expect(score.totalPoints).toBe(67 - 6 + 6);
+  });
+
+  it('treats a pick with no live data as not having played', () => {
+    const inputs = squadInputs(done);
+    inputs.delete(183);
+    const score = calculateSquadPoints(picksWith(done), inputs, { rules });
+    expect(pickOf(score.picks, 183).isSubbedOut).toBe(true);
+    expect(pickOf(score.picks, firstBenchOutfielder).isAutoSubbed).toBe(true);
+  });
+
+  it('passes the captaincy to the vice when the captain did not play', () => {
+    const score = calculateSquadPoints(picksWith(done, { [captain]: unusedMidfielder }), squadInputs(done), { rules });
+    expect(pickOf(score.picks, unusedMidfielder)).toMatchObject({ isSubbedOut: true, multiplier: 0 });
+    expect(pickOf(score.picks, vice)).toMatchObject({ multiplier: 2, effectivePoints: 12 });
+    // Captain's 18 lost; the vice's 6 counted again and the bench defender's 6 in
+    expect(score.totalPoints).toBe(67 - 18 + 6 + 6);
+  });
+
+  it("doesn't sub or strip the armband from players whose match hasn't kicked off", () => {
+    const inputs = squadInputs(late);
+    expect(inputs.get(vice)).toMatchObject({ minutes: 0, hasFinished: false });
+
+    const score = calculateSquadPoints(picksWith(late, { [captain]: unusedMidfielder }), inputs, { rules });
+    expect(score.picks.filter(p => p.isAutoSubbed).map(p => p.element)).toEqual([firstBenchOutfielder]);
+    expect(pickOf(score.picks, 183)).toMatchObject({ isSubbedOut: false, multiplier: 1 });
+    expect(pickOf(score.picks, 133)).toMatchObject({ isSubbedOut: false, multiplier: 1 });
+    expect(pickOf(score.picks, vice).multiplier).toBe(2);
+  });
+
+  it('counts all fifteen on bench boost without auto-subs', () => {
+    const picks = picksWith(done, { 183: unusedDefender }).map(p => ({ ...p, multiplier: p.is_captain ? 2 : 1 }));
+    const score = calculateSquadPoints(picks, squadInputs(done), { activeChip: 'bboost', rules });
+    expect(score.picks.some(p => p.isAutoSubbed || p.isSubbedOut)).toBe(false);
+    expect(score.totalPoints).toBe(67 - 6 + 14);
+    expect(score.benchPoints).toBe(0);
+  });
+
+  it('triples the captain on triple captain', () => {
+    const picks = picksWith(done).map(p => (p.is_captain ? { ...p, multiplier: 3 } : p));
+    const score = calculateSquadPoints(picks, squadInputs(done), { activeChip: '3xc', rules });
+    expect(pickOf(score.picks, captain).multiplier).toBe(3);
+    expect(score.totalPoints).toBe(67 + 9);
+  });
+
+  it("carries triple captain's x3 over to the vice", () => {
+    const picks = picksWith(done, { [captain]: unusedMidfielder }).map(p => (p.is_captain ? { ...p, multiplier: 3 } : p));
+    const score = calculateSquadPoints(picks, squadInputs(done), { activeChip: '3xc', rules });
+    expect(pickOf(score.picks, vice)).toMatchObject({ multiplier: 3, effectivePoints: 18 });
+  });
+
+  it('takes off the transfer cost', () => {
+    const score = calculateSquadPoints(picksWith(done), squadInputs(done), { transferCost: 4, rules });
+    expect(score.totalPoints).toBe(63);
+  });
+});
@@ -0,0 +1,463 @@
+// FPL scoring engine
+// Framework-free points maths shared by every live view: base points, defensive
+// contribution (DefCon), BPS, bonus allocation and squad totals with auto-subs and
+// chips. Functions take raw stats for a single fixture — for double gameweeks,
+// score each fixture (see statsFromExplain) and add the results. Every calculator
+// takes the season's rules (fplRules.ts) and defaults to the newest season.
+
+import { getSeasonRules, type SeasonRules } from './fplRules';
+import type { EntryPicks, Fixture, LiveElement, LiveExplain, LiveStats } from '../types/fpl';
+
+type SquadPick = EntryPicks['picks'][number];
+
+// Per-fixture stat counts the engine reads. Missing keys count as 0, so both
+// LiveStats and a record rebuilt from `explain` can be passed straight in.
+export type ScoringStats = Partial<Pick<LiveStats,
+  | 'minutes' | 'goals_scored' | 'assists' | 'clean_sheets' | 'goals_conceded' | 'own_goals'
+  | 'penalties_saved' | 'penalties_missed' | 'yellow_cards' | 'red_cards' | 'saves' | 'bonus' | 'bps'
+  | 'tackles' | 'clearances_blocks_interceptions' | 'recoveries' | 'defensive_contribution'
+  | 'saves_inside_box' | 'saves_outside_box' | 'goalline_clearances'
+>> & { penalties_scored?: number };
+
+export interface PointsLine {
+  identifier: string;
+  value: number;
+  points: number;
+}
+
+const stat = (stats: ScoringStats, key: keyof ScoringStats): number => stats[key] ?? 0;
+
+const isGkOrDef = (elementType: number) => elementType === 1 || elementType === 2;
+
+/**
+ * Rebuild per-fixture stat counts from one fixture's `explain` entry.
+ * The live `stats` object is summed across a double gameweek; `explain` is not.
+ */
+export function statsFromExplain(fixtureExplain: LiveExplain): ScoringStats {
+  const stats: Record<string, number> = {};
+  for (const line of fixtureExplain.stats) {
+    stats[line.identifier] = (stats[line.identifier] ?? 0) + line.value;
+  }
+  return stats as ScoringStats;
+}
+
+/**
+ * Total points FPL lists in `explain`, across all fixtures.
+ */
+export function pointsFromExplain(explain: LiveExplain[]): number {
+  return explain.reduce((sum, fixture) => sum + fixture.stats.reduce((s, line) => s + line.points, 0), 0);
+}
+
+// ---- Defensive contribution ----
+
+/**
+ * Defensive actions that count towards DefCon for a position (0 for goalkeepers).
+ */
+export function getDefensiveContributions(stats: ScoringStats, elementType: number, rules: SeasonRules = getSeasonRules()): number {
+  if (elementType === 1 || !rules.defcon) return 0;
+  const cbit = stat(stats, 'clearances_blocks_interceptions') + stat(stats, 'tackles');
+  const counted = elementType === 2 ? cbit : cbit + stat(stats, 'recoveries');
+  // Stats rebuilt from `explain` only carry the API's own total
+  return Math.max(counted, stat(stats, 'defensive_contribution'));
+}
+
+export interface MilestoneProgress {
+  // Actions counted: defensive contributions, or saves for goalkeepers
+  value: number;
+  // Next threshold to reach
+  milestone: number;
+  milestoneMet: boolean;
+  points: number;
+  progressPercent: number;
+}
+
+/**
+ * Progress towards the position's per-match milestone: DefCon for outfielders,
+ * and the uncapped 1 point per 3 saves for goalkeepers.
+ */
+export function getMilestoneProgress(stats: ScoringStats, elementType: number, rules: SeasonRules = getSeasonRules()): MilestoneProgress {
+  if (elementType === 1) {
+    const saves = stat(stats, 'saves');
+    const { savesPerPoint } = rules.scoring;
+    const points = Math.floor(saves / savesPerPoint);
+    const milestone = (points + 1) * savesPerPoint;
+    return {
+      value: saves,
+      milestone,
+      milestoneMet: points > 0,
+      points,
+      progressPercent: Math.min(100, (saves / milestone) * 100),
+    };
+  }
+
+  const threshold = rules.defcon?.threshold[elementType] ?? 0;
+  const value = getDefensiveContributions(stats, elementType, rules);
+  const milestoneMet = threshold > 0 && value >= threshold;
+  return {
+    value,
+    milestone: threshold,
+    milestoneMet,
+    points: milestoneMet && rules.defcon ? rules.defcon.points : 0,
+    progressPercent: threshold > 0 ? Math.min(100, (value / threshold) * 100) : 0,
+  };
+}
+
+/**
+ * DefCon points for one fixture.
+ */
+export function calculateDefConPoints(stats: ScoringStats, elementType: number, rules: SeasonRules = getSeasonRules()): number {
+  const threshold = rules.defcon?.threshold[elementType];
+  if (!rules.defcon || threshold === null || threshold === undefined) return 0;
+  return getDefensiveContributions(stats, elementType, rules) >= threshold ? rules.defcon.points : 0;
+}
+
+// ---- Points ----
+
+/**
+ * Points per scoring line for one fixture, excluding bonus — the same lines FPL
+ * lists in `explain`. Lines with a zero value are left out.
+ */
+export function calculatePointsBreakdown(stats: ScoringStats, elementType: number, rules: SeasonRules = getSeasonRules()): PointsLine[] {
+  const minutes = stat(stats, 'minutes');
+  const scoring = rules.scoring;
+  const lines: PointsLine[] = [
+    { identifier: 'minutes', value: minutes, points: minutes >= 60 ? scoring.appearanceLong : minutes > 0 ? scoring.appearance : 0 },
+    { identifier: 'goals_scored', value: stat(stats, 'goals_scored'), points: stat(stats, 'goals_scored') * (scoring.goal[elementType] ?? 0) },
+    { identifier: 'assists', value: stat(stats, 'assists'), points: stat(stats, 'assists') * scoring.assist },
+    { identifier: 'clean_sheets', value: stat(stats, 'clean_sheets'), points: stat(stats, 'clean_sheets') * (scoring.cleanSheet[elementType] ?? 0) },
+    {
+      identifier: 'goals_conceded',
+      value: stat(stats, 'goals_conceded'),
+      // `0 -` rather than unary minus, so one goal conceded scores 0 and not -0
+      points: isGkOrDef(elementType) ? 0 - Math.floor(stat(stats, 'goals_conceded') / scoring.goalsConcededPerPoint) : 0,
+    },
+    { identifier: 'saves', value: stat(stats, 'saves'), points: Math.floor(stat(stats, 'saves') / scoring.savesPerPoint) },
+    { identifier: 'penalties_saved', value: stat(stats, 'penalties_saved'), points: stat(stats, 'penalties_saved') * scoring.penaltySave },
+    { identifier: 'penalties_missed', value: stat(stats, 'penalties_missed'), points: stat(stats, 'penalties_missed') * scoring.penaltyMiss },
+    { identifier: 'yellow_cards', value: stat(stats, 'yellow_cards'), points: stat(stats, 'yellow_cards') * scoring.yellowCard },
+    { identifier: 'red_cards', value: stat(stats, 'red_cards'), points: stat(stats, 'red_cards') * scoring.redCard },
+    { identifier: 'own_goals', value: stat(stats, 'own_goals'), points: stat(stats, 'own_goals') * scoring.ownGoal },
+    {
+      identifier: 'defensive_contribution',
+      value: getDefensiveContributions(stats, elementType, rules),
+      points: calculateDefConPoints(stats, elementType, rules),
+    },
+  ];
+  return lines.filter(line => line.value !== 0);
+}
+
+/**
+ * Points for one fixture before bonus.
+ */
+export function calculateBasePoints(stats: ScoringStats, elementType: number, rules: SeasonRules = getSeasonRules()): number {
+  return calculatePointsBreakdown(stats, elementType, rules).reduce((sum, line) => sum + line.points, 0);
+}
+
+/**
+ * Points for one fixture including whatever bonus the stats carry.
+ */
+export function calculateFixturePoints(stats: ScoringStats, elementType: number, rules: SeasonRules = getSeasonRules()): number {
+  return calculateBasePoints(stats, elementType, rules) + stat(stats, 'bonus');
+}
+
+// ---- BPS and bonus ----
+
+/**
+ * Penalty goals from `explain` (identifier `penalties_scored`), which carry flat BPS.
+ */
+export function countPenaltyGoals(explain: LiveExplain[] | undefined): number {
+  if (!explain) return 0;
+  return explain.reduce((total, fixture) => {
+    const penStat = fixture.stats.find(s => s.identifier === 'penalties_scored');
+    return total + (penStat?.value || 0);
+  }, 0);
+}
+
+/**
+ * Predicted BPS from the stats FPL exposes. The official BPS also counts passes,
+ * key passes and the like, so this is a floor — prefer the API value when present.
+ */
+export function calculateBps(
+  stats: ScoringStats,
+  elementType: number,
+  penaltyGoals = stat(stats, 'penalties_scored'),
+  rules: SeasonRules = getSeasonRules()
+): number {
+  const weights = rules.bps;
+  let bps = 0;
+  const minutes = stat(stats, 'minutes');
+
+  // Playing minutes: once for 1-59, twice for 60+
+  if (minutes > 0) bps += weights.appearance;
+  if (minutes >= 60) bps += weights.appearance;
+
+  // Penalty goals may carry a flat value whatever the position
+  const goalBps = weights.goal[elementType] ?? 0;
+  const flatPenaltyGoals = weights.penaltyGoal === null ? 0 : penaltyGoals;
+  const openPlayGoals = Math.max(0, stat(stats, 'goals_scored') - flatPenaltyGoals);
+  bps += flatPenaltyGoals * (weights.penaltyGoal ?? 0);
+  bps += openPlayGoals * goalBps;
+
+  bps += stat(stats, 'assists') * weights.assist;
+
+  // Goalkeeper saves by location; the outside-box value when there's no breakdown
+  if (elementType === 1) {
+    const inside = stat(stats, 'saves_inside_box');
+    const outside = stat(stats, 'saves_outside_box');
+    bps += inside > 0 || outside > 0
+      ? inside * weights.saveInsideBox + outside * weights.saveOutsideBox
+      : stat(stats, 'saves') * weights.saveOutsideBox;
+  }
+
+  bps += stat(stats, 'tackles') * weights.tackle;
+  bps += stat(stats, 'goalline_clearances') * weights.goallineClearance;
+
+  if (stat(stats, 'clean_sheets') > 0) bps += weights.cleanSheet[elementType] ?? 0;
+
+  bps += stat(stats, 'penalties_saved') * weights.penaltySave;
+  bps += stat(stats, 'penalties_missed') * weights.penaltyMiss;
+  bps += stat(stats, 'yellow_cards') * weights.yellowCard;
+  bps += stat(stats, 'red_cards') * weights.redCard;
+  bps += stat(stats, 'own_goals') * weights.ownGoal;
+  if (isGkOrDef(elementType)) bps += stat(stats, 'goals_conceded') * weights.goalsConceded;
+
+  return Math.max(0, bps);
+}
+
+/**
+ * BPS to rank a live player by: the API's own figure once it is non-zero,
+ * otherwise the prediction.
+ */
+export function getEffectiveBps(
+  element: Pick<LiveElement, 'stats' | 'explain'>,
+  elementType: number,
+  rules: SeasonRules = getSeasonRules()
+): number {
+  if (element.stats.bps > 0) return element.stats.bps;
+  return calculateBps(element.stats, elementType, countPenaltyGoals(element.explain), rules);
+}
+
+/**
+ * 3/2/1 bonus for one fixture, keyed by player id. Tied players share the award
+ * and consume that many places: two tied first get 3 each and the next gets 1;
+ * two tied second get 2 each and nobody gets 1.
+ */
+export function allocateBonus(
+  players: Array<{ id: number; bps: number }>,
+  rules: SeasonRules = getSeasonRules()
+): Map<number, number> {
+  const awards = rules.bps.bonusAwards;
+  const sorted = [...players].sort((a, b) => b.bps - a.bps);
+  const bonus = new Map<number, number>();
+
+  let place = 0;
+  let i = 0;
+  while (i < sorted.length && place < awards.length) {
+    const tied = sorted.filter(p => p.bps === sorted[i].bps);
+    for (const player of tied) bonus.set(player.id, awards[place]);
+    place += tied.length;
+    i += tied.length;
+  }
+
+  return bonus;
+}
+
+/**
+ * A player's BPS and minutes in one fixture, or null if they have no `explain`
+ * entry for it. The fixture's own `bps` stat wins when FPL lists the player;
+ * otherwise the BPS comes from that fixture's stats alone (the live `stats`
+ * object for a single fixture, its `explain` entry in a double gameweek),
+ * predicted when FPL hasn't published a figure.
+ */
+export function fixtureBps(
+  fixture: Pick<Fixture, 'id' | 'stats'>,
+  element: Pick<LiveElement, 'id' | 'stats' | 'explain'>,
+  elementType: number,
+  rules: SeasonRules = getSeasonRules()
+): { bps: number; minutes: number } | null {
+  const fixtureExplain = element.explain?.find(e => e.fixture === fixture.id);
+  if (!fixtureExplain) return null;
+
+  const stats = element.explain.length === 1 ? element.stats : statsFromExplain(fixtureExplain);
+  const minutes = stat(stats, 'minutes');
+  const official = fixture.stats?.find(s => s.identifier === 'bps');
+  const listed = official && [...official.h, ...official.a].find(entry => entry.element === element.id);
+  if (listed) return { bps: listed.value, minutes };
+
+  const bps = stat(stats, 'bps') > 0
+    ? stat(stats, 'bps')
+    : calculateBps(stats, elementType, countPenaltyGoals([fixtureExplain]), rules);
+  return { bps, minutes };
+}
+
+/**
+ * BPS standings for one fixture, highest first: everyone who played in it,
+ * ranked by fixtureBps. Players whose position isn't known (elementTypeOf
+ * returns undefined) are left out.
+ */
+export function fixtureBpsStandings(
+  fixture: Pick<Fixture, 'id' | 'stats'>,
+  liveElements: LiveElement[],
+  elementTypeOf: (id: number) => number | undefined,
+  rules: SeasonRules = getSeasonRules()
+): Array<{ id: number; bps: number }> {
+  const standings: Array<{ id: number; bps: number }> = [];
+  for (const element of liveElements) {
+    const elementType = elementTypeOf(element.id);
+    if (elementType === undefined) continue;
+    const inFixture = fixtureBps(fixture, element, elementType, rules);
+    if (!inFixture || inFixture.minutes === 0) continue;
+    standings.push({ id: element.id, bps: inFixture.bps });
+  }
+  return standings.sort((a, b) => b.bps - a.bps);
+}
+
+/**
+ * Bonus FPL hasn't added yet, keyed by player id: the current BPS standings of
+ * every fixture that has started but isn't `finished` (FPL confirms bonus and
+ * sets `finished` together, up to an hour after full time).
+ */
+export function calculateProvisionalBonus(
+  fixtures: Fixture[],
+  liveElements: LiveElement[],
+  elementTypeOf: (id: number) => number | undefined,
+  rules: SeasonRules = getSeasonRules()
+): Map<number, number> {
+  const provisional = new Map<number, number>();
+  for (const fixture of fixtures) {
+    if (!fixture.started || fixture.finished) continue;
+    const bonus = allocateBonus(fixtureBpsStandings(fixture, liveElements, elementTypeOf, rules), rules);
+    for (const [id, points] of bonus) provisional.set(id, (provisional.get(id) ?? 0) + points);
+  }
+  return provisional;
+}
+
+// ---- Squad totals ----
+
+export interface SquadPlayerInput {
+  element: number;
+  elementType: number;
+  points: number;
+  minutes: number;
+  // True once the player can no longer play this gameweek — only these are auto-subbed
+  // out. Live callers set it from the fixtures still to finish; for a processed
+  // gameweek it is true for everyone.
+  hasFinished: boolean;
+}
+
+export interface ScoredPick extends SquadPick {
+  points: number;
+  minutes: number;
+  effectivePoints: number;
+  isAutoSubbed: boolean;
+  isSubbedOut: boolean;
+}
+
+export interface SquadScore {
+  picks: ScoredPick[];
+  totalPoints: number;
+  benchPoints: number;
+}
+
+type OutfieldPosition = 2 | 3 | 4;
+const OUTFIELD_POSITIONS: OutfieldPosition[] = [2, 3, 4];
+
+/**
+ * Squad total for a gameweek: auto-subs in bench order respecting the minimum
+ * formation, captain failover to the vice, and chip multipliers (bench boost
+ * counts all fifteen; triple captain's x3 carries over to the vice).
+ */
+export function calculateSquadPoints(
+  picks: SquadPick[],
+  players: Map<number, SquadPlayerInput>,
+  // FPL chip names, e.g. 'bboost', '3xc', 'freehit'
+  {
+    activeChip = null,
+    transferCost = 0,
+    rules = getSeasonRules(),
+  }: { activeChip?: string | null; transferCost?: number; rules?: SeasonRules } = {}
+): SquadScore {
+  const scored: Array<ScoredPick & { elementType: number; didNotPlay: boolean }> = picks.map(pick => {
+    const player = players.get(pick.element);
+    const minutes = player?.minutes ?? 0;
+    return {
+      ...pick,
+      elementType: player?.elementType ?? 0,
+      points: player?.points ?? 0,
+      minutes,
+      // A pick with no input has no data for the gameweek, so it didn't play
+      didNotPlay: player ? minutes === 0 && player.hasFinished : true,
+      effectivePoints: 0,
+      isAutoSubbed: false,
+      isSubbedOut: false,
+    };
+  });
+
+  const isBenchBoost = activeChip === 'bboost';
+  const starters = scored.filter(p => p.position <= 11);
+  const bench = scored.filter(p => p.position >= 12).sort((a, b) => a.position - b.position);
+
+  if (!isBenchBoost) {
+    // Goalkeeper swaps only with the bench goalkeeper
+    const startingGK = starters.find(p => p.elementType === 1);
+    const benchGK = bench.find(p => p.elementType === 1);
+    if (startingGK?.didNotPlay && benchGK && benchGK.minutes > 0) {
+      startingGK.isSubbedOut = true;
+      benchGK.isAutoSubbed = true;
+    }
+
+    const formation: Record<OutfieldPosition, number> = { 2: 0, 3: 0, 4: 0 };
+    for (const p of starters) {
+      if (p.elementType !== 1 && !p.didNotPlay) formation[p.elementType as OutfieldPosition]++;
+    }
+
+    const outfieldBench = bench.filter(p => p.elementType !== 1);
+    const missing = starters.filter(p => p.elementType !== 1 && p.didNotPlay);
+    missing.forEach((starter, idx) => {
+      // Earliest bench player that still leaves the minimum formation reachable
+      // with the empty slots that come after this one
+      const openSlots = missing.length - idx - 1;
+      const sub = outfieldBench.find(candidate => {
+        if (candidate.isAutoSubbed || candidate.minutes === 0) return false;
+        const test = { ...formation };
+        test[candidate.elementType as OutfieldPosition]++;
+        const needed = OUTFIELD_POSITIONS.reduce((sum, pos) => sum + Math.max(0, (rules.squad.minStarters[pos] ?? 0) - test[pos]), 0);
+        return needed <= openSlots;
+      });
+      if (!sub) return;
+      starter.isSubbedOut = true;
+      sub.isAutoSubbed = true;
+      formation[sub.elementType as OutfieldPosition]++;
+    });
+  }
+
+  // Multipliers: starters and auto-subs count once, bench boost counts everyone
+  const captainMultiplier = picks.find(p => p.is_captain)?.multiplier || (activeChip === '3xc' ? 3 : 2);
+  for (const p of scored) {
+    const counts = isBenchBoost || (p.position <= 11 && !p.isSubbedOut) || p.isAutoSubbed;
+    p.multiplier = counts ? 1 : 0;
+  }
+
+  const captain = scored.find(p => p.is_captain);
+  const vice = scored.find(p => p.is_vice_captain);
+  if (captain && !captain.didNotPlay) {
+    captain.multiplier = isBenchBoost || !captain.isSubbedOut ? captainMultiplier : 0;
+  } else if (vice && !vice.didNotPlay && vice.multiplier > 0) {
+    vice.multiplier = captainMultiplier;
+  }
+
+  for (const p of scored) {
+    p.effectivePoints = p.points * p.multiplier;
+  }
+
+  const totalPoints = scored.reduce((sum, p) => sum + p.effectivePoints, 0) - transferCost;
+  const benchPoints = scored
+    .filter(p => p.multiplier === 0 && !p.isSubbedOut)
+    .reduce((sum, p) => sum + p.points, 0);
+
+  return {
+    picks: scored.map(({ elementType: _elementType, didNotPlay: _didNotPlay, ...pick }) => pick),
+    totalPoints,
+    benchPoints,
+  };
+}
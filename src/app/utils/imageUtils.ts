@@ -3,51 +3,41 @@
  *
  * Used by exportService.ts and any component that needs to convert
  * external images to base64 data URLs for canvas/export operations.
+ * FPL and Premier League images are fetched through our own Worker
+ * (FPLImages.fetchable), never a third-party proxy.
  */
 
+import { FPLImages } from './corsProxy';
+
 /**
- * Fetch an image through a CORS proxy chain and return as base64 data URL.
- * Tries multiple proxies with a 12s timeout per attempt.
+ * Fetch an image and return it as a base64 data URL, with a 12s timeout.
  */
-export async function proxyFetchAsBase64(url: string): Promise<string> {
-  const proxies = [
-    `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
-    `https://corsproxy.io/?${encodeURIComponent(url)}`,
-    `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`,
-  ];
-
-  for (let i = 0; i < proxies.length; i++) {
-    const proxyUrl = proxies[i];
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 12000);
-
-      const response = await fetch(proxyUrl, { signal: controller.signal });
-      clearTimeout(timeoutId);
+export async function fetchImageDataUrl(url: string): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 12000);
 
-      if (!response.ok) continue;
-
-      const blob = await response.blob();
-
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          if (typeof reader.result === 'string') {
-            resolve(reader.result);
-          } else {
-            reject(new Error('Failed to read blob'));
-          }
-        };
-        reader.onerror = () => reject(new Error('FileReader error'));
-        reader.readAsDataURL(blob);
-      });
-    } catch (_err) {
-      continue;
-    }
+  try {
+    const response = await fetch(FPLImages.fetchable(url), { signal: controller.signal });
+    if (!response.ok) throw new Error(`Image fetch failed: ${response.status}`);
+
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) throw new Error(`Not an image: ${blob.type}`);
+
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        if (typeof reader.result === 'string') {
+          resolve(reader.result);
+        } else {
+          reject(new Error('Failed to read blob'));
+        }
+      };
+      reader.onerror = () => reject(new Error('FileReader error'));
+      reader.readAsDataURL(blob);
+    });
+  } finally {
+    clearTimeout(timeoutId);
   }
-
-  throw new Error('All proxies failed for image fetch');
 }
 
 /**
@@ -56,7 +46,7 @@ export async function proxyFetchAsBase64(url: string): Promise<string> {
  */
 export async function convertImageToBase64(url: string): Promise<string> {
   try {
-    return await proxyFetchAsBase64(url);
+    return await fetchImageDataUrl(url);
   } catch (_error) {
     return '';
   }
@@ -0,0 +1,139 @@
+// Paginated classic league standings
+// leagues-classic/{id}/standings/ returns 50 managers per page (page_standings=N).
+// Pages are loaded on demand and kept by page number, so a table can show the top
+// of a league and a manager's own page deep inside it without fetching the gap.
+import { FPLService } from './corsProxy';
+import type { LeagueStanding, LeagueStandings } from '../types/fpl';
+
+export const STANDINGS_PAGE_SIZE = 50;
+
+// How many pages past the rank hint to search for a manager — tied ranks can
+// push a manager's position beyond the page their rank alone points to
+const FIND_ENTRY_MAX_PAGES = 3;
+
+export interface StandingsPages {
+  leagueId: number;
+  league: LeagueStandings['league'] | null;
+  pages: Record<number, LeagueStanding[]>;
+  // Last page number, once a loaded page reports no next page
+  lastPage: number | null;
+}
+
+export type StandingsRow =
+  | { kind: 'standing'; standing: LeagueStanding }
+  // Managers between two loaded pages that haven't been fetched
+  | { kind: 'gap'; afterPage: number; beforePage: number };
+
+export function emptyStandingsPages(leagueId: number): StandingsPages {
+  return { leagueId, league: null, pages: {}, lastPage: null };
+}
+
+/**
+ * Page a league position (1-based) falls on.
+ */
+export function pageForPosition(position: number): number {
+  return Math.max(1, Math.ceil(position / STANDINGS_PAGE_SIZE));
+}
+
+/**
+ * Fetch one page and return the updated state. Already-loaded pages are kept.
+ */
+export async function loadStandingsPage(state: StandingsPages, page: number, forceRefresh = false): Promise<StandingsPages> {
+  const data = await FPLService.loadLeagueStandings(state.leagueId, forceRefresh, page);
+  return {
+    ...state,
+    league: data.league,
+    pages: { ...state.pages, [page]: data.standings.results },
+    lastPage: data.standings.has_next ? state.lastPage : page,
+  };
+}
+
+export function loadedPageNumbers(state: StandingsPages): number[] {
+  return Object.keys(state.pages).map(Number).sort((a, b) => a - b);
+}
+
+/**
+ * First page after the unbroken run from page 1, or null when the league has
+ * been loaded to the end.
+ */
+export function nextPageToLoad(state: StandingsPages): number | null {
+  let page = 1;
+  while (state.pages[page]) {
+    if (state.lastPage !== null && page >= state.lastPage) return null;
+    page++;
+  }
+  return page;
+}
+
+export function findEntry(state: StandingsPages, entry: number): LeagueStanding | null {
+  for (const rows of Object.values(state.pages)) {
+    const found = rows.find(row => row.entry === entry);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Load the page holding a manager, starting from the page their league rank
+ * points to (ClassicLeagueSummary.entry_rank) — no need to page through the
+ * whole league.
+ */
+export async function loadEntryPage(
+  state: StandingsPages,
+  entry: number,
+  rankHint: number,
+  forceRefresh = false
+): Promise<StandingsPages> {
+  let current = state;
+  let page = pageForPosition(rankHint);
+
+  for (let tries = 0; tries < FIND_ENTRY_MAX_PAGES; tries++) {
+    if (!current.pages[page]) current = await loadStandingsPage(current, page, forceRefresh);
+    if (findEntry(current, entry)) return current;
+    if (current.lastPage !== null && page >= current.lastPage) break;
+    page++;
+  }
+  return current;
+}
+
+/**
+ * Every loaded manager in page order, with a gap marker between pages that
+ * aren't adjacent.
+ */
+export function standingsRows(state: StandingsPages): StandingsRow[] {
+  const rows: StandingsRow[] = [];
+  let previous: number | null = null;
+  for (const page of loadedPageNumbers(state)) {
+    if (previous !== null && page > previous + 1) {
+      rows.push({ kind: 'gap', afterPage: previous, beforePage: page });
+    }
+    for (const standing of state.pages[page]) rows.push({ kind: 'standing', standing });
+    previous = page;
+  }
+  return rows;
+}
+
+/**
+ * Loaded managers whose positions fall in [from, to], fetching any missing pages.
+ */
+export async function loadPositionRange(
+  state: StandingsPages,
+  from: number,
+  to: number
+): Promise<{ state: StandingsPages; standings: LeagueStanding[] }> {
+  let current = state;
+  for (let page = pageForPosition(from); page <= pageForPosition(to); page++) {
+    if (current.lastPage !== null && page > current.lastPage) break;
+    if (!current.pages[page]) current = await loadStandingsPage(current, page);
+  }
+
+  const standings = loadedPageNumbers(current)
+    .flatMap(page => current.pages[page].map((standing, index) => ({
+      standing,
+      position: (page - 1) * STANDINGS_PAGE_SIZE + index + 1,
+    })))
+    .filter(({ position }) => position >= from && position <= to)
+    .map(({ standing }) => standing);
+
+  return { state: current, standings };
+}
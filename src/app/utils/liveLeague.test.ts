@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { mergeLeagueLivePages, type LeagueLiveManager, type LeagueLiveTable } from './liveLeague';
+
+const manager = (entry: number, lastRank: number, liveTotal: number): LeagueLiveManager => ({
+  entry,
+  player_name: `Manager ${entry}`,
+  entry_name: `Team ${entry}`,
+  rank: 0,
+  last_rank: lastRank,
+  live_points: 0,
+  live_total: liveTotal,
+  transfer_cost: 0,
+  active_chip: null,
+  picks: [],
+});
+
+const page = (number: number, hasNext: boolean, managers: LeagueLiveManager[], computedAt: string): LeagueLiveTable => ({
+  league: { id: 1, name: 'League' },
+  gameweek: 10,
+  season: '2025/26',
+  computed_at: computedAt,
+  page: number,
+  has_next: hasNext,
+  managers,
+});
+
+describe('mergeLeagueLivePages', () => {
+  const first = page(1, true, [manager(1, 1, 600), manager(2, 2, 590)], '2026-10-18T15:01:00Z');
+  const second = page(2, false, [manager(3, 51, 595), manager(4, 52, 590)], '2026-10-18T15:00:00Z');
+
+  it('re-ranks managers across pages on live totals', () => {
+    const merged = mergeLeagueLivePages([first, second]);
+    expect(merged.managers.map(m => [m.entry, m.rank])).toEqual([[1, 1], [3, 2], [2, 3], [4, 3]]);
+    expect(merged).toMatchObject({ page: 1, has_next: false, computed_at: '2026-10-18T15:00:00Z' });
+  });
+
+  it('leaves the page tables as they were', () => {
+    mergeLeagueLivePages([first, second]);
+    expect(second.managers.map(m => m.rank)).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,158 @@
+// Live mini-league scoring
+// Scores each member's picks for a gameweek against live data — auto-subs,
+// captaincy, chips, hits and provisional bonus — and re-ranks the league on
+// live totals. Shared by the worker's /agg/league/{id}/live route and the app,
+// which scores in the browser when no worker is configured.
+
+import { calculateProvisionalBonus, calculateSquadPoints, type SquadPlayerInput } from './fplScoring';
+import type { SeasonRules } from './fplRules';
+import type { EntryPicks, Fixture, LeagueStanding, LiveElement, Player } from '../types/fpl';
+
+// Tables are scored a standings page (50 managers) at a time and every member
+// costs one picks request, so larger leagues are scored down to this many pages
+export const MAX_LEAGUE_PAGES = 4;
+
+export interface LeagueLivePick {
+  element: number;
+  position: number;
+  multiplier: number;
+  points: number; // includes provisional_bonus
+  provisional_bonus: number;
+  is_captain: boolean;
+  is_vice_captain: boolean;
+  auto_sub: 'in' | 'out' | null;
+}
+
+export interface LeagueLiveManager {
+  entry: number;
+  player_name: string;
+  entry_name: string;
+  rank: number;
+  last_rank: number; // rank in the official standings before live points
+  live_points: number; // gameweek points after auto-subs, captaincy and hits
+  live_total: number;
+  transfer_cost: number;
+  active_chip: string | null;
+  picks: LeagueLivePick[];
+}
+
+export interface LeagueLiveTable {
+  league: { id: number; name: string };
+  gameweek: number;
+  season: string;
+  computed_at: string;
+  // Standings page scored, and whether the league continues past it
+  page: number;
+  has_next: boolean;
+  managers: LeagueLiveManager[];
+}
+
+export interface LivePlayerInputs {
+  players: Map<number, SquadPlayerInput>;
+  provisionalBonus: Map<number, number>;
+}
+
+/**
+ * Scoring inputs for every player with live data. Points include provisional
+ * bonus; a player counts as finished (so can be auto-subbed out) once all of
+ * their team's fixtures are over.
+ */
+export function buildLivePlayerInputs(
+  bootstrapElements: Player[],
+  liveElements: LiveElement[],
+  fixtures: Fixture[],
+  rules: SeasonRules
+): LivePlayerInputs {
+  const elementsById = new Map(bootstrapElements.map(p => [p.id, p] as const));
+
+  const teamStillPlaying = new Set<number>();
+  for (const fixture of fixtures) {
+    if (fixture.finished || fixture.finished_provisional) continue;
+    teamStillPlaying.add(fixture.team_h);
+    teamStillPlaying.add(fixture.team_a);
+  }
+
+  const provisionalBonus = calculateProvisionalBonus(fixtures, liveElements, id => elementsById.get(id)?.element_type, rules);
+
+  const players = new Map<number, SquadPlayerInput>();
+  for (const element of liveElements) {
+    const player = elementsById.get(element.id);
+    players.set(element.id, {
+      element: element.id,
+      elementType: player?.element_type ?? 0,
+      points: element.stats.total_points + (provisionalBonus.get(element.id) ?? 0),
+      minutes: element.stats.minutes,
+      hasFinished: !player || !teamStillPlaying.has(player.team),
+    });
+  }
+
+  return { players, provisionalBonus };
+}
+
+/**
+ * One member's live gameweek. `rank` is left at 0 for rankLeagueLive.
+ */
+export function scoreLeagueMember(
+  member: Pick<LeagueStanding, 'entry' | 'player_name' | 'entry_name' | 'rank'>,
+  picks: EntryPicks,
+  inputs: LivePlayerInputs,
+  rules: SeasonRules
+): LeagueLiveManager {
+  const history = picks.entry_history;
+  const score = calculateSquadPoints(picks.picks, inputs.players, {
+    activeChip: picks.active_chip,
+    transferCost: history.event_transfers_cost,
+    rules,
+  });
+  // Season total before this gameweek, net of this week's hits
+  const previousTotal = history.total_points - history.points + history.event_transfers_cost;
+
+  return {
+    entry: member.entry,
+    player_name: member.player_name,
+    entry_name: member.entry_name,
+    rank: 0,
+    last_rank: member.rank,
+    live_points: score.totalPoints,
+    live_total: previousTotal + score.totalPoints,
+    transfer_cost: history.event_transfers_cost,
+    active_chip: picks.active_chip,
+    picks: score.picks.map(pick => ({
+      element: pick.element,
+      position: pick.position,
+      multiplier: pick.multiplier,
+      points: pick.points,
+      provisional_bonus: inputs.provisionalBonus.get(pick.element) ?? 0,
+      is_captain: pick.is_captain,
+      is_vice_captain: pick.is_vice_captain,
+      auto_sub: pick.isAutoSubbed ? 'in' : pick.isSubbedOut ? 'out' : null,
+    })),
+  };
+}
+
+/**
+ * Sort on live totals and assign ranks in place. Equal totals share a rank,
+ * like the official table.
+ */
+export function rankLeagueLive(managers: LeagueLiveManager[]): LeagueLiveManager[] {
+  managers.sort((a, b) => b.live_total - a.live_total || a.last_rank - b.last_rank);
+  managers.forEach((manager, index) => {
+    const previous = managers[index - 1];
+    manager.rank = previous && previous.live_total === manager.live_total ? previous.rank : index + 1;
+  });
+  return managers;
+}
+
+/**
+ * One table from consecutive standings pages (first page first), re-ranked on
+ * live totals across all of them. The page tables are left untouched.
+ */
+export function mergeLeagueLivePages(pages: LeagueLiveTable[]): LeagueLiveTable {
+  const last = pages[pages.length - 1];
+  return {
+    ...last,
+    page: pages[0].page,
+    computed_at: pages.map(page => page.computed_at).sort()[0],
+    managers: rankLeagueLive(pages.flatMap(page => page.managers.map(manager => ({ ...manager })))),
+  };
+}
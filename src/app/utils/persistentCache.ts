@@ -0,0 +1,325 @@
+// Persistent FPL data cache
+// Stores API responses in IndexedDB so a reload doesn't refetch bootstrap-static
+// (~1.5MB) and fixtures. Each endpoint has its own freshness window; stale entries
+// are served immediately while a background request revalidates them.
+// Falls back to memory-only when IndexedDB is unavailable (e.g. private browsing).
+
+export type CacheEndpoint = 'bootstrap' | 'fixtures' | 'live' | 'entry' | 'elementSummary';
+
+interface CachePolicy {
+  ttl: number;    // fresh for this long — served without revalidating
+  maxAge: number; // usable as stale data until this age, then evicted
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CACHE_POLICIES: Record<CacheEndpoint, CachePolicy> = {
+  bootstrap: { ttl: 10 * MINUTE, maxAge: 7 * DAY },
+  fixtures: { ttl: 30 * MINUTE, maxAge: 7 * DAY },
+  live: { ttl: 1 * MINUTE, maxAge: 1 * DAY },
+  entry: { ttl: 5 * MINUTE, maxAge: 2 * DAY },
+  elementSummary: { ttl: 6 * HOUR, maxAge: 7 * DAY },
+};
+
+// Total size budget for the IndexedDB store (approximate, measured as JSON length)
+const MAX_CACHE_BYTES = 25 * 1024 * 1024;
+
+const DB_NAME = 'fpl-analytics-cache';
+const DB_VERSION = 2;
+const STORE_NAME = 'responses';
+// Size and age of every stored response, so eviction never reads the payloads
+const META_STORE = 'meta';
+
+interface CacheMeta {
+  key: string;
+  endpoint: CacheEndpoint;
+  storedAt: number;
+  size: number;
+}
+
+interface CacheRecord<T = unknown> extends CacheMeta {
+  data: T;
+}
+
+export type CacheStatus = 'fresh' | 'stale' | 'network';
+
+export interface CacheResult<T> {
+  data: T;
+  status: CacheStatus;
+  storedAt: number;
+}
+
+interface GetOrFetchOptions<T> {
+  // Skip the cache entirely and go to the network (the result is still stored)
+  forceRefresh?: boolean;
+  // Called with fresh data when a stale entry has been revalidated in the background
+  onRevalidate?: (data: T, storedAt: number) => void;
+  // Called if a background revalidation fails (the stale data stays in place)
+  onRevalidateError?: (error: unknown) => void;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+class PersistentCache {
+  private memory: Map<string, CacheRecord> = new Map();
+  private inflight: Map<string, Promise<unknown>> = new Map();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // The meta store, loaded once per session and kept in step with every write
+  private metaPromise: Promise<Map<string, CacheMeta>> | null = null;
+
+  private openDB(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex('storedAt', 'storedAt');
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE, { keyPath: 'key' });
+            // Responses stored before the meta store existed have no entry in it
+            request.transaction?.objectStore(STORE_NAME).clear();
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        // Blocked or failed — carry on memory-only
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      } catch (_err: unknown) {
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+
+  private isExpired(record: CacheMeta, now = Date.now()): boolean {
+    return now - record.storedAt > CACHE_POLICIES[record.endpoint].maxAge;
+  }
+
+  private isFresh(record: CacheMeta, now = Date.now()): boolean {
+    return now - record.storedAt <= CACHE_POLICIES[record.endpoint].ttl;
+  }
+
+  /**
+   * Read a cached entry (memory first, then IndexedDB).
+   * Returns null if missing or past the endpoint's maxAge.
+   */
+  async get<T>(key: string): Promise<CacheResult<T> | null> {
+    let record = this.memory.get(key) as CacheRecord<T> | undefined;
+
+    if (!record) {
+      const db = await this.openDB();
+      if (db) {
+        try {
+          const tx = db.transaction(STORE_NAME, 'readonly');
+          record = await requestToPromise(tx.objectStore(STORE_NAME).get(key)) as CacheRecord<T> | undefined;
+          if (record) this.memory.set(key, record);
+        } catch (_err: unknown) {
+          record = undefined;
+        }
+      }
+    }
+
+    if (!record) return null;
+
+    if (this.isExpired(record)) {
+      this.invalidate(key);
+      return null;
+    }
+
+    return {
+      data: record.data,
+      status: this.isFresh(record) ? 'fresh' : 'stale',
+      storedAt: record.storedAt,
+    };
+  }
+
+  /**
+   * Store an entry and enforce the age/size budget.
+   */
+  async set<T>(key: string, endpoint: CacheEndpoint, data: T): Promise<number> {
+    const storedAt = Date.now();
+    let size = 0;
+    try {
+      size = JSON.stringify(data).length;
+    } catch (_err: unknown) {
+      size = 0;
+    }
+
+    const meta: CacheMeta = { key, endpoint, storedAt, size };
+    const record: CacheRecord<T> = { ...meta, data };
+    this.memory.set(key, record);
+
+    const db = await this.openDB();
+    if (db) {
+      try {
+        const index = await this.loadMeta(db);
+        const tx = db.transaction([STORE_NAME, META_STORE], 'readwrite');
+        tx.objectStore(STORE_NAME).put(record);
+        tx.objectStore(META_STORE).put(meta);
+        await transactionDone(tx);
+        index.set(key, meta);
+        if (this.totalSize(index) > MAX_CACHE_BYTES) await this.evict(db, index);
+      } catch (_err: unknown) {
+        // Quota exceeded or write failed — memory copy still serves this session
+      }
+    }
+
+    return storedAt;
+  }
+
+  /**
+   * Stale-while-revalidate read.
+   * - fresh entry  → returned as-is
+   * - stale entry  → returned immediately, refreshed in the background (onRevalidate)
+   * - no entry     → fetched, stored and returned
+   */
+  async getOrFetch<T>(
+    key: string,
+    endpoint: CacheEndpoint,
+    fetcher: () => Promise<T>,
+    options: GetOrFetchOptions<T> = {}
+  ): Promise<CacheResult<T>> {
+    if (!options.forceRefresh) {
+      const cached = await this.get<T>(key);
+      if (cached?.status === 'fresh') return cached;
+
+      if (cached?.status === 'stale') {
+        this.revalidate(key, endpoint, fetcher)
+          .then(({ data, storedAt }) => options.onRevalidate?.(data, storedAt))
+          .catch(err => options.onRevalidateError?.(err));
+        return cached;
+      }
+    }
+
+    const { data, storedAt } = await this.revalidate(key, endpoint, fetcher);
+    return { data, status: 'network', storedAt };
+  }
+
+  // One network request per key at a time; concurrent callers share it
+  private revalidate<T>(
+    key: string,
+    endpoint: CacheEndpoint,
+    fetcher: () => Promise<T>
+  ): Promise<{ data: T; storedAt: number }> {
+    const existing = this.inflight.get(key);
+    if (existing) return existing as Promise<{ data: T; storedAt: number }>;
+
+    const request = (async () => {
+      const data = await fetcher();
+      const storedAt = await this.set(key, endpoint, data);
+      return { data, storedAt };
+    })().finally(() => {
+      this.inflight.delete(key);
+    });
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  // Read the meta store once, dropping anything that expired since last session
+  private loadMeta(db: IDBDatabase): Promise<Map<string, CacheMeta>> {
+    if (!this.metaPromise) {
+      this.metaPromise = (async () => {
+        const tx = db.transaction(META_STORE, 'readonly');
+        const entries = await requestToPromise(tx.objectStore(META_STORE).getAll()) as CacheMeta[];
+        const index = new Map(entries.map(meta => [meta.key, meta] as const));
+        const now = Date.now();
+        const expired = entries.filter(meta => this.isExpired(meta, now));
+        if (expired.length > 0) await this.remove(db, index, expired.map(meta => meta.key));
+        return index;
+      })();
+      this.metaPromise.catch(() => {
+        this.metaPromise = null;
+      });
+    }
+    return this.metaPromise;
+  }
+
+  private totalSize(index: Map<string, CacheMeta>): number {
+    let total = 0;
+    for (const meta of index.values()) total += meta.size;
+    return total;
+  }
+
+  // Drop expired entries, then the oldest entries until under the size budget
+  private async evict(db: IDBDatabase, index: Map<string, CacheMeta>): Promise<void> {
+    const now = Date.now();
+    let totalSize = this.totalSize(index);
+    const doomed: string[] = [];
+
+    for (const meta of [...index.values()].sort((a, b) => a.storedAt - b.storedAt)) {
+      if (this.isExpired(meta, now) || totalSize > MAX_CACHE_BYTES) {
+        doomed.push(meta.key);
+        totalSize -= meta.size;
+      }
+    }
+
+    await this.remove(db, index, doomed);
+  }
+
+  private async remove(db: IDBDatabase, index: Map<string, CacheMeta>, keys: string[]): Promise<void> {
+    const tx = db.transaction([STORE_NAME, META_STORE], 'readwrite');
+    for (const key of keys) {
+      tx.objectStore(STORE_NAME).delete(key);
+      tx.objectStore(META_STORE).delete(key);
+      this.memory.delete(key);
+      index.delete(key);
+    }
+    await transactionDone(tx);
+  }
+
+  async invalidate(key: string): Promise<void> {
+    this.memory.delete(key);
+    const db = await this.openDB();
+    if (!db) return;
+    try {
+      await this.remove(db, await this.loadMeta(db), [key]);
+    } catch (_err: unknown) {
+      // Nothing to clean up
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    const db = await this.openDB();
+    if (!db) return;
+    try {
+      const index = await this.loadMeta(db);
+      const tx = db.transaction([STORE_NAME, META_STORE], 'readwrite');
+      tx.objectStore(STORE_NAME).clear();
+      tx.objectStore(META_STORE).clear();
+      await transactionDone(tx);
+      index.clear();
+    } catch (_err: unknown) {
+      // Nothing to clean up
+    }
+  }
+}
+
+export const fplCache = new PersistentCache();
@@ -0,0 +1,92 @@
+// Player snapshot format
+// The compact per-day record of every player's price, ownership, form,
+// transfers and status, and the trend lines read back from it. Free of any
+// storage so the Worker (worker/src/history.ts) can build and read the same
+// snapshots it keeps in KV; the app's localStorage copy is playerSnapshots.ts.
+import type { Player } from '../types/fpl';
+
+// [now_cost, selected_by_percent × 10, form × 10, transfers_in_event, transfers_out_event, status]
+export type SnapshotRow = [number, number, number, number, number, string];
+
+export interface PlayerSnapshot {
+  date: string;    // YYYY-MM-DD (UTC) the data describes
+  takenAt: number; // when the underlying bootstrap-static was fetched
+  players: Record<number, SnapshotRow>;
+  news?: Record<number, string>; // only players with a news item; missing in older snapshots
+}
+
+export interface PlayerTrendPoint {
+  date: string;
+  price: number;       // £m
+  ownership: number;   // %
+  form: number;
+  transfersIn: number;
+  transfersOut: number;
+  status: string;
+  news: string;
+}
+
+export function toDateKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function tenths(value: string): number {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.round(parsed * 10) : 0;
+}
+
+/**
+ * Compact snapshot of bootstrap-static players, dated by when it was fetched.
+ */
+export const buildSnapshot = (players: Player[], takenAt: number): PlayerSnapshot => {
+  const rows: Record<number, SnapshotRow> = {};
+  const news: Record<number, string> = {};
+  for (const p of players) {
+    rows[p.id] = [
+      p.now_cost,
+      tenths(p.selected_by_percent),
+      tenths(p.form),
+      p.transfers_in_event,
+      p.transfers_out_event,
+      p.status,
+    ];
+    if (p.news) news[p.id] = p.news;
+  }
+  return { date: toDateKey(takenAt), takenAt, players: rows, news };
+};
+
+/**
+ * Price, ownership and form over time for one player from a set of snapshots
+ * (oldest first).
+ */
+export const playerTrend = (playerId: number, snapshots: PlayerSnapshot[]): PlayerTrendPoint[] => {
+  const points: PlayerTrendPoint[] = [];
+  for (const snapshot of snapshots) {
+    const row = snapshot.players[playerId];
+    if (!row) continue;
+    const [cost, ownership, form, transfersIn, transfersOut, status] = row;
+    points.push({
+      date: snapshot.date,
+      price: cost / 10,
+      ownership: ownership / 10,
+      form: form / 10,
+      transfersIn,
+      transfersOut,
+      status,
+      news: snapshot.news?.[playerId] ?? '',
+    });
+  }
+  return points;
+};
+
+/**
+ * Merge trend points from several sources by date — later sources win on days
+ * present in more than one.
+ */
+export const mergePlayerTrends = (...trends: PlayerTrendPoint[][]): PlayerTrendPoint[] => {
+  const byDate = new Map<string, PlayerTrendPoint>();
+  for (const trend of trends) {
+    for (const point of trend) byDate.set(point.date, point);
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
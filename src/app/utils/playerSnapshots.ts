@@ -0,0 +1,124 @@
+// Daily player snapshots
+// bootstrap-static only carries current values, so we keep one compact snapshot
+// per day of every player's price, ownership, form, transfers and status in
+// localStorage. Trend lines are drawn from these; snapshots can be exported and
+// imported as JSON to move history between browsers. The Worker records the same
+// snapshot format daily (worker/src/history.ts), so server history merges in.
+import { buildSnapshot, playerTrend, toDateKey, type PlayerSnapshot, type PlayerTrendPoint } from './playerSnapshotFormat';
+import type { Player } from '../types/fpl';
+
+export { mergePlayerTrends } from './playerSnapshotFormat';
+export type { PlayerSnapshot, PlayerTrendPoint } from './playerSnapshotFormat';
+
+const STORAGE_KEY = 'fpl_player_snapshots';
+const SNAPSHOT_VERSION = 1;
+
+// Roughly 30KB per day for every player — two months stays well inside localStorage limits
+const MAX_SNAPSHOTS = 60;
+
+interface SnapshotFile {
+  version: number;
+  snapshots: PlayerSnapshot[];
+}
+
+function isSnapshot(value: unknown): value is PlayerSnapshot {
+  if (!value || typeof value !== 'object') return false;
+  const snapshot = value as Partial<PlayerSnapshot>;
+  return (
+    typeof snapshot.date === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(snapshot.date) &&
+    typeof snapshot.takenAt === 'number' &&
+    !!snapshot.players &&
+    typeof snapshot.players === 'object'
+  );
+}
+
+function parseSnapshotFile(raw: string): PlayerSnapshot[] {
+  const parsed: unknown = JSON.parse(raw);
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Not a snapshot file');
+  }
+  const file = parsed as Partial<SnapshotFile>;
+  if (file.version !== SNAPSHOT_VERSION || !Array.isArray(file.snapshots)) {
+    throw new Error('Unsupported snapshot file version');
+  }
+  return file.snapshots.filter(isSnapshot);
+}
+
+// Oldest snapshots are dropped first if the browser's storage quota is hit
+function saveSnapshots(snapshots: PlayerSnapshot[]): void {
+  let kept = [...snapshots].sort((a, b) => a.date.localeCompare(b.date)).slice(-MAX_SNAPSHOTS);
+
+  while (kept.length > 0) {
+    try {
+      const file: SnapshotFile = { version: SNAPSHOT_VERSION, snapshots: kept };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+      return;
+    } catch (_err: unknown) {
+      kept = kept.slice(1);
+    }
+  }
+}
+
+/**
+ * All stored snapshots, oldest first.
+ */
+export const getSnapshots = (): PlayerSnapshot[] => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? parseSnapshotFile(data) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Record today's snapshot from bootstrap-static players.
+ * A later fetch on the same day replaces that day's snapshot.
+ */
+export const recordDailySnapshot = (players: Player[], takenAt: number = Date.now()): void => {
+  if (players.length === 0) return;
+
+  const date = toDateKey(takenAt);
+  const snapshots = getSnapshots();
+  const existing = snapshots.find(s => s.date === date);
+  if (existing && existing.takenAt >= takenAt) return;
+
+  saveSnapshots([...snapshots.filter(s => s.date !== date), buildSnapshot(players, takenAt)]);
+};
+
+/**
+ * Price, ownership and form over time for one player from the stored snapshots
+ * (oldest first).
+ */
+export const getPlayerTrend = (playerId: number, snapshots: PlayerSnapshot[] = getSnapshots()): PlayerTrendPoint[] =>
+  playerTrend(playerId, snapshots);
+
+/**
+ * Serialize every stored snapshot for download.
+ */
+export const exportSnapshots = (): string => {
+  const file: SnapshotFile = { version: SNAPSHOT_VERSION, snapshots: getSnapshots() };
+  return JSON.stringify(file);
+};
+
+/**
+ * Merge snapshots from an exported file. For a date present on both sides the
+ * later-fetched snapshot wins. Returns the number of dates added or updated.
+ */
+export const importSnapshots = (raw: string): number => {
+  const incoming = parseSnapshotFile(raw);
+  const byDate = new Map(getSnapshots().map(s => [s.date, s]));
+  let changed = 0;
+
+  for (const snapshot of incoming) {
+    const existing = byDate.get(snapshot.date);
+    if (!existing || snapshot.takenAt > existing.takenAt) {
+      byDate.set(snapshot.date, snapshot);
+      changed++;
+    }
+  }
+
+  if (changed > 0) saveSnapshots([...byDate.values()]);
+  return changed;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { estimateLiveRank, planRankStrata, type RankSample } from './rankEstimate';
+
+const STANDINGS_PAGE_SIZE = 50;
+
+// Totals with mean `mean` and the same spread whatever the sample size
+const totalsAround = (mean: number, count: number) =>
+  Array.from({ length: count }, (_, i) => mean + (i % 2 === 0 ? -10 : 10));
+
+function sampleOf(count: number): RankSample {
+  return {
+    gameweek: 10,
+    season: '2025/26',
+    computed_at: '2026-10-18T15:00:00Z',
+    total_players: 1_000_000,
+    strata: planRankStrata(1_000_000).map((stratum, index) => ({
+      ...stratum,
+      totals: totalsAround(700 - index * 40, count),
+    })),
+  };
+}
+
+describe('planRankStrata', () => {
+  it('draws up to four distinct pages from inside each rank band', () => {
+    const strata = planRankStrata(11_000_000);
+    expect(strata.map(s => s.to)).toEqual([1_000, 10_000, 100_000, 500_000, 1_000_000, 3_000_000, 11_000_000]);
+    // The top band is only 20 pages deep, so its log-spaced draws share page 1
+    expect(strata[0].pages).toEqual([1, 2, 9]);
+    for (const stratum of strata.slice(1)) expect(stratum.pages).toHaveLength(4);
+    for (const stratum of strata) {
+      expect(new Set(stratum.pages).size).toBe(stratum.pages.length);
+      for (const page of stratum.pages) {
+        expect(page).toBeGreaterThanOrEqual(Math.ceil(stratum.from / STANDINGS_PAGE_SIZE));
+        expect(page).toBeLessThanOrEqual(Math.ceil(stratum.to / STANDINGS_PAGE_SIZE));
+      }
+    }
+  });
+});
+
+describe('estimateLiveRank', () => {
+  it('widens the band for smaller samples', () => {
+    const small = estimateLiveRank(sampleOf(4), 600)!;
+    const large = estimateLiveRank(sampleOf(20), 600)!;
+    expect(small.worst - small.best).toBeGreaterThan(2 * (large.worst - large.best));
+  });
+
+  it('keeps the estimate inside its band', () => {
+    const estimate = estimateLiveRank(sampleOf(20), 600)!;
+    expect(estimate.best).toBeLessThanOrEqual(estimate.rank);
+    expect(estimate.worst).toBeGreaterThanOrEqual(estimate.rank);
+  });
+
+  it('returns null when nothing was sampled', () => {
+    expect(estimateLiveRank(sampleOf(0), 600)).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+// Live overall rank estimate
+// FPL only ranks managers once a gameweek's points are processed, so the live
+// overall rank is estimated from a sample: the overall league is split into
+// rank bands (strata), a few managers from each are scored on live points
+// (utils/liveLeague), and a manager's live total is placed against each band's
+// points distribution. Shared by the worker's /agg/overall/live route and the
+// app, which samples in the browser when no worker is configured.
+
+import { scoreLeagueMember, type LivePlayerInputs } from './liveLeague';
+import type { SeasonRules } from './fplRules';
+import type { EntryPicks, LeagueStanding, LeagueStandings } from '../types/fpl';
+
+// FPL's overall league — every manager in the game
+export const OVERALL_LEAGUE_ID = 314;
+
+// Standings pages drawn from each stratum, and managers scored from each page.
+// Every page and manager costs a request: strata × SAMPLE_PAGES × (1 +
+// SAMPLES_PER_PAGE) is about 170 for a full-size game, inside the worker's
+// per-invocation subrequest cap on the paid plan.
+const SAMPLE_PAGES = 4;
+export const SAMPLES_PER_PAGE = 5;
+
+// Upper rank of each stratum below the last; the last runs to total_players
+const STRATUM_BOUNDS = [1_000, 10_000, 100_000, 500_000, 1_000_000, 3_000_000];
+
+const STANDINGS_PAGE_SIZE = 50;
+
+// Two-sided 90% band: Student's t for 1-30 degrees of freedom, then the normal
+// value — a stratum's mean is only as good as the few managers behind it
+const BAND_T = [
+  6.314, 2.920, 2.353, 2.132, 2.015, 1.943, 1.895, 1.860, 1.833, 1.812,
+  1.796, 1.782, 1.771, 1.761, 1.753, 1.746, 1.740, 1.734, 1.729, 1.725,
+  1.721, 1.717, 1.714, 1.711, 1.708, 1.706, 1.703, 1.701, 1.699, 1.697,
+];
+const BAND_Z = 1.645;
+
+// Floor for a stratum's spread, so bands of near-identical totals still overlap
+const MIN_SPREAD = 4;
+
+export interface RankStratum {
+  from: number; // official ranks covered, inclusive
+  to: number;
+  pages: number[]; // overall standings pages the managers were drawn from
+  totals: number[]; // live totals of the sampled managers
+}
+
+export interface RankSample {
+  gameweek: number;
+  season: string;
+  computed_at: string;
+  total_players: number;
+  strata: RankStratum[];
+}
+
+export interface LiveRankEstimate {
+  rank: number;
+  // 90% band: `best` is the higher (smaller) rank
+  best: number;
+  worst: number;
+}
+
+/**
+ * The strata to sample for a game of `totalPlayers`. Each is drawn from
+ * SAMPLE_PAGES standings pages spread evenly through it (on a log scale, as
+ * points thin out towards the top). `totals` is left empty.
+ */
+export function planRankStrata(totalPlayers: number): RankStratum[] {
+  const bounds = [...STRATUM_BOUNDS.filter(bound => bound < totalPlayers), totalPlayers];
+  const fractions = Array.from({ length: SAMPLE_PAGES }, (_, i) => (i + 0.5) / SAMPLE_PAGES);
+  let from = 1;
+  return bounds.map(to => {
+    const pages = fractions
+      .map(fraction => Math.round(from * Math.pow(to / from, fraction)))
+      .map(rank => Math.ceil(rank / STANDINGS_PAGE_SIZE));
+    const stratum: RankStratum = { from, to, pages: [...new Set(pages)], totals: [] };
+    from = to + 1;
+    return stratum;
+  });
+}
+
+/**
+ * SAMPLES_PER_PAGE managers spread evenly through one standings page.
+ */
+export function pickSampleMembers(results: LeagueStanding[]): LeagueStanding[] {
+  if (results.length <= SAMPLES_PER_PAGE) return results;
+  const step = results.length / SAMPLES_PER_PAGE;
+  return Array.from({ length: SAMPLES_PER_PAGE }, (_, i) => results[Math.floor(i * step + step / 2)]);
+}
+
+export interface RankSampleLoaders {
+  standingsPage: (page: number) => Promise<LeagueStandings>; // overall league
+  picks: (entry: number) => Promise<EntryPicks>;
+}
+
+/**
+ * Fill each stratum's `totals` with its sampled managers' live totals. Pages
+ * and picks that fail to load are skipped, leaving a smaller sample.
+ */
+export async function sampleLiveTotals(
+  strata: RankStratum[],
+  loaders: RankSampleLoaders,
+  inputs: LivePlayerInputs,
+  rules: SeasonRules
+): Promise<RankStratum[]> {
+  return Promise.all(strata.map(async stratum => {
+    const pageTotals = await Promise.all(stratum.pages.map(async page => {
+      const standings = await loaders.standingsPage(page).catch(() => null);
+      if (!standings) return [];
+      const totals = await Promise.all(pickSampleMembers(standings.standings.results).map(async member => {
+        const picks = await loaders.picks(member.entry).catch(() => null);
+        return picks ? scoreLeagueMember(member, picks, inputs, rules).live_total : null;
+      }));
+      return totals.filter((total): total is number => total !== null);
+    }));
+    return { ...stratum, totals: pageTotals.flat() };
+  }));
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Half-width of the 90% band on a stratum's mean, in standard errors
+function bandWidth(sampleSize: number): number {
+  const degreesOfFreedom = Math.max(sampleSize - 1, 1);
+  return BAND_T[degreesOfFreedom - 1] ?? BAND_Z;
+}
+
+function stratumFit(totals: number[]): { mean: number; spread: number; margin: number } {
+  const mean = totals.reduce((sum, total) => sum + total, 0) / totals.length;
+  const variance = totals.length > 1
+    ? totals.reduce((sum, total) => sum + (total - mean) ** 2, 0) / (totals.length - 1)
+    : 0;
+  const spread = Math.max(Math.sqrt(variance), MIN_SPREAD);
+  // The margin a 90% band puts on the mean, wider for smaller samples
+  return { mean, spread, margin: bandWidth(totals.length) * spread / Math.sqrt(totals.length) };
+}
+
+/**
+ * Estimated overall rank for a live total: each stratum's managers ahead, from
+ * a normal fit to its sampled totals, plus one. The band shifts every stratum's
+ * mean to the edge of its 90% interval in the same direction. Null when nothing
+ * was sampled.
+ */
+export function estimateLiveRank(sample: RankSample, liveTotal: number): LiveRankEstimate | null {
+  const fits = sample.strata
+    .filter(stratum => stratum.totals.length > 0)
+    .map(stratum => ({ size: stratum.to - stratum.from + 1, ...stratumFit(stratum.totals) }));
+  if (fits.length === 0) return null;
+
+  const rankWithShift = (direction: -1 | 0 | 1) => {
+    const ahead = fits.reduce((sum, fit) => {
+      const mean = fit.mean + direction * fit.margin;
+      // Measured at liveTotal itself, so managers level on points count half
+      return sum + fit.size * (1 - normalCdf((liveTotal - mean) / fit.spread));
+    }, 0);
+    return Math.min(Math.max(Math.round(ahead) + 1, 1), sample.total_players);
+  };
+
+  return {
+    rank: rankWithShift(0),
+    best: rankWithShift(-1),
+    worst: rankWithShift(1),
+  };
+}
@@ -0,0 +1,168 @@
+// FPL request scheduler
+// Every FPL API call goes through one queue so that:
+// - identical in-flight requests are shared instead of sent twice
+// - only a few requests hit the network at once (league views can fan out
+//   dozens of picks calls)
+// - live data jumps ahead of lookups and background prefetches
+// - a rate-limit response pauses the whole queue, not just the caller that hit it
+
+export type RequestPriority = 'live' | 'normal' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  live: 0,
+  normal: 1,
+  background: 2,
+};
+
+const MAX_CONCURRENT = 4;
+const MAX_RATE_LIMIT_RETRIES = 2;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 60000;
+
+/**
+ * Thrown by a task when upstream rate-limits it (HTTP 429 or an exhausted proxy chain).
+ * The queue pauses globally and retries the task afterwards.
+ */
+export class RateLimitError extends Error {
+  retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+interface QueueEntry<T = unknown> {
+  key: string;
+  priority: RequestPriority;
+  task: () => Promise<T>;
+  attempts: number;
+  seq: number;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+class RequestQueue {
+  private pending: QueueEntry[] = [];
+  private inflight: Map<string, Promise<unknown>> = new Map();
+  private queued: Map<string, QueueEntry> = new Map();
+  private active = 0;
+  private seq = 0;
+  private pausedUntil = 0;
+  private consecutiveRateLimits = 0;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Run a task through the queue. Callers passing the same key while a request
+   * is queued or in flight share its result; a higher priority caller promotes
+   * the queued request.
+   */
+  schedule<T>(key: string, task: () => Promise<T>, priority: RequestPriority = 'normal'): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) {
+      const queuedEntry = this.queued.get(key);
+      if (queuedEntry && PRIORITY_RANK[priority] < PRIORITY_RANK[queuedEntry.priority]) {
+        queuedEntry.priority = priority;
+      }
+      return existing as Promise<T>;
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const entry: QueueEntry<T> = { key, priority, task, attempts: 0, seq: this.seq++, resolve, reject };
+      this.enqueue(entry as QueueEntry);
+    }).finally(() => {
+      this.inflight.delete(key);
+    });
+
+    this.inflight.set(key, promise);
+    this.pump();
+    return promise;
+  }
+
+  /** Milliseconds until the queue resumes after a rate limit (0 when running). */
+  getBackoffRemaining(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  private enqueue(entry: QueueEntry): void {
+    this.pending.push(entry);
+    this.queued.set(entry.key, entry);
+  }
+
+  // Highest priority first, then first-come first-served
+  private takeNext(): QueueEntry | undefined {
+    if (this.pending.length === 0) return undefined;
+    let bestIndex = 0;
+    for (let i = 1; i < this.pending.length; i++) {
+      const best = this.pending[bestIndex];
+      const candidate = this.pending[i];
+      const rankDiff = PRIORITY_RANK[candidate.priority] - PRIORITY_RANK[best.priority];
+      if (rankDiff < 0 || (rankDiff === 0 && candidate.seq < best.seq)) bestIndex = i;
+    }
+    const [entry] = this.pending.splice(bestIndex, 1);
+    this.queued.delete(entry.key);
+    return entry;
+  }
+
+  private pump(): void {
+    const wait = this.getBackoffRemaining();
+    if (wait > 0) {
+      if (!this.resumeTimer) {
+        this.resumeTimer = setTimeout(() => {
+          this.resumeTimer = null;
+          this.pump();
+        }, wait);
+      }
+      return;
+    }
+
+    while (this.active < MAX_CONCURRENT) {
+      const entry = this.takeNext();
+      if (!entry) return;
+      this.run(entry);
+    }
+  }
+
+  private async run(entry: QueueEntry): Promise<void> {
+    this.active++;
+    try {
+      const result = await entry.task();
+      this.consecutiveRateLimits = 0;
+      entry.resolve(result);
+    } catch (err: unknown) {
+      if (err instanceof RateLimitError && entry.attempts < MAX_RATE_LIMIT_RETRIES) {
+        this.backOff(err.retryAfterMs);
+        entry.attempts++;
+        this.enqueue(entry);
+      } else {
+        entry.reject(err);
+      }
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+
+  // Pause every request, doubling the wait while upstream keeps rate-limiting
+  private backOff(retryAfterMs: number | null): void {
+    // Requests that were already in flight when the pause began don't escalate it
+    if (this.getBackoffRemaining() === 0) this.consecutiveRateLimits++;
+    const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (this.consecutiveRateLimits - 1));
+    const until = Date.now() + Math.max(exponential, retryAfterMs ?? 0);
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+  }
+}
+
+export const fplRequestQueue = new RequestQueue();
@@ -0,0 +1,317 @@
+// Historical season importer
+// Turns JSON or CSV archives of a past season into a SeasonArchive. Accepted inputs:
+// - bootstrap-static JSON (elements/teams) or a JSON object with players/teams/history/fixtures
+// - CSV exports in the common community archive layout: players_raw.csv / cleaned_players.csv,
+//   teams.csv, fixtures.csv and merged_gw.csv (one row per player per fixture)
+// The file type is detected from its columns, not its name.
+import type { Player, Team, Fixture, SeasonArchive, SeasonGameweekRow } from '../types/fpl';
+
+type RawRow = Record<string, unknown>;
+
+export interface SeasonImportFile {
+  name: string;
+  text: string;
+}
+
+const POSITION_CODES: Record<string, number> = { GK: 1, GKP: 1, DEF: 2, MID: 3, FWD: 4 };
+
+/**
+ * Season label for a date, e.g. any date from Jul 2024 to Jun 2025 → '2024/25'.
+ */
+export function seasonForDate(date: Date): string {
+  const startYear = date.getUTCMonth() >= 6 ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+export function isSeasonLabel(value: string): boolean {
+  const match = /^(\d{4})\/(\d{2})$/.exec(value);
+  return !!match && (Number(match[1]) + 1) % 100 === Number(match[2]);
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF).
+ */
+export function parseCSV(text: string): RawRow[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+  const keys = header.map(h => h.trim().replace(/^\uFEFF/, ''));
+
+  return body.map(cells => {
+    const record: RawRow = {};
+    keys.forEach((key, idx) => {
+      record[key] = cells[idx] ?? '';
+    });
+    return record;
+  });
+}
+
+function num(value: unknown, fallback = 0): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function numOrNull(value: unknown): number | null {
+  const parsed = num(value, NaN);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function text(value: unknown, fallback = ''): string {
+  return value === undefined || value === null ? fallback : String(value);
+}
+
+function bool(value: unknown): boolean {
+  return value === true || value === 1 || /^(true|1)$/i.test(String(value ?? ''));
+}
+
+function boolOrNull(value: unknown): boolean | null {
+  if (value === undefined || value === null || value === '') return null;
+  return bool(value);
+}
+
+function positionOf(value: unknown): number {
+  const code = POSITION_CODES[String(value ?? '').toUpperCase()];
+  return code ?? num(value, 0);
+}
+
+function toPlayer(row: RawRow, index: number): Player | null {
+  const secondName = text(row.second_name);
+  const webName = text(row.web_name) || secondName || text(row.name);
+  if (!webName) return null;
+
+  const teamIsName = row.team !== undefined && Number.isNaN(parseFloat(String(row.team)));
+
+  return {
+    id: num(row.id ?? row.element, index + 1),
+    code: num(row.code),
+    team_code: num(row.team_code),
+    first_name: text(row.first_name),
+    second_name: secondName,
+    web_name: webName,
+    team: teamIsName ? 0 : num(row.team),
+    team_name: teamIsName ? text(row.team) : text(row.team_name) || undefined,
+    element_type: positionOf(row.element_type ?? row.position),
+    now_cost: num(row.now_cost ?? row.value),
+    cost_change_start: num(row.cost_change_start),
+    selected_by_percent: text(row.selected_by_percent, '0'),
+    form: text(row.form, '0'),
+    points_per_game: text(row.points_per_game, '0'),
+    total_points: num(row.total_points),
+    minutes: num(row.minutes),
+    goals_scored: num(row.goals_scored),
+    assists: num(row.assists),
+    clean_sheets: num(row.clean_sheets),
+    goals_conceded: num(row.goals_conceded),
+    own_goals: num(row.own_goals),
+    penalties_saved: num(row.penalties_saved),
+    penalties_missed: num(row.penalties_missed),
+    yellow_cards: num(row.yellow_cards),
+    red_cards: num(row.red_cards),
+    saves: num(row.saves),
+    bonus: num(row.bonus),
+    bps: num(row.bps),
+    influence: text(row.influence, '0'),
+    creativity: text(row.creativity, '0'),
+    threat: text(row.threat, '0'),
+    ict_index: text(row.ict_index, '0'),
+    expected_goals: text(row.expected_goals, '0'),
+    expected_assists: text(row.expected_assists, '0'),
+    expected_goal_involvements: text(row.expected_goal_involvements, '0'),
+    expected_goals_conceded: text(row.expected_goals_conceded, '0'),
+    transfers_in_event: num(row.transfers_in_event),
+    transfers_out_event: num(row.transfers_out_event),
+    chance_of_playing_next_round: numOrNull(row.chance_of_playing_next_round),
+    status: text(row.status, 'a'),
+    news: text(row.news),
+    photo: text(row.photo),
+  };
+}
+
+function toTeam(row: RawRow): Team {
+  return {
+    id: num(row.id),
+    code: num(row.code),
+    name: text(row.name),
+    short_name: text(row.short_name),
+    strength: num(row.strength),
+  };
+}
+
+function toHistoryRow(row: RawRow): SeasonGameweekRow {
+  return {
+    element: num(row.element),
+    round: num(row.round ?? row.GW ?? row.gw),
+    fixture: numOrNull(row.fixture),
+    opponent_team: numOrNull(row.opponent_team),
+    was_home: boolOrNull(row.was_home),
+    total_points: num(row.total_points),
+    minutes: num(row.minutes),
+    goals_scored: num(row.goals_scored),
+    assists: num(row.assists),
+    clean_sheets: num(row.clean_sheets),
+    bonus: num(row.bonus),
+    bps: num(row.bps),
+    expected_goals: text(row.expected_goals, '0'),
+    expected_assists: text(row.expected_assists, '0'),
+    value: numOrNull(row.value),
+  };
+}
+
+function toFixture(row: RawRow): Fixture {
+  return {
+    id: num(row.id),
+    code: numOrNull(row.code) ?? undefined,
+    event: num(row.event),
+    team_h: num(row.team_h),
+    team_a: num(row.team_a),
+    team_h_difficulty: num(row.team_h_difficulty, 3),
+    team_a_difficulty: num(row.team_a_difficulty, 3),
+    team_h_score: numOrNull(row.team_h_score),
+    team_a_score: numOrNull(row.team_a_score),
+    kickoff_time: text(row.kickoff_time),
+    started: boolOrNull(row.started),
+    finished: bool(row.finished),
+  };
+}
+
+type RowKind = 'players' | 'teams' | 'history' | 'fixtures';
+
+function detectKind(rows: RawRow[]): RowKind | null {
+  const keys = new Set(Object.keys(rows[0] ?? {}));
+  if (keys.has('element') && (keys.has('round') || keys.has('GW') || keys.has('gw'))) return 'history';
+  if (keys.has('team_h') && keys.has('team_a')) return 'fixtures';
+  if (keys.has('short_name') && keys.has('strength')) return 'teams';
+  if (keys.has('total_points') && (keys.has('web_name') || keys.has('second_name'))) return 'players';
+  return null;
+}
+
+interface ArchiveParts {
+  players: Player[];
+  teams: Team[];
+  history: SeasonGameweekRow[];
+  fixtures: Fixture[];
+}
+
+function addRows(parts: ArchiveParts, kind: RowKind, rows: RawRow[]): void {
+  switch (kind) {
+    case 'players':
+      parts.players.push(...rows.map(toPlayer).filter((p): p is Player => p !== null));
+      break;
+    case 'teams':
+      parts.teams.push(...rows.map(toTeam));
+      break;
+    case 'history':
+      parts.history.push(...rows.map(toHistoryRow));
+      break;
+    case 'fixtures':
+      parts.fixtures.push(...rows.map(toFixture));
+      break;
+  }
+}
+
+function asRows(value: unknown): RawRow[] {
+  return Array.isArray(value) ? value.filter((v): v is RawRow => !!v && typeof v === 'object') : [];
+}
+
+function addJson(parts: ArchiveParts, file: SeasonImportFile): void {
+  const data: unknown = JSON.parse(file.text);
+
+  if (Array.isArray(data)) {
+    const rows = asRows(data);
+    const kind = detectKind(rows);
+    if (!kind) throw new Error(`Unrecognised data in ${file.name}`);
+    addRows(parts, kind, rows);
+    return;
+  }
+
+  if (!data || typeof data !== 'object') throw new Error(`Unrecognised data in ${file.name}`);
+  const obj = data as RawRow;
+
+  // bootstrap-static uses `elements`; archives exported by this app use `players`
+  addRows(parts, 'players', asRows(obj.elements ?? obj.players));
+  addRows(parts, 'teams', asRows(obj.teams));
+  addRows(parts, 'history', asRows(obj.history));
+  addRows(parts, 'fixtures', asRows(obj.fixtures));
+}
+
+/**
+ * Build a season archive from one or more JSON/CSV files.
+ * Throws if no player data can be found.
+ */
+export function buildSeasonArchive(season: string, files: SeasonImportFile[]): SeasonArchive {
+  if (!isSeasonLabel(season)) {
+    throw new Error('Season must look like 2023/24');
+  }
+
+  const parts: ArchiveParts = { players: [], teams: [], history: [], fixtures: [] };
+
+  for (const file of files) {
+    if (file.name.toLowerCase().endsWith('.json')) {
+      addJson(parts, file);
+    } else {
+      const rows = parseCSV(file.text);
+      const kind = detectKind(rows);
+      if (!kind) throw new Error(`Unrecognised columns in ${file.name}`);
+      addRows(parts, kind, rows);
+    }
+  }
+
+  if (parts.players.length === 0) {
+    throw new Error('No player data found — include a players CSV or a bootstrap-static JSON');
+  }
+
+  // Fill team names/codes from the season's own teams where the player file only had ids
+  const teamsById = new Map(parts.teams.map(t => [t.id, t]));
+  const players = parts.players.map(p => {
+    const team = teamsById.get(p.team);
+    return team
+      ? { ...p, team_name: p.team_name || team.short_name, team_code: p.team_code || team.code }
+      : p;
+  });
+
+  return {
+    season,
+    importedAt: Date.now(),
+    players,
+    teams: parts.teams,
+    history: parts.history,
+    fixtures: parts.fixtures,
+  };
+}
@@ -0,0 +1,27 @@
+// Service worker registration
+// Production only: in dev the Vite server rewrites modules on the fly and a
+// caching worker would serve stale code.
+
+/**
+ * Register /sw.js and hand it the assets this page already loaded, so the
+ * app shell is cached from the very first visit.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+
+      const assetUrls = performance
+        .getEntriesByType('resource')
+        .map(entry => entry.name)
+        .filter(url => url.startsWith(`${location.origin}/assets/`));
+
+      registration.active?.postMessage({ type: 'CACHE_URLS', urls: assetUrls });
+    } catch (_err: unknown) {
+      // Offline support is a progressive enhancement — the app works without it
+    }
+  });
+}
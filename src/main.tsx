@@ -3,10 +3,13 @@ import { createRoot } from 'react-dom/client';
 import { Analytics } from '@vercel/analytics/react'; //
 import './styles/index.css';
 import App from './app/App';
+import { registerServiceWorker } from './app/utils/serviceWorker';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
     <Analytics /> {/* This tracks visitors on your live site */}
   </StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
\ No newline at end of file
@@ -20,11 +20,12 @@ export default defineConfig({
   // File types to support raw imports. Never add .css, .tsx, or .ts files to this.
   assetsInclude: ['**/*.svg', '**/*.csv'],
 
-  // Proxy FPL API requests through Vite dev server to avoid CORS
+  // Proxy FPL API requests through Vite dev server to avoid CORS.
+  // FPL_API_TARGET=http://localhost:3100 points it at the mock server (npm run mock-api)
   server: {
     proxy: {
       '/fpl-api': {
-        target: 'https://fantasy.premierleague.com',
+        target: process.env.FPL_API_TARGET || 'https://fantasy.premierleague.com',
         changeOrigin: true,
         rewrite: (p) => p.replace(/^\/fpl-api/, '/api'),
         secure: true,
@@ -0,0 +1,247 @@
+/**
+ * Share card rendering
+ *
+ * A share card (title, subtitle, a small table and a footer) is laid out once
+ * as rectangles and text runs, then drawn either as SVG or as a PNG. SVG uses
+ * a monospace font sized to the same grid as the pixel font, so both formats
+ * line up. X, Discord and WhatsApp only unfurl raster images, so og:image
+ * points at the PNG.
+ */
+
+import { GLYPH_ADVANCE, GLYPH_HEIGHT, glyphColumns, toFontText } from './pixelFont';
+
+export interface ShareCard {
+  title: string;
+  subtitle: string;
+  // Headers for the value columns; empty for a plain label/value list
+  columns: string[];
+  rows: Array<{ label: string; values: string[] }>;
+  footer: string;
+}
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+const BRAND = '@FPL_Dave_ · FPL Analytics';
+const MARGIN = 64;
+const TABLE_TOP = 214;
+const TABLE_BOTTOM = 560;
+// Text scales tried for the table, largest first
+const TABLE_SCALES = [4, 3, 2];
+
+const COLORS = {
+  background: '#37003c',
+  stripe: '#45084b',
+  accent: '#00ff87',
+  text: '#ffffff',
+  muted: '#c9a9cf',
+};
+
+type DrawOp =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; color: string }
+  // (x, y) is the top of the text; `end` aligns its right edge to x
+  | { kind: 'text'; x: number; y: number; text: string; scale: number; color: string; align: 'start' | 'end' };
+
+function textWidth(text: string, scale: number): number {
+  return Math.max(0, toFontText(text).length * GLYPH_ADVANCE - 1) * scale;
+}
+
+function fitText(text: string, scale: number, maxWidth: number): string {
+  if (textWidth(text, scale) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && textWidth(`${fitted}...`, scale) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}...`;
+}
+
+interface TableLayout {
+  scale: number;
+  rowHeight: number;
+  labelWidth: number;
+  columnWidth: number;
+}
+
+function chooseTableLayout(card: ShareCard): TableLayout {
+  const contentWidth = CARD_WIDTH - MARGIN * 2;
+  const columnCount = Math.max(1, card.columns.length);
+  const rowCount = card.rows.length + (card.columns.length > 0 ? 1 : 0);
+  const longestLabel = Math.max(0, ...card.rows.map(row => toFontText(row.label).length));
+
+  let layout: TableLayout | null = null;
+  for (const scale of TABLE_SCALES) {
+    const rowHeight = scale * 11;
+    const labelWidth = (longestLabel + 2) * GLYPH_ADVANCE * scale;
+    const columnWidth = (contentWidth - labelWidth) / columnCount;
+    layout = { scale, rowHeight, labelWidth, columnWidth };
+
+    const cells = [...card.columns, ...card.rows.flatMap(row => row.values)];
+    const fits = rowCount * rowHeight <= TABLE_BOTTOM - TABLE_TOP
+      && cells.every(cell => textWidth(cell, scale) <= columnWidth - GLYPH_ADVANCE * scale);
+    if (fits) break;
+  }
+  return layout!;
+}
+
+function layoutCard(card: ShareCard): DrawOp[] {
+  const contentWidth = CARD_WIDTH - MARGIN * 2;
+  const right = CARD_WIDTH - MARGIN;
+  const ops: DrawOp[] = [
+    { kind: 'rect', x: 0, y: 0, width: CARD_WIDTH, height: CARD_HEIGHT, color: COLORS.background },
+    { kind: 'rect', x: 0, y: 0, width: CARD_WIDTH, height: 12, color: COLORS.accent },
+    { kind: 'text', x: MARGIN, y: 56, text: fitText(card.title, 8, contentWidth), scale: 8, color: COLORS.text, align: 'start' },
+    { kind: 'text', x: MARGIN, y: 140, text: fitText(card.subtitle, 4, contentWidth), scale: 4, color: COLORS.accent, align: 'start' },
+  ];
+
+  const { scale, rowHeight, labelWidth, columnWidth } = chooseTableLayout(card);
+  const multiColumn = card.columns.length > 1;
+  // Several columns are right-aligned numbers; a single column reads as a list
+  const cellX = (index: number) => multiColumn
+    ? MARGIN + labelWidth + columnWidth * (index + 1)
+    : MARGIN + labelWidth;
+  const cellAlign = multiColumn ? 'end' : 'start';
+  const textOffset = Math.round((rowHeight - GLYPH_HEIGHT * scale) / 2) + scale;
+  const cellMax = columnWidth - GLYPH_ADVANCE * scale;
+
+  let y = TABLE_TOP;
+  if (card.columns.length > 0) {
+    card.columns.forEach((column, index) => {
+      ops.push({ kind: 'text', x: cellX(index), y: y + textOffset, text: fitText(column, scale, cellMax), scale, color: COLORS.accent, align: cellAlign });
+    });
+    y += rowHeight;
+  }
+
+  const maxRows = Math.floor((TABLE_BOTTOM - y) / rowHeight);
+  card.rows.slice(0, maxRows).forEach((row, rowIndex) => {
+    if (rowIndex % 2 === 0) {
+      ops.push({ kind: 'rect', x: MARGIN - 16, y, width: contentWidth + 32, height: rowHeight, color: COLORS.stripe });
+    }
+    ops.push({ kind: 'text', x: MARGIN, y: y + textOffset, text: row.label, scale, color: COLORS.muted, align: 'start' });
+    row.values.forEach((value, index) => {
+      ops.push({ kind: 'text', x: cellX(index), y: y + textOffset, text: fitText(value, scale, cellMax), scale, color: COLORS.text, align: cellAlign });
+    });
+    y += rowHeight;
+  });
+
+  ops.push(
+    { kind: 'text', x: MARGIN, y: 586, text: BRAND, scale: 3, color: COLORS.muted, align: 'start' },
+    { kind: 'text', x: right, y: 586, text: fitText(card.footer, 3, contentWidth - textWidth(BRAND, 3) - 48), scale: 3, color: COLORS.muted, align: 'end' },
+  );
+  return ops;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export function renderCardSvg(card: ShareCard): string {
+  const elements = layoutCard(card).map(op => {
+    if (op.kind === 'rect') {
+      return `<rect x="${op.x}" y="${op.y}" width="${op.width}" height="${op.height}" fill="${op.color}"/>`;
+    }
+    // A monospace em of 10 units advances 6 — the pixel font's grid
+    const anchor = op.align === 'end' ? ' text-anchor="end"' : '';
+    return `<text x="${op.x}" y="${op.y + 7 * op.scale}" font-size="${10 * op.scale}" fill="${op.color}"${anchor}>${escapeXml(op.text)}</text>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" font-family="ui-monospace, Menlo, Consolas, monospace" font-weight="bold">${elements.join('')}</svg>`;
+}
+
+function hexToRgb(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// One scanline per row, each prefixed with PNG filter type 0
+const STRIDE = 1 + CARD_WIDTH * 3;
+
+function fillRect(pixels: Uint8Array, x: number, y: number, width: number, height: number, color: string): void {
+  const [r, g, b] = hexToRgb(color);
+  const x0 = Math.max(0, Math.round(x));
+  const x1 = Math.min(CARD_WIDTH, Math.round(x + width));
+  const y0 = Math.max(0, Math.round(y));
+  const y1 = Math.min(CARD_HEIGHT, Math.round(y + height));
+  if (x1 <= x0 || y1 <= y0) return;
+
+  const first = y0 * STRIDE + 1 + x0 * 3;
+  for (let i = first; i < first + (x1 - x0) * 3; i += 3) {
+    pixels[i] = r;
+    pixels[i + 1] = g;
+    pixels[i + 2] = b;
+  }
+  for (let row = y0 + 1; row < y1; row++) {
+    pixels.copyWithin(row * STRIDE + 1 + x0 * 3, first, first + (x1 - x0) * 3);
+  }
+}
+
+function drawText(pixels: Uint8Array, op: Extract<DrawOp, { kind: 'text' }>): void {
+  const text = toFontText(op.text);
+  let x = op.align === 'end' ? op.x - textWidth(op.text, op.scale) : op.x;
+  for (const char of text) {
+    glyphColumns(char).forEach((bits, column) => {
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        if (bits & (1 << row)) {
+          fillRect(pixels, x + column * op.scale, op.y + row * op.scale, op.scale, op.scale, op.color);
+        }
+      }
+    });
+    x += GLYPH_ADVANCE * op.scale;
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// `data` must span its whole buffer
+async function zlibDeflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.buffer as ArrayBuffer]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function renderCardPng(card: ShareCard): Promise<Uint8Array> {
+  const pixels = new Uint8Array(STRIDE * CARD_HEIGHT);
+  for (const op of layoutCard(card)) {
+    if (op.kind === 'rect') fillRect(pixels, op.x, op.y, op.width, op.height, op.color);
+    else drawText(pixels, op);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, CARD_WIDTH);
+  view.setUint32(4, CARD_HEIGHT);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', await zlibDeflate(pixels)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
@@ -0,0 +1,59 @@
+/**
+ * Origin allowlist
+ *
+ * Allowed origins come from the ALLOWED_ORIGINS var in wrangler.toml, comma
+ * separated. A `*` matches one host label, so preview deployments can be
+ * allowed without listing each one:
+ *
+ *   ALLOWED_ORIGINS = "https://fpl-analytics.pages.dev,https://*.fpl-analytics.pages.dev"
+ */
+
+// Used when ALLOWED_ORIGINS isn't set — the Vite dev and preview servers
+const DEFAULT_ORIGINS = ['http://localhost:5173', 'http://localhost:5174', 'http://localhost:4173'];
+
+const EXPOSED_HEADERS = ['X-Cache', 'X-Fetched-At', 'Age', 'Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining'];
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\/]/g, '\\$&').replace(/\*/g, '[a-z0-9-]+');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+// Parsed allowlists, keyed by the raw var — the same var is read on every request
+const parsedOrigins = new Map<string, RegExp[]>();
+
+function allowedOriginPatterns(allowedOrigins: string | undefined): RegExp[] {
+  const raw = allowedOrigins?.trim() || DEFAULT_ORIGINS.join(',');
+  let patterns = parsedOrigins.get(raw);
+  if (!patterns) {
+    patterns = raw
+      .split(',')
+      .map(origin => origin.trim().replace(/\/+$/, ''))
+      .filter(Boolean)
+      .map(patternToRegExp);
+    parsedOrigins.set(raw, patterns);
+  }
+  return patterns;
+}
+
+export function isOriginAllowed(origin: string, allowedOrigins: string | undefined): boolean {
+  return allowedOriginPatterns(allowedOrigins).some(pattern => pattern.test(origin));
+}
+
+/**
+ * CORS headers for a request. Origins outside the allowlist get no
+ * Access-Control-Allow-Origin, so browsers refuse the response.
+ */
+export function getCorsHeaders(request: Request, allowedOrigins: string | undefined): Record<string, string> {
+  const origin = request.headers.get('Origin') || '';
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept',
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS.join(', '),
+    'Access-Control-Max-Age': '86400',
+    'Vary': 'Origin',
+  };
+  if (origin && isOriginAllowed(origin, allowedOrigins)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
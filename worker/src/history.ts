@@ -0,0 +1,76 @@
+/**
+ * Daily player history
+ *
+ * A cron trigger stores one bootstrap-static snapshot per day in KV — prices,
+ * ownership, form, transfers, status and news — in the same compact format the
+ * app keeps in localStorage (src/app/utils/playerSnapshotFormat.ts), so clients can
+ * merge server history with their own.
+ *
+ * KV layout:
+ *   snapshot:{YYYY-MM-DD}  →  PlayerSnapshot
+ *   snapshot-dates         →  sorted array of stored dates
+ */
+
+import { buildSnapshot, playerTrend, type PlayerSnapshot, type PlayerTrendPoint } from '../../src/app/utils/playerSnapshotFormat';
+import type { BootstrapStatic } from '../../src/app/types/fpl';
+
+const DATES_KEY = 'snapshot-dates';
+const snapshotKey = (date: string) => `snapshot:${date}`;
+
+// One KV read per day of history, so player series are capped
+export const DEFAULT_HISTORY_DAYS = 60;
+export const MAX_HISTORY_DAYS = 120;
+
+export class HistoryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'HistoryError';
+  }
+}
+
+export async function getSnapshotDates(kv: KVNamespace): Promise<string[]> {
+  return (await kv.get<string[]>(DATES_KEY, 'json')) ?? [];
+}
+
+/**
+ * Store today's snapshot. Re-running on the same day replaces it.
+ */
+export async function recordSnapshot(kv: KVNamespace, bootstrap: BootstrapStatic, takenAt = Date.now()): Promise<PlayerSnapshot> {
+  if (bootstrap.elements.length === 0) throw new HistoryError('bootstrap-static has no players', 502);
+
+  const snapshot = buildSnapshot(bootstrap.elements, takenAt);
+  await kv.put(snapshotKey(snapshot.date), JSON.stringify(snapshot));
+
+  const dates = await getSnapshotDates(kv);
+  if (!dates.includes(snapshot.date)) {
+    await kv.put(DATES_KEY, JSON.stringify([...dates, snapshot.date].sort()));
+  }
+  return snapshot;
+}
+
+/**
+ * Snapshot for a date (YYYY-MM-DD), or the latest one when no date is given.
+ */
+export async function getSnapshot(kv: KVNamespace, date: string | null): Promise<PlayerSnapshot> {
+  if (date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new HistoryError('date must be YYYY-MM-DD', 400);
+  }
+
+  const dates = date === null ? await getSnapshotDates(kv) : [];
+  const key = date ?? dates[dates.length - 1];
+  const snapshot = key ? await kv.get<PlayerSnapshot>(snapshotKey(key), 'json') : null;
+  if (!snapshot) throw new HistoryError(date ? `No snapshot for ${date}` : 'No snapshots recorded yet', 404);
+  return snapshot;
+}
+
+/**
+ * Daily price, ownership, form, transfers, status and news for one player over
+ * the most recent `days` snapshots, oldest first.
+ */
+export async function getPlayerHistory(kv: KVNamespace, playerId: number, days: number): Promise<PlayerTrendPoint[]> {
+  const dates = (await getSnapshotDates(kv)).slice(-Math.min(Math.max(1, days), MAX_HISTORY_DAYS));
+  const snapshots = await Promise.all(dates.map(date => kv.get<PlayerSnapshot>(snapshotKey(date), 'json')));
+  const points = playerTrend(playerId, snapshots.filter((s): s is PlayerSnapshot => s !== null));
+  if (points.length === 0 && dates.length > 0) throw new HistoryError(`No history for player ${playerId}`, 404);
+  return points;
+}
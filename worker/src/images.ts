@@ -0,0 +1,45 @@
+/**
+ * Image allowlist
+ *
+ * The /img/* route only serves FPL kits, player photos and club badges — each
+ * allowed path maps to one upstream URL, so the worker can't be used as an
+ * open proxy. Images are cached at the edge like API responses.
+ *
+ *   /img/shirts/standard/shirt_{team}_{type}-{size}.webp  →  fantasy.premierleague.com/dist/img/…
+ *   /img/photos/{size}/p{code}.png                        →  resources.premierleague.com/premierleague/photos/players/…
+ *   /img/badges/{size}/t{code}.png                        →  resources.premierleague.com/premierleague/badges/…
+ */
+
+export interface ImageBases {
+  fplImgBase: string;
+  resourcesBase: string;
+}
+
+interface ImageRoute {
+  pattern: RegExp;
+  upstream: (path: string, bases: ImageBases) => string;
+}
+
+const IMAGE_ROUTES: ImageRoute[] = [
+  {
+    pattern: /^shirts\/(standard|special)\/shirt_\d+(_\d+)?-\d+\.(webp|png)$/,
+    upstream: (path, bases) => `${bases.fplImgBase}/dist/img/${path}`,
+  },
+  {
+    pattern: /^photos\/(40x40|110x140|250x250)\/(p\d+|Photo-Missing)\.png$/,
+    upstream: (path, bases) => `${bases.resourcesBase}/premierleague/photos/players/${path.replace(/^photos\//, '')}`,
+  },
+  {
+    pattern: /^badges\/(25|50|70|100)\/t\d+\.(png|svg)$/,
+    upstream: (path, bases) => `${bases.resourcesBase}/premierleague/${path}`,
+  },
+];
+
+/**
+ * Upstream URL for an /img/* path (without the /img/ prefix), or null when
+ * the path isn't on the allowlist.
+ */
+export function resolveImageUrl(path: string, bases: ImageBases): string | null {
+  const route = IMAGE_ROUTES.find(candidate => candidate.pattern.test(path));
+  return route ? route.upstream(path, bases) : null;
+}
@@ -5,136 +5,652 @@
  * CORS headers so the React frontend can call it directly.
  *
  * Routes:
- *   GET /api/*  →  https://fantasy.premierleague.com/api/*
+ *   GET /api/*                     →  https://fantasy.premierleague.com/api/*
+ *   GET /img/*                     →  kits, player photos and club badges (allowlist in images.ts)
+ *   GET /agg/league/{id}/live?gw=&page=
+ *                                  →  live-scored, re-ranked classic league table, one
+ *                                     standings page (50 managers) per call (gw defaults
+ *                                     to the current gameweek, page to 1)
+ *   GET /agg/overall/live?gw=      →  live points sampled across the overall league's rank
+ *                                     bands, for estimating a live overall rank
+ *   GET /history/player/{id}?days= →  daily price/ownership/form/status for a player
+ *   GET /history/prices?date=      →  every player's snapshot for a day (default latest)
+ *   GET /history/dates             →  days with a stored snapshot
+ *   GET /og/{kind}.png|svg?…       →  share card image (squad, compare, gw — see shareCards.ts)
+ *   GET /share/{kind}?…            →  share link page: Open Graph tags for the card, then
+ *                                     a redirect to APP_URL
+ *   GET /health                    →  worker status and FPL reachability (503 when FPL is down)
+ *
+ * Access:
+ *   Browsers are only served for origins in the ALLOWED_ORIGINS var (wrangler.toml,
+ *   comma separated, `*` wildcards for preview deployments); requests from any
+ *   other origin get 403. Each client IP gets RATE_LIMIT_REQUESTS requests per
+ *   RATE_LIMIT_WINDOW_SECONDS, then 429 with Retry-After.
+ *
+ * Logging:
+ *   One JSON line per request (method, path, status, cache status, duration,
+ *   colo, ray id) and per scheduled run, for Workers Logs / wrangler tail.
+ *
+ * Scheduled:
+ *   A daily cron (wrangler.toml) stores a bootstrap-static snapshot in the
+ *   FPL_HISTORY KV namespace for the /history/* routes.
+ *
+ * Caching:
+ *   Upstream responses are cached per path (Cache API) with a freshness window
+ *   per endpoint — live data 30s, bootstrap 5 min. Recently stale entries are
+ *   served immediately while a background fetch revalidates them; older ones
+ *   are kept for a day as a fallback if FPL errors. Concurrent requests for
+ *   the same path share one upstream fetch. Every response carries:
+ *     X-Cache:      HIT | MISS | STALE | ERROR-STALE
+ *     X-Fetched-At: when the data was fetched from FPL (ISO 8601)
+ *     Age:          seconds since then
  *
  * Deploy:
  *   cd worker && npx wrangler deploy
+ *
+ * Local development against the mock FPL server (npm run mock-api):
+ *   cd worker && npx wrangler dev --var FPL_API_BASE:http://localhost:3100/api
  */
 
+import { buildLeagueLiveTable, LeagueLiveError, type FetchJson } from './leagueLive';
+import { buildLiveRankSample } from './rankSample';
+import {
+  DEFAULT_HISTORY_DAYS,
+  getPlayerHistory,
+  getSnapshot,
+  getSnapshotDates,
+  HistoryError,
+  recordSnapshot,
+} from './history';
+import { getCorsHeaders, isOriginAllowed } from './cors';
+import { checkRateLimit, clientKey, parseRateLimitConfig, rateLimitHeaders } from './rateLimit';
+import { resolveImageUrl } from './images';
+import { renderCardPng, renderCardSvg } from './cardRender';
+import {
+  buildShareCard,
+  isShareCardKind,
+  parseShareParams,
+  ShareCardError,
+  shareQuery,
+  sharePageHtml,
+} from './shareCards';
+import type { BootstrapStatic } from '../../src/app/types/fpl';
+
 interface Env {
   FPL_API_BASE: string;
   FPL_IMG_BASE: string;
+  PL_RESOURCES_BASE?: string;
+  ALLOWED_ORIGINS?: string;
+  RATE_LIMIT_REQUESTS?: string;
+  RATE_LIMIT_WINDOW_SECONDS?: string;
+  // Where /share/* links send people (the deployed app)
+  APP_URL?: string;
+  // Daily player snapshots; the /history/* routes answer 503 without it
+  FPL_HISTORY?: KVNamespace;
+}
+
+// Freshness window per endpoint, and how long past it stale data may still be served
+interface CachePolicy {
+  match: (path: string) => boolean;
+  freshSeconds: number;
+  staleSeconds: number;
 }
 
-const ALLOWED_ORIGINS = [
-  'http://localhost:5173',
-  'http://localhost:5174',
-  'http://localhost:4173',
-  // Add your production domain here, e.g.:
-  // 'https://fpl-analytics.pages.dev',
-  // 'https://yourdomain.com',
+const CACHE_POLICIES: CachePolicy[] = [
+  // Computed from live data, so it can't be fresher than its inputs
+  { match: path => path.startsWith('/agg/'), freshSeconds: 30, staleSeconds: 30 },
+  // Share cards and pages; a GW card changes as the gameweek goes on
+  { match: path => path.startsWith('/og/') || path.startsWith('/share/'), freshSeconds: 300, staleSeconds: 3600 },
+  // Kits, photos and badges rarely change
+  { match: path => path.startsWith('/img/'), freshSeconds: 604800, staleSeconds: 604800 },
+  // Snapshots change once a day
+  { match: path => path.startsWith('/history/'), freshSeconds: 3600, staleSeconds: 86400 },
+  { match: path => path.includes('/live/'), freshSeconds: 30, staleSeconds: 60 },
+  { match: path => path.includes('/bootstrap-static/'), freshSeconds: 300, staleSeconds: 3600 },
+  { match: path => path.startsWith('/api/fixtures/'), freshSeconds: 60, staleSeconds: 3600 },
+  { match: path => path.includes('/element-summary/'), freshSeconds: 600, staleSeconds: 86400 },
+  { match: () => true, freshSeconds: 60, staleSeconds: 600 },
 ];
 
-function getCorsHeaders(request: Request): HeadersInit {
-  const origin = request.headers.get('Origin') || '';
-  const allowedOrigin = ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0];
+// Past the stale window, cached data is only served when FPL is failing
+const ERROR_FALLBACK_SECONDS = 86400;
+
+// Client cache-busting params — never forwarded upstream or part of the cache key
+const CACHE_BUSTING_PARAMS = ['_cb', 'v'];
+
+type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'ERROR-STALE';
+
+interface UpstreamPayload {
+  body: ArrayBuffer;
+  status: number;
+  contentType: string;
+  fetchedAt: number;
+}
+
+// Upstream fetches in flight in this isolate, keyed by cache key
+const inflight = new Map<string, Promise<UpstreamPayload>>();
+
+// How long /health waits for FPL before calling it unreachable
+const HEALTH_TIMEOUT_MS = 5000;
+
+type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Write one structured log line. Workers Logs indexes the JSON fields.
+ */
+function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}): void {
+  const line = JSON.stringify({ level, event, time: new Date().toISOString(), ...fields });
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+function getCachePolicy(path: string): CachePolicy {
+  return CACHE_POLICIES.find(policy => policy.match(path)) ?? CACHE_POLICIES[CACHE_POLICIES.length - 1];
+}
 
+/**
+ * Run `produce` once per key at a time — concurrent callers share the result.
+ */
+function coalesce(cacheKey: string, produce: () => Promise<UpstreamPayload>): Promise<UpstreamPayload> {
+  const existing = inflight.get(cacheKey);
+  if (existing) return existing;
+
+  const request = produce().finally(() => {
+    inflight.delete(cacheKey);
+  });
+
+  inflight.set(cacheKey, request);
+  return request;
+}
+
+/**
+ * Fetch from FPL and buffer the body, so one upstream response can serve every
+ * waiting request.
+ */
+async function fetchUpstream(fplUrl: string): Promise<UpstreamPayload> {
+  const response = await fetch(fplUrl, {
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'FPL-Analytics-Proxy/1.0',
+    },
+  });
   return {
-    'Access-Control-Allow-Origin': allowedOrigin,
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Accept',
-    'Access-Control-Max-Age': '86400',
+    body: await response.arrayBuffer(),
+    status: response.status,
+    contentType: response.headers.get('Content-Type') || 'application/json',
+    fetchedAt: Date.now(),
   };
 }
 
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const corsHeaders = getCorsHeaders(request);
+/**
+ * Fetch an allowlisted image. Anything that isn't an image (e.g. an HTML error
+ * page) is reported as a 502 so it never reaches the cache.
+ */
+async function fetchImage(imgUrl: string): Promise<UpstreamPayload> {
+  const response = await fetch(imgUrl, {
+    headers: { 'User-Agent': 'FPL-Analytics-Proxy/1.0' },
+  });
+  const contentType = response.headers.get('Content-Type') || '';
+  const isImage = contentType.startsWith('image/');
+  return {
+    body: await response.arrayBuffer(),
+    status: response.ok && !isImage ? 502 : response.status,
+    contentType: isImage ? contentType : 'text/plain',
+    fetchedAt: Date.now(),
+  };
+}
+
+function bodyPayload(body: string | Uint8Array, contentType: string): UpstreamPayload {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  return {
+    body: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+    status: 200,
+    contentType,
+    fetchedAt: Date.now(),
+  };
+}
 
-    // Handle preflight
-    if (request.method === 'OPTIONS') {
-      return new Response(null, { status: 204, headers: corsHeaders });
+function jsonPayload(data: unknown): UpstreamPayload {
+  return bodyPayload(JSON.stringify(data), 'application/json');
+}
+
+/**
+ * Store a successful upstream payload. The cache entry outlives the stale window
+ * so it can back up a failing upstream; freshness is judged from X-Fetched-At
+ * when it is read back.
+ */
+async function storeInCache(cacheKey: string, payload: UpstreamPayload, policy: CachePolicy): Promise<void> {
+  if (payload.status !== 200) return;
+  await caches.default.put(cacheKey, new Response(payload.body.slice(0), {
+    headers: {
+      'Content-Type': payload.contentType,
+      'X-Fetched-At': new Date(payload.fetchedAt).toISOString(),
+      'Cache-Control': `public, max-age=${policy.freshSeconds + policy.staleSeconds + ERROR_FALLBACK_SECONDS}`,
+    },
+  }));
+}
+
+/**
+ * Produce a fresh payload and cache it. Used for misses and for background
+ * revalidation of stale entries.
+ */
+function refresh(cacheKey: string, produce: () => Promise<UpstreamPayload>, policy: CachePolicy): Promise<UpstreamPayload> {
+  return coalesce(cacheKey, async () => {
+    const payload = await produce();
+    await storeInCache(cacheKey, payload, policy);
+    return payload;
+  });
+}
+
+async function readCached(cacheKey: string): Promise<UpstreamPayload | null> {
+  const cached = await caches.default.match(cacheKey);
+  if (!cached) return null;
+  const fetchedAt = Date.parse(cached.headers.get('X-Fetched-At') || '');
+  if (Number.isNaN(fetchedAt)) return null;
+  return {
+    body: await cached.arrayBuffer(),
+    status: cached.status,
+    contentType: cached.headers.get('Content-Type') || 'application/json',
+    fetchedAt,
+  };
+}
+
+/**
+ * Cached payload for a key: fresh entries as they are, recently stale ones while
+ * revalidating in the background, otherwise a new payload — falling back to old
+ * data if producing it fails. Throws only when there is nothing cached to fall
+ * back on.
+ */
+async function loadCached(
+  cacheKey: string,
+  produce: () => Promise<UpstreamPayload>,
+  policy: CachePolicy,
+  ctx: ExecutionContext
+): Promise<{ payload: UpstreamPayload; status: CacheStatus }> {
+  const cached = await readCached(cacheKey);
+  if (cached) {
+    const ageMs = Date.now() - cached.fetchedAt;
+    if (ageMs < policy.freshSeconds * 1000) {
+      return { payload: cached, status: 'HIT' };
     }
+    if (ageMs < (policy.freshSeconds + policy.staleSeconds) * 1000) {
+      // Serve stale now and revalidate in the background
+      ctx.waitUntil(refresh(cacheKey, produce, policy).catch(() => undefined));
+      return { payload: cached, status: 'STALE' };
+    }
+  }
 
-    // Only allow GET
-    if (request.method !== 'GET') {
-      return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  try {
+    const payload = await refresh(cacheKey, produce, policy);
+    // FPL is down or rate limiting — old data beats an error
+    if (cached && (payload.status >= 500 || payload.status === 429)) {
+      return { payload: cached, status: 'ERROR-STALE' };
     }
+    return { payload, status: 'MISS' };
+  } catch (err) {
+    if (cached) return { payload: cached, status: 'ERROR-STALE' };
+    throw err;
+  }
+}
 
-    const url = new URL(request.url);
-    const path = url.pathname;
-
-    // Image proxy: /img/* → fantasy.premierleague.com/dist/img/*
-    if (path.startsWith('/img/')) {
-      const imgBase = env.FPL_IMG_BASE || 'https://fantasy.premierleague.com';
-      const imgUrl = `${imgBase}/dist${path}`;
-
-      try {
-        const imgResponse = await fetch(imgUrl, {
-          headers: { 'User-Agent': 'FPL-Analytics-Proxy/1.0' },
-        });
-
-        const responseHeaders = new Headers(imgResponse.headers);
-        for (const [key, value] of Object.entries(corsHeaders)) {
-          responseHeaders.set(key, value);
-        }
-        responseHeaders.set('Cache-Control', 'public, max-age=86400');
-
-        return new Response(imgResponse.body, {
-          status: imgResponse.status,
-          headers: responseHeaders,
-        });
-      } catch (_err) {
-        return new Response('Failed to fetch image', {
-          status: 502,
-          headers: corsHeaders,
-        });
-      }
+/**
+ * Client response for a payload: CORS, cache status and age headers, and a
+ * Cache-Control that only covers what is left of the freshness window.
+ */
+function buildResponse(
+  payload: UpstreamPayload,
+  status: CacheStatus,
+  policy: CachePolicy,
+  corsHeaders: HeadersInit
+): Response {
+  const ageSeconds = Math.max(0, Math.floor((Date.now() - payload.fetchedAt) / 1000));
+  const maxAge = payload.status === 200 ? Math.max(0, policy.freshSeconds - ageSeconds) : 0;
+
+  const headers = new Headers(corsHeaders);
+  headers.set('Content-Type', payload.contentType);
+  headers.set('Cache-Control', `public, max-age=${maxAge}`);
+  headers.set('X-Cache', status);
+  headers.set('X-Fetched-At', new Date(payload.fetchedAt).toISOString());
+  headers.set('Age', String(ageSeconds));
+
+  return new Response(payload.body.slice(0), { status: payload.status, headers });
+}
+
+/**
+ * JSON for an FPL API path (e.g. 'bootstrap-static/') through the same cache as
+ * the /api/* route, for routes that combine several FPL responses.
+ */
+function createFetchJson(env: Env, origin: string, ctx: ExecutionContext): FetchJson {
+  return async (apiPath: string) => {
+    const cacheUrl = new URL(`/api/${apiPath}`, origin);
+    const fplUrl = `${env.FPL_API_BASE}/${apiPath}`;
+    const { payload } = await loadCached(cacheUrl.href, () => fetchUpstream(fplUrl), getCachePolicy(cacheUrl.pathname), ctx);
+    if (payload.status !== 200) {
+      throw new LeagueLiveError(`FPL API error ${payload.status} for ${apiPath}`, payload.status === 404 ? 404 : 502);
     }
+    return JSON.parse(new TextDecoder().decode(payload.body));
+  };
+}
+
+function jsonError(message: string, status: number, corsHeaders: HeadersInit): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Answer a /history/* route from KV, or null when the path isn't one.
+ */
+async function readHistory(path: string, url: URL, kv: KVNamespace): Promise<unknown | null> {
+  if (path === '/history/dates') {
+    return { dates: await getSnapshotDates(kv) };
+  }
+  if (path === '/history/prices') {
+    return getSnapshot(kv, url.searchParams.get('date'));
+  }
+  const playerMatch = /^\/history\/player\/(\d+)\/?$/.exec(path);
+  if (playerMatch) {
+    const days = Number(url.searchParams.get('days') ?? DEFAULT_HISTORY_DAYS);
+    if (!Number.isInteger(days) || days < 1) throw new HistoryError('days must be a positive whole number', 400);
+    const playerId = Number(playerMatch[1]);
+    return { player: playerId, points: await getPlayerHistory(kv, playerId, days) };
+  }
+  return null;
+}
+
+/**
+ * Probe FPL with its smallest endpoint. Uncached, so it reports reachability now.
+ */
+async function checkHealth(env: Env, corsHeaders: HeadersInit): Promise<Response> {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  let upstream: { reachable: boolean; status: number | null; latencyMs: number; error?: string };
+
+  try {
+    const response = await fetch(`${env.FPL_API_BASE}/event-status/`, {
+      headers: { 'Accept': 'application/json', 'User-Agent': 'FPL-Analytics-Proxy/1.0' },
+      signal: controller.signal,
+    });
+    await response.body?.cancel();
+    upstream = { reachable: response.ok, status: response.status, latencyMs: Date.now() - startedAt };
+  } catch (err) {
+    const error = controller.signal.aborted ? `timed out after ${HEALTH_TIMEOUT_MS}ms` : String(err);
+    upstream = { reachable: false, status: null, latencyMs: Date.now() - startedAt, error };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  return new Response(JSON.stringify({
+    status: upstream.reachable ? 'ok' : 'degraded',
+    time: new Date().toISOString(),
+    upstream,
+    history: env.FPL_HISTORY ? 'configured' : 'not configured',
+  }), {
+    status: upstream.reachable ? 200 : 503,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * Answer an allowed, rate-limited GET.
+ */
+async function routeRequest(url: URL, env: Env, ctx: ExecutionContext, corsHeaders: HeadersInit): Promise<Response> {
+  const path = url.pathname;
 
-    // Must start with /api/
-    if (!path.startsWith('/api/')) {
-      return new Response('Not found. Use /api/* or /img/* to proxy FPL endpoints.', {
-        status: 404,
+  if (path === '/health') {
+    return checkHealth(env, corsHeaders);
+  }
+
+  // Image proxy: /img/{shirts,photos,badges}/* → FPL and Premier League CDNs (allowlisted)
+  if (path.startsWith('/img/')) {
+    const imgUrl = resolveImageUrl(path.slice('/img/'.length), {
+      fplImgBase: env.FPL_IMG_BASE || 'https://fantasy.premierleague.com',
+      resourcesBase: env.PL_RESOURCES_BASE || 'https://resources.premierleague.com',
+    });
+    if (!imgUrl) return jsonError('Image path not allowed', 404, corsHeaders);
+
+    const policy = getCachePolicy(path);
+    try {
+      const { payload, status } = await loadCached(`${url.origin}${path}`, () => fetchImage(imgUrl), policy, ctx);
+      return buildResponse(payload, status, policy, corsHeaders);
+    } catch (_err) {
+      return new Response('Failed to fetch image', {
+        status: 502,
         headers: corsHeaders,
       });
     }
+  }
 
-    // Strip the cache-buster param before forwarding to FPL
-    url.searchParams.delete('_cb');
+  // Live mini-league table: /agg/league/{id}/live?gw=&page=
+  const leagueLiveMatch = /^\/agg\/league\/(\d+)\/live\/?$/.exec(path);
+  if (leagueLiveMatch) {
+    const leagueId = Number(leagueLiveMatch[1]);
+    const gwParam = url.searchParams.get('gw');
+    const gameweek = gwParam ? Number(gwParam) : null;
+    if (gameweek !== null && !Number.isInteger(gameweek)) {
+      return jsonError('gw must be a gameweek number', 400, corsHeaders);
+    }
+    const page = Number(url.searchParams.get('page') ?? 1);
+    if (!Number.isInteger(page) || page < 1) {
+      return jsonError('page must be a positive whole number', 400, corsHeaders);
+    }
 
-    // Build the FPL API URL
-    const fplPath = path; // /api/bootstrap-static/ etc.
-    const fplUrl = `${env.FPL_API_BASE}${fplPath.replace('/api', '')}${url.search}`;
+    const cacheKey = `${url.origin}/agg/league/${leagueId}/live?gw=${gameweek ?? 'current'}&page=${page}`;
+    const policy = getCachePolicy(path);
+    const fetchJson = createFetchJson(env, url.origin, ctx);
 
     try {
-      const fplResponse = await fetch(fplUrl, {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'FPL-Analytics-Proxy/1.0',
-        },
-      });
+      const { payload, status } = await loadCached(
+        cacheKey,
+        async () => jsonPayload(await buildLeagueLiveTable(leagueId, gameweek, fetchJson, page)),
+        policy,
+        ctx,
+      );
+      return buildResponse(payload, status, policy, corsHeaders);
+    } catch (err) {
+      if (err instanceof LeagueLiveError) return jsonError(err.message, err.status, corsHeaders);
+      return jsonError('Failed to build the live league table', 502, corsHeaders);
+    }
+  }
 
-      // Clone response and add CORS headers
-      const responseHeaders = new Headers(fplResponse.headers);
-      for (const [key, value] of Object.entries(corsHeaders)) {
-        responseHeaders.set(key, value);
-      }
+  // Live overall rank sample: /agg/overall/live?gw=
+  if (/^\/agg\/overall\/live\/?$/.test(path)) {
+    const gwParam = url.searchParams.get('gw');
+    const gameweek = gwParam ? Number(gwParam) : null;
+    if (gameweek !== null && !Number.isInteger(gameweek)) {
+      return jsonError('gw must be a gameweek number', 400, corsHeaders);
+    }
+
+    const cacheKey = `${url.origin}/agg/overall/live?gw=${gameweek ?? 'current'}`;
+    const policy = getCachePolicy(path);
+    const fetchJson = createFetchJson(env, url.origin, ctx);
+
+    try {
+      const { payload, status } = await loadCached(
+        cacheKey,
+        async () => jsonPayload(await buildLiveRankSample(gameweek, fetchJson)),
+        policy,
+        ctx,
+      );
+      return buildResponse(payload, status, policy, corsHeaders);
+    } catch (err) {
+      if (err instanceof LeagueLiveError) return jsonError(err.message, err.status, corsHeaders);
+      return jsonError('Failed to sample live overall ranks', 502, corsHeaders);
+    }
+  }
 
-      // Add cache control — live data gets short cache, static data gets longer
-      if (path.includes('/live/')) {
-        responseHeaders.set('Cache-Control', 'public, max-age=30');
-      } else if (path.includes('/bootstrap-static/')) {
-        responseHeaders.set('Cache-Control', 'public, max-age=300');
-      } else {
-        responseHeaders.set('Cache-Control', 'public, max-age=60');
+  // Share cards: /og/{kind}.png|svg and the /share/{kind} link pages
+  const ogMatch = /^\/og\/([a-z]+)\.(png|svg)$/.exec(path);
+  const shareMatch = /^\/share\/([a-z]+)\/?$/.exec(path);
+  const cardMatch = ogMatch ?? shareMatch;
+  if (cardMatch) {
+    const kind = cardMatch[1];
+    if (!isShareCardKind(kind)) return jsonError('Unknown share card', 404, corsHeaders);
+
+    const policy = getCachePolicy(path);
+    const fetchJson = createFetchJson(env, url.origin, ctx);
+    try {
+      const params = parseShareParams(kind, url.searchParams);
+      const query = shareQuery(params);
+      const format = ogMatch ? ogMatch[2] : 'html';
+      const { payload, status } = await loadCached(
+        `${url.origin}${ogMatch ? path : `/share/${kind}`}${query}`,
+        async () => {
+          const card = await buildShareCard(kind, params, fetchJson);
+          if (format === 'png') return bodyPayload(await renderCardPng(card), 'image/png');
+          if (format === 'svg') return bodyPayload(renderCardSvg(card), 'image/svg+xml');
+          return bodyPayload(sharePageHtml(card, {
+            page: `${url.origin}/share/${kind}${query}`,
+            image: `${url.origin}/og/${kind}.png${query}`,
+            app: env.APP_URL || null,
+          }), 'text/html; charset=utf-8');
+        },
+        policy,
+        ctx,
+      );
+      return buildResponse(payload, status, policy, corsHeaders);
+    } catch (err) {
+      if (err instanceof ShareCardError || err instanceof LeagueLiveError) {
+        return jsonError(err.message, err.status, corsHeaders);
       }
+      return jsonError('Failed to build the share card', 502, corsHeaders);
+    }
+  }
 
-      return new Response(fplResponse.body, {
-        status: fplResponse.status,
-        headers: responseHeaders,
-      });
-    } catch (_err) {
-      return new Response(
-        JSON.stringify({ error: 'Failed to fetch from FPL API' }),
-        {
-          status: 502,
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
+  // Stored daily snapshots: /history/player/{id}, /history/prices, /history/dates
+  if (path.startsWith('/history/')) {
+    const kv = env.FPL_HISTORY;
+    if (!kv) return jsonError('History storage is not configured', 503, corsHeaders);
+
+    const policy = getCachePolicy(path);
+    try {
+      const { payload, status } = await loadCached(
+        `${url.origin}${path}${url.search}`,
+        async () => {
+          const data = await readHistory(path, url, kv);
+          if (data === null) throw new HistoryError('Unknown history route', 404);
+          return jsonPayload(data);
         },
+        policy,
+        ctx,
       );
+      return buildResponse(payload, status, policy, corsHeaders);
+    } catch (err) {
+      if (err instanceof HistoryError) return jsonError(err.message, err.status, corsHeaders);
+      return jsonError('Failed to read history', 500, corsHeaders);
     }
+  }
+
+  // Must start with /api/ (or /agg/ and /history/ above)
+  if (!path.startsWith('/api/')) {
+    return new Response('Not found. Use /api/*, /agg/*, /history/*, /og/*, /share/* or /img/* to proxy FPL endpoints.', {
+      status: 404,
+      headers: corsHeaders,
+    });
+  }
+
+  // Strip cache-buster params before forwarding to FPL
+  for (const param of CACHE_BUSTING_PARAMS) url.searchParams.delete(param);
+
+  // Build the FPL API URL
+  const fplPath = path; // /api/bootstrap-static/ etc.
+  const fplUrl = `${env.FPL_API_BASE}${fplPath.replace('/api', '')}${url.search}`;
+  const cacheKey = `${url.origin}${path}${url.search}`;
+  const policy = getCachePolicy(path);
+
+  try {
+    const { payload, status } = await loadCached(cacheKey, () => fetchUpstream(fplUrl), policy, ctx);
+    return buildResponse(payload, status, policy, corsHeaders);
+  } catch (_err) {
+    return jsonError('Failed to fetch from FPL API', 502, corsHeaders);
+  }
+}
+
+/**
+ * Preflight, method, origin and rate limit checks in front of the routes.
+ */
+async function handleRequest(request: Request, url: URL, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const corsHeaders = getCorsHeaders(request, env.ALLOWED_ORIGINS);
+
+  // Handle preflight
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  // Only allow GET
+  if (request.method !== 'GET') {
+    return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+  }
+
+  // Requests without an Origin (curl, plain <img> tags) can't be told apart, so
+  // only browsers on other sites are turned away
+  const origin = request.headers.get('Origin');
+  if (origin && !isOriginAllowed(origin, env.ALLOWED_ORIGINS)) {
+    return jsonError('Origin not allowed', 403, corsHeaders);
+  }
+
+  const limit = checkRateLimit(
+    clientKey(request),
+    url.pathname,
+    parseRateLimitConfig(env.RATE_LIMIT_REQUESTS, env.RATE_LIMIT_WINDOW_SECONDS),
+  );
+  const headers = { ...corsHeaders, ...rateLimitHeaders(limit) };
+  if (!limit.allowed) {
+    return jsonError(`Too many requests — try again in ${limit.retryAfter}s`, 429, headers);
+  }
+
+  return routeRequest(url, env, ctx, headers);
+}
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const startedAt = Date.now();
+    const url = new URL(request.url);
+
+    let response: Response;
+    try {
+      response = await handleRequest(request, url, env, ctx);
+    } catch (err) {
+      log('error', 'request_failed', { method: request.method, path: url.pathname, error: String(err) });
+      response = jsonError('Internal error', 500, getCorsHeaders(request, env.ALLOWED_ORIGINS));
+    }
+
+    log(response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info', 'request', {
+      method: request.method,
+      path: url.pathname,
+      query: url.search || undefined,
+      status: response.status,
+      cache: response.headers.get('X-Cache') ?? undefined,
+      durationMs: Date.now() - startedAt,
+      origin: request.headers.get('Origin') ?? undefined,
+      colo: request.cf?.colo,
+      ray: request.headers.get('CF-Ray') ?? undefined,
+    });
+    return response;
+  },
+
+  async scheduled(_event: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const kv = env.FPL_HISTORY;
+    if (!kv) return;
+
+    ctx.waitUntil((async () => {
+      const payload = await fetchUpstream(`${env.FPL_API_BASE}/bootstrap-static/`);
+      if (payload.status !== 200) throw new Error(`bootstrap-static returned ${payload.status}`);
+      const bootstrap = JSON.parse(new TextDecoder().decode(payload.body)) as BootstrapStatic;
+      const snapshot = await recordSnapshot(kv, bootstrap, payload.fetchedAt);
+      log('info', 'snapshot_stored', { date: snapshot.date, players: Object.keys(snapshot.players).length });
+    })().catch(err => {
+      log('error', 'snapshot_failed', { error: String(err) });
+    }));
   },
 };
@@ -0,0 +1,102 @@
+/**
+ * Live mini-league table
+ *
+ * Gathers every member's picks for a gameweek and scores them with the app's
+ * live league scoring (utils/liveLeague: auto-subs, captaincy, chips, hits,
+ * provisional bonus), re-ranked on live totals. FPL data comes through
+ * `fetchJson`, so the upstream calls share the worker's cache with the plain
+ * /api/* routes. Each member costs one subrequest, and Workers cap those per
+ * invocation, so a call scores one standings page (50 members) and the app
+ * pages through the league with `page`.
+ */
+
+import {
+  buildLivePlayerInputs,
+  rankLeagueLive,
+  scoreLeagueMember,
+  type LeagueLiveManager,
+  type LeagueLiveTable,
+} from '../../src/app/utils/liveLeague';
+import { getSeasonRules } from '../../src/app/utils/fplRules';
+import { seasonForDate } from '../../src/app/utils/seasonImport';
+import type {
+  BootstrapStatic,
+  EntryPicks,
+  Fixture,
+  LeagueStandings,
+  LiveGameweek,
+} from '../../src/app/types/fpl';
+
+export type { LeagueLiveManager, LeagueLivePick, LeagueLiveTable } from '../../src/app/utils/liveLeague';
+
+export type FetchJson = (apiPath: string) => Promise<unknown>;
+
+const PICKS_CONCURRENCY = 8;
+
+export class LeagueLiveError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'LeagueLiveError';
+  }
+}
+
+/**
+ * Map over items with at most `limit` promises pending at once.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Score one gameweek for a page of a classic league's standings and rank it on
+ * live totals. `gameweek` defaults to the current one.
+ */
+export async function buildLeagueLiveTable(
+  leagueId: number,
+  gameweek: number | null,
+  fetchJson: FetchJson,
+  page = 1
+): Promise<LeagueLiveTable> {
+  const bootstrap = await fetchJson('bootstrap-static/') as BootstrapStatic;
+  const gw = gameweek ?? bootstrap.events.find(e => e.is_current)?.id ?? null;
+  if (!gw || !bootstrap.events.some(e => e.id === gw)) {
+    throw new LeagueLiveError('No such gameweek', 400);
+  }
+
+  const firstDeadline = bootstrap.events[0]?.deadline_time;
+  const season = seasonForDate(firstDeadline ? new Date(firstDeadline) : new Date());
+  const rules = getSeasonRules(season);
+
+  const suffix = page > 1 ? `?page_standings=${page}` : '';
+  const [standings, live, fixtures] = await Promise.all([
+    fetchJson(`leagues-classic/${leagueId}/standings/${suffix}`) as Promise<LeagueStandings>,
+    fetchJson(`event/${gw}/live/`) as Promise<LiveGameweek>,
+    fetchJson(`fixtures/?event=${gw}`) as Promise<Fixture[]>,
+  ]);
+
+  const inputs = buildLivePlayerInputs(bootstrap.elements, live.elements, fixtures, rules);
+
+  const scored = await mapWithConcurrency(standings.standings.results, PICKS_CONCURRENCY, async (member): Promise<LeagueLiveManager> => {
+    const picks = await fetchJson(`entry/${member.entry}/event/${gw}/picks/`) as EntryPicks;
+    return scoreLeagueMember(member, picks, inputs, rules);
+  });
+
+  return {
+    league: { id: standings.league.id, name: standings.league.name },
+    gameweek: gw,
+    season,
+    computed_at: new Date().toISOString(),
+    page,
+    has_next: standings.standings.has_next,
+    managers: rankLeagueLive(scored),
+  };
+}
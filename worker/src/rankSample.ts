@@ -0,0 +1,66 @@
+/**
+ * Live overall rank sample
+ *
+ * Scores around twenty managers from each rank band of the overall league on
+ * live points (utils/rankEstimate), giving the points-to-rank distribution the app
+ * places a manager's live total against. The sample doesn't depend on who is
+ * asking, so one cached response serves every client. FPL data comes through
+ * `fetchJson` like the live league table's.
+ */
+
+import { buildLivePlayerInputs } from '../../src/app/utils/liveLeague';
+import {
+  OVERALL_LEAGUE_ID,
+  planRankStrata,
+  sampleLiveTotals,
+  type RankSample,
+} from '../../src/app/utils/rankEstimate';
+import { getSeasonRules } from '../../src/app/utils/fplRules';
+import { seasonForDate } from '../../src/app/utils/seasonImport';
+import { LeagueLiveError, type FetchJson } from './leagueLive';
+import type {
+  BootstrapStatic,
+  EntryPicks,
+  Fixture,
+  LeagueStandings,
+  LiveGameweek,
+} from '../../src/app/types/fpl';
+
+export type { RankSample, RankStratum } from '../../src/app/utils/rankEstimate';
+
+/**
+ * Sample the overall league on one gameweek's live points. `gameweek`
+ * defaults to the current one.
+ */
+export async function buildLiveRankSample(gameweek: number | null, fetchJson: FetchJson): Promise<RankSample> {
+  const bootstrap = await fetchJson('bootstrap-static/') as BootstrapStatic;
+  const gw = gameweek ?? bootstrap.events.find(e => e.is_current)?.id ?? null;
+  if (!gw || !bootstrap.events.some(e => e.id === gw)) {
+    throw new LeagueLiveError('No such gameweek', 400);
+  }
+  if (!bootstrap.total_players) throw new LeagueLiveError('Player count unavailable', 502);
+
+  const firstDeadline = bootstrap.events[0]?.deadline_time;
+  const season = seasonForDate(firstDeadline ? new Date(firstDeadline) : new Date());
+  const rules = getSeasonRules(season);
+
+  const [live, fixtures] = await Promise.all([
+    fetchJson(`event/${gw}/live/`) as Promise<LiveGameweek>,
+    fetchJson(`fixtures/?event=${gw}`) as Promise<Fixture[]>,
+  ]);
+  const inputs = buildLivePlayerInputs(bootstrap.elements, live.elements, fixtures, rules);
+
+  const strata = await sampleLiveTotals(planRankStrata(bootstrap.total_players), {
+    standingsPage: async page =>
+      await fetchJson(`leagues-classic/${OVERALL_LEAGUE_ID}/standings/?page_standings=${page}`) as LeagueStandings,
+    picks: async entry => await fetchJson(`entry/${entry}/event/${gw}/picks/`) as EntryPicks,
+  }, inputs, rules);
+
+  return {
+    gameweek: gw,
+    season,
+    computed_at: new Date().toISOString(),
+    total_players: bootstrap.total_players,
+    strata,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Per-client rate limiting
+ *
+ * A fixed window per client IP (CF-Connecting-IP), counted in this isolate's
+ * memory. Cloudflare spreads traffic over many isolates, so the limit is
+ * approximate — it stops a single client hammering the proxy (and getting it
+ * rate limited by FPL) without needing a Durable Object on every request.
+ *
+ * Configured by RATE_LIMIT_REQUESTS and RATE_LIMIT_WINDOW_SECONDS in wrangler.toml.
+ */
+
+export interface RateLimitConfig {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the client's window resets
+  retryAfter: number;
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = { limit: 120, windowSeconds: 60 };
+
+// Routes that fan out into many upstream requests count for more. Images are
+// allowlisted and edge-cached, and a page can show dozens, so they're free.
+const ROUTE_COSTS: Array<{ match: (path: string) => boolean; cost: number }> = [
+  { match: path => path.startsWith('/agg/'), cost: 10 },
+  { match: path => path.startsWith('/img/'), cost: 0 },
+];
+
+// Drop expired windows once this many clients are tracked
+const PRUNE_THRESHOLD = 5000;
+
+const windows = new Map<string, { start: number; count: number }>();
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function parseRateLimitConfig(limit: string | undefined, windowSeconds: string | undefined): RateLimitConfig {
+  return {
+    limit: positiveInt(limit, DEFAULT_CONFIG.limit),
+    windowSeconds: positiveInt(windowSeconds, DEFAULT_CONFIG.windowSeconds),
+  };
+}
+
+export function clientKey(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') || 'unknown';
+}
+
+function routeCost(path: string): number {
+  return ROUTE_COSTS.find(route => route.match(path))?.cost ?? 1;
+}
+
+function pruneWindows(now: number, windowMs: number): void {
+  for (const [key, window] of windows) {
+    if (now - window.start >= windowMs) windows.delete(key);
+  }
+}
+
+/**
+ * Count a request against the client's window. Rejected requests aren't counted.
+ */
+export function checkRateLimit(client: string, path: string, config: RateLimitConfig, now = Date.now()): RateLimitResult {
+  const windowMs = config.windowSeconds * 1000;
+  if (windows.size > PRUNE_THRESHOLD) pruneWindows(now, windowMs);
+
+  let window = windows.get(client);
+  if (!window || now - window.start >= windowMs) {
+    window = { start: now, count: 0 };
+    windows.set(client, window);
+  }
+
+  const cost = routeCost(path);
+  const retryAfter = Math.max(1, Math.ceil((window.start + windowMs - now) / 1000));
+  if (window.count + cost > config.limit) {
+    return { allowed: false, limit: config.limit, remaining: Math.max(0, config.limit - window.count), retryAfter };
+  }
+
+  window.count += cost;
+  return { allowed: true, limit: config.limit, remaining: config.limit - window.count, retryAfter };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+  };
+  if (!result.allowed) headers['Retry-After'] = String(result.retryAfter);
+  return headers;
+}
@@ -0,0 +1,247 @@
+/**
+ * Share cards
+ *
+ * Builds the content of a share card from URL parameters and FPL data:
+ *   squad    ?entry=&gw=  a manager's starting XI and bench
+ *   compare  ?a=&b=       two players side by side
+ *   gw       ?entry=&gw=  a manager's gameweek summary
+ *
+ * Parameters are ids only — every word on a card comes from FPL, so a shared
+ * link can't put arbitrary text on an image served from our domain.
+ */
+
+import type { ShareCard } from './cardRender';
+import type { FetchJson } from './leagueLive';
+import { chipLabel } from '../../src/app/utils/fplRules';
+import type {
+  BootstrapStatic,
+  EntryHistory,
+  EntryPicks,
+  ManagerEntry,
+  Player,
+} from '../../src/app/types/fpl';
+
+export const SHARE_CARD_KINDS = ['squad', 'compare', 'gw'] as const;
+export type ShareCardKind = typeof SHARE_CARD_KINDS[number];
+
+export type ShareCardParams = Record<string, number>;
+
+const CARD_PARAMS: Record<ShareCardKind, { required: string[]; optional: string[] }> = {
+  squad: { required: ['entry'], optional: ['gw'] },
+  compare: { required: ['a', 'b'], optional: [] },
+  gw: { required: ['entry'], optional: ['gw'] },
+};
+
+const POSITION_SHORT: Record<number, string> = { 1: 'GKP', 2: 'DEF', 3: 'MID', 4: 'FWD' };
+
+export class ShareCardError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ShareCardError';
+  }
+}
+
+export function isShareCardKind(kind: string): kind is ShareCardKind {
+  return (SHARE_CARD_KINDS as readonly string[]).includes(kind);
+}
+
+/**
+ * The card's parameters from a query string, as positive integers. Unknown
+ * parameters are dropped so they can't vary the cache key.
+ */
+export function parseShareParams(kind: ShareCardKind, searchParams: URLSearchParams): ShareCardParams {
+  const { required, optional } = CARD_PARAMS[kind];
+  const params: ShareCardParams = {};
+  for (const name of [...required, ...optional]) {
+    const raw = searchParams.get(name);
+    if (raw === null) {
+      if (required.includes(name)) throw new ShareCardError(`${name} is required`, 400);
+      continue;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1) throw new ShareCardError(`${name} must be a positive whole number`, 400);
+    params[name] = value;
+  }
+  return params;
+}
+
+/**
+ * Canonical query string for a card's parameters, e.g. '?a=1&b=2'.
+ */
+export function shareQuery(params: ShareCardParams): string {
+  const query = new URLSearchParams(
+    Object.keys(params).sort().map((name): [string, string] => [name, String(params[name])]),
+  ).toString();
+  return query ? `?${query}` : '';
+}
+
+const formatNumber = (value: number | null | undefined) =>
+  value === null || value === undefined ? '-' : new Intl.NumberFormat('en-GB').format(value);
+
+function currentGameweek(bootstrap: BootstrapStatic): number {
+  const gw = bootstrap.events.find(e => e.is_current)?.id;
+  if (!gw) throw new ShareCardError('The season has not started', 400);
+  return gw;
+}
+
+function requireGameweek(bootstrap: BootstrapStatic, gw: number): number {
+  if (!bootstrap.events.some(e => e.id === gw)) throw new ShareCardError('No such gameweek', 400);
+  return gw;
+}
+
+async function squadCard(params: ShareCardParams, fetchJson: FetchJson): Promise<ShareCard> {
+  const bootstrap = await fetchJson('bootstrap-static/') as BootstrapStatic;
+  const gw = requireGameweek(bootstrap, params.gw ?? currentGameweek(bootstrap));
+  const [entry, picks] = await Promise.all([
+    fetchJson(`entry/${params.entry}/`) as Promise<ManagerEntry>,
+    fetchJson(`entry/${params.entry}/event/${gw}/picks/`) as Promise<EntryPicks>,
+  ]);
+
+  const players = new Map(bootstrap.elements.map(p => [p.id, p] as const));
+  const captainTag = picks.active_chip === '3xc' ? ' (TC)' : ' (C)';
+  const name = (element: number, isCaptain: boolean) =>
+    `${players.get(element)?.web_name ?? '?'}${isCaptain ? captainTag : ''}`;
+
+  const starters = picks.picks.filter(pick => pick.position <= 11);
+  const lines = [1, 2, 3, 4].map(elementType =>
+    starters.filter(pick => players.get(pick.element)?.element_type === elementType));
+  const formation = lines.slice(1).map(line => line.length).join('-');
+
+  const rows = lines.map((line, index) => ({
+    label: POSITION_SHORT[index + 1],
+    values: [line.map(pick => name(pick.element, pick.is_captain)).join(', ')],
+  }));
+  rows.push({
+    label: 'Bench',
+    values: [picks.picks.filter(pick => pick.position > 11).map(pick => name(pick.element, false)).join(', ')],
+  });
+
+  const chip = picks.active_chip ? ` · ${chipLabel(picks.active_chip)}` : '';
+  return {
+    title: entry.name,
+    subtitle: `${entry.player_first_name} ${entry.player_last_name} · GW${gw}${chip}`,
+    columns: [],
+    rows,
+    footer: `${formation} · ${picks.entry_history.points} pts`,
+  };
+}
+
+async function compareCard(params: ShareCardParams, fetchJson: FetchJson): Promise<ShareCard> {
+  const bootstrap = await fetchJson('bootstrap-static/') as BootstrapStatic;
+  const find = (id: number): Player => {
+    const player = bootstrap.elements.find(p => p.id === id);
+    if (!player) throw new ShareCardError(`Player ${id} not found`, 404);
+    return player;
+  };
+  const pair = [find(params.a), find(params.b)];
+  const teams = new Map(bootstrap.teams.map(t => [t.id, t.short_name] as const));
+  const gw = bootstrap.events.find(e => e.is_current)?.id;
+
+  const row = (label: string, value: (p: Player) => string) => ({ label, values: pair.map(value) });
+  return {
+    title: `${pair[0].web_name} vs ${pair[1].web_name}`,
+    subtitle: pair.map(p => `${teams.get(p.team) ?? '?'} ${POSITION_SHORT[p.element_type] ?? ''}`).join(' · '),
+    columns: pair.map(p => p.web_name),
+    rows: [
+      row('Price', p => `£${(p.now_cost / 10).toFixed(1)}m`),
+      row('Points', p => String(p.total_points)),
+      row('Form', p => p.form),
+      row('Pts/game', p => p.points_per_game),
+      row('Goals', p => String(p.goals_scored)),
+      row('Assists', p => String(p.assists)),
+      row('xGI', p => p.expected_goal_involvements),
+      row('Selected', p => `${p.selected_by_percent}%`),
+    ],
+    footer: gw ? `Season stats to GW${gw}` : 'Season stats',
+  };
+}
+
+async function gameweekCard(params: ShareCardParams, fetchJson: FetchJson): Promise<ShareCard> {
+  const [bootstrap, entry, history] = await Promise.all([
+    fetchJson('bootstrap-static/') as Promise<BootstrapStatic>,
+    fetchJson(`entry/${params.entry}/`) as Promise<ManagerEntry>,
+    fetchJson(`entry/${params.entry}/history/`) as Promise<EntryHistory>,
+  ]);
+  const gw = requireGameweek(bootstrap, params.gw ?? entry.current_event ?? currentGameweek(bootstrap));
+  const row = history.current.find(r => r.event === gw);
+  if (!row) throw new ShareCardError(`No GW${gw} entry for this manager`, 404);
+
+  const event = bootstrap.events.find(e => e.id === gw);
+  const previous = history.current.find(r => r.event === gw - 1);
+  const rankMove = previous?.overall_rank && row.overall_rank
+    ? previous.overall_rank - row.overall_rank
+    : null;
+  const chip = history.chips.find(c => c.event === gw);
+  const hit = row.event_transfers_cost > 0 ? ` (-${row.event_transfers_cost})` : '';
+
+  return {
+    title: entry.name,
+    subtitle: `${entry.player_first_name} ${entry.player_last_name} · GW${gw}`,
+    columns: [],
+    rows: [
+      { label: 'Points', values: [`${row.points}${hit}`] },
+      { label: 'Average', values: [formatNumber(event?.average_entry_score)] },
+      { label: 'Highest', values: [formatNumber(event?.highest_score)] },
+      { label: 'GW rank', values: [formatNumber(row.rank)] },
+      {
+        label: 'Overall rank',
+        values: [`${formatNumber(row.overall_rank)}${rankMove ? ` (${rankMove > 0 ? 'up' : 'down'} ${formatNumber(Math.abs(rankMove))})` : ''}`],
+      },
+      { label: 'Transfers', values: [String(row.event_transfers)] },
+      { label: 'Chip', values: [chip ? chipLabel(chip.name) : 'None'] },
+    ],
+    footer: event?.finished ? `Total ${formatNumber(row.total_points)} pts` : 'Gameweek in progress',
+  };
+}
+
+export function buildShareCard(kind: ShareCardKind, params: ShareCardParams, fetchJson: FetchJson): Promise<ShareCard> {
+  switch (kind) {
+    case 'squad':
+      return squadCard(params, fetchJson);
+    case 'compare':
+      return compareCard(params, fetchJson);
+    case 'gw':
+      return gameweekCard(params, fetchJson);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Page for a shared link: Open Graph and Twitter tags pointing at the card
+ * image for crawlers, and a redirect into the app for people.
+ */
+export function sharePageHtml(card: ShareCard, urls: { page: string; image: string; app: string | null }): string {
+  const title = escapeHtml(card.title);
+  const description = escapeHtml(card.subtitle);
+  const app = urls.app ? escapeHtml(urls.app) : null;
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<meta property="og:type" content="website">
+<meta property="og:site_name" content="FPL Analytics">
+<meta property="og:title" content="${title}">
+<meta property="og:description" content="${description}">
+<meta property="og:url" content="${escapeHtml(urls.page)}">
+<meta property="og:image" content="${escapeHtml(urls.image)}">
+<meta property="og:image:type" content="image/png">
+<meta property="og:image:width" content="1200">
+<meta property="og:image:height" content="630">
+<meta name="twitter:card" content="summary_large_image">
+<meta name="twitter:site" content="@FPL_Dave_">
+<meta name="twitter:title" content="${title}">
+<meta name="twitter:description" content="${description}">
+<meta name="twitter:image" content="${escapeHtml(urls.image)}">
+${app ? `<meta http-equiv="refresh" content="0; url=${app}">` : ''}
+</head>
+<body>
+<p>${title} — ${description}</p>
+${app ? `<p><a href="${app}">Open FPL Analytics</a></p>` : ''}
+</body>
+</html>
+`;
+}